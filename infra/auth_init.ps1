@@ -47,7 +47,7 @@ if (-not $spJson) { $spJson = az ad sp show --id $clientId --output json }
 $secretJson = az ad app credential reset --id $objectId --display-name "MCP Todo App Secret" --years 2 --output json | ConvertFrom-Json
 $clientSecret = $secretJson.password
 
-az ad app permission add --id $objectId --api "00000003-0000-0000-c000-000000000000" --api-permissions "e1fe6dd8-ba31-4d61-89e7-88639da4683d=Scope" 2>$null
+az ad app permission add --id $objectId --api "00000003-0000-0000-c000-000000000000" --api-permissions "e1fe6dd8-ba31-4d61-89e7-88639da4683d=Scope" "2219042f-cab5-40cc-b0d2-16b1540b4c5f=Scope" 2>$null
 az ad app permission admin-consent --id $objectId 2>$null
 
 azd env set ENTRA_CLIENT_ID $clientId
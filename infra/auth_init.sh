@@ -5,7 +5,7 @@
 # This script uses the Azure CLI to create an app registration with:
 # - A custom API scope (api://{clientId}/mcp-access)
 # - Redirect URIs for local dev + VS Code + production
-# - Admin consent for Graph API User.Read scope
+# - Admin consent for Graph API User.Read and Tasks.ReadWrite scopes
 #
 # It stores ENTRA_CLIENT_ID and ENTRA_CLIENT_SECRET in the azd env.
 # ────────────────────────────────────────────────────────────────────────
@@ -95,15 +95,16 @@ SECRET_JSON=$(az ad app credential reset \
 
 CLIENT_SECRET=$(echo "$SECRET_JSON" | jq -r '.password')
 
-# Grant admin consent for Microsoft Graph User.Read
+# Grant admin consent for Microsoft Graph User.Read and Tasks.ReadWrite (To Do sync)
 # Find Microsoft Graph service principal
 GRAPH_SP_ID=$(az ad sp list --filter "displayName eq 'Microsoft Graph'" --query "[0].id" -o tsv 2>/dev/null || echo "")
 
 if [ -n "$GRAPH_SP_ID" ]; then
-    echo "   Granting admin consent for Graph API (User.Read)..."
+    echo "   Granting admin consent for Graph API (User.Read, Tasks.ReadWrite)..."
     az ad app permission add --id "$OBJECT_ID" \
         --api "00000003-0000-0000-c000-000000000000" \
-        --api-permissions "e1fe6dd8-ba31-4d61-89e7-88639da4683d=Scope" 2>/dev/null || true
+        --api-permissions "e1fe6dd8-ba31-4d61-89e7-88639da4683d=Scope" \
+        "2219042f-cab5-40cc-b0d2-16b1540b4c5f=Scope" 2>/dev/null || true
 
     az ad app permission admin-consent --id "$OBJECT_ID" 2>/dev/null || \
         echo "   ⚠️  Admin consent may need to be granted manually in Azure Portal"
@@ -0,0 +1,213 @@
+import https from "node:https";
+import dns from "node:dns";
+import net from "node:net";
+
+/**
+ * Client ID Metadata Documents (CIMD) support for the OAuth proxy.
+ *
+ * With CIMD the `client_id` is an HTTPS URL pointing at a JSON document that
+ * describes the client. We fetch that document, check that it names itself
+ * (`client_id` == URL), and use its `redirect_uris` for validation — domain
+ * ownership is the trust anchor instead of a prior POST /register.
+ *
+ * Fetching arbitrary URLs is an SSRF vector, so the fetch:
+ *   - only allows https on the default port,
+ *   - resolves DNS itself and refuses private, loopback and link-local
+ *     addresses (checked at connect time, so DNS rebinding can't sneak past),
+ *   - never follows redirects,
+ *   - caps the response at 10 KB and the whole request at 5 seconds.
+ *
+ * @see https://datatracker.ietf.org/doc/draft-ietf-oauth-client-id-metadata-document/
+ */
+
+export interface ClientMetadataDocument {
+  client_id: string;
+  client_name?: string;
+  client_uri?: string;
+  logo_uri?: string;
+  redirect_uris: string[];
+  grant_types?: string[];
+  response_types?: string[];
+  token_endpoint_auth_method?: string;
+}
+
+const MAX_DOCUMENT_BYTES = 10 * 1024;
+const FETCH_TIMEOUT_MS = 5000;
+export const CIMD_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+const blockedAddresses = new net.BlockList();
+for (const [addr, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(addr, prefix, "ipv4");
+}
+for (const [addr, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96], // IPv4-mapped — the embedded v4 address is checked separately
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(addr, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string, family: number): boolean {
+  if (family === 6) {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) return blockedAddresses.check(mapped[1], "ipv4");
+  }
+  return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * True if `clientId` has the shape of a CIMD client identifier: an https URL
+ * with a path, no fragment, no credentials and no dot segments.
+ */
+export function isClientIdMetadataUrl(clientId: string | undefined): boolean {
+  if (!clientId || !clientId.startsWith("https://")) return false;
+  let url: URL;
+  try {
+    url = new URL(clientId);
+  } catch {
+    return false;
+  }
+  return (
+    url.protocol === "https:" &&
+    url.pathname !== "/" &&
+    !url.hash &&
+    !url.username &&
+    !url.password &&
+    !/\/\.\.?(\/|$)/.test(clientId.slice(url.origin.length))
+  );
+}
+
+/**
+ * Guarded DNS lookup for https.request — fails the connection if the host
+ * resolves to an address we must not talk to.
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    const list = addresses as dns.LookupAddress[];
+    const blocked = list.find((a) => isBlockedAddress(a.address, a.family));
+    if (blocked || list.length === 0) {
+      return callback(
+        new Error(`Refusing to fetch client metadata from ${hostname} (${blocked?.address ?? "no address"})`),
+        "",
+        0
+      );
+    }
+    if ((options as dns.LookupOptions).all) {
+      (callback as unknown as (e: null, a: dns.LookupAddress[]) => void)(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+function fetchDocument(url: URL): Promise<{ body: string; maxAgeMs: number | null }> {
+  return new Promise((resolve, reject) => {
+    const req = https.get(
+      url,
+      {
+        lookup: guardedLookup,
+        timeout: FETCH_TIMEOUT_MS,
+        headers: { Accept: "application/json" },
+      },
+      (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(new Error(`Client metadata fetch returned HTTP ${res.statusCode}`));
+          return;
+        }
+
+        let size = 0;
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_DOCUMENT_BYTES) {
+            req.destroy(new Error(`Client metadata document exceeds ${MAX_DOCUMENT_BYTES} bytes`));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("end", () => {
+          const maxAge = /max-age=(\d+)/.exec(res.headers["cache-control"] || "");
+          resolve({
+            body: Buffer.concat(chunks).toString("utf-8"),
+            maxAgeMs: maxAge ? parseInt(maxAge[1], 10) * 1000 : null,
+          });
+        });
+        res.on("error", reject);
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error("Client metadata fetch timed out")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Fetch and validate a client metadata document.
+ *
+ * Returns the document and how long it may be cached. Throws if the URL or
+ * the document is not acceptable.
+ */
+export async function fetchClientMetadata(
+  clientId: string
+): Promise<{ metadata: ClientMetadataDocument; ttlMs: number }> {
+  if (!isClientIdMetadataUrl(clientId)) {
+    throw new Error("client_id is not a valid metadata document URL");
+  }
+  const url = new URL(clientId);
+  if (url.port && url.port !== "443") {
+    throw new Error("Client metadata documents must be served on the default https port");
+  }
+  // IP literals bypass the DNS lookup hook, so check them up front
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const ipFamily = net.isIP(host);
+  if (ipFamily && isBlockedAddress(host, ipFamily)) {
+    throw new Error(`Refusing to fetch client metadata from ${host}`);
+  }
+
+  const { body, maxAgeMs } = await fetchDocument(url);
+
+  let doc: ClientMetadataDocument;
+  try {
+    doc = JSON.parse(body) as ClientMetadataDocument;
+  } catch {
+    throw new Error("Client metadata document is not valid JSON");
+  }
+
+  if (doc.client_id !== clientId) {
+    throw new Error("Client metadata client_id does not match the document URL");
+  }
+  if (
+    !Array.isArray(doc.redirect_uris) ||
+    doc.redirect_uris.length === 0 ||
+    !doc.redirect_uris.every((u) => typeof u === "string")
+  ) {
+    throw new Error("Client metadata must list at least one redirect_uri");
+  }
+  if ("client_secret" in doc || "client_secret_expires_at" in doc) {
+    throw new Error("Client metadata documents must not contain a client_secret");
+  }
+  // The proxy only supports public clients (PKCE, no client authentication)
+  const authMethod = doc.token_endpoint_auth_method || "none";
+  if (authMethod !== "none") {
+    throw new Error(`Unsupported token_endpoint_auth_method '${authMethod}' for CIMD client`);
+  }
+
+  const ttlMs = maxAgeMs !== null ? Math.min(maxAgeMs, CIMD_CACHE_TTL) : CIMD_CACHE_TTL;
+  return { metadata: doc, ttlMs };
+}
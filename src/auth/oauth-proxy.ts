@@ -1,6 +1,17 @@
 import { Router, Request, Response } from "express";
 import crypto from "node:crypto";
 import express from "express";
+import { getProxyStateStore } from "./proxy-state.js";
+import {
+  issueProxyTokens,
+  redeemProxyRefreshToken,
+  revokeToken,
+} from "./proxy-tokens.js";
+import {
+  ClientMetadataDocument,
+  fetchClientMetadata,
+  isClientIdMetadataUrl,
+} from "./cimd.js";
 
 /**
  * OAuth Proxy for MCP Authorization with Microsoft Entra ID.
@@ -13,10 +24,12 @@ import express from "express";
  * Flow:
  *   1. MCP client discovers PRM → finds this proxy as the authorization server
  *   2. MCP client registers via POST /register → gets a client_id
+ *      (or, with CIMD, uses the URL of its metadata document as client_id)
  *   3. MCP client redirects user to GET /authorize → proxy redirects to Entra
  *   4. Entra redirects back to GET /auth/callback → proxy exchanges code
  *   5. Proxy redirects to MCP client's redirect_uri with a new auth code
- *   6. MCP client exchanges code at POST /token → proxy returns Entra tokens
+ *   6. MCP client exchanges code at POST /token → proxy returns its own opaque
+ *      tokens; the Entra tokens stay server-side (see proxy-tokens.ts)
  *
  * @see https://techcommunity.microsoft.com/blog/azuredevcommunityblog/using-on-behalf-of-flow-for-entra-based-mcp-servers/4486760
  * @see https://gofastmcp.com/servers/auth/oauth-proxy
@@ -34,7 +47,10 @@ const baseUrl = () =>
 const entraAuthority = () =>
   `https://login.microsoftonline.com/${entraTenantId()}`;
 
-// ── In-memory stores (dev only — use persistent storage for production) ─
+// ── Proxy state ────────────────────────────────────────────────────────
+// Clients, transactions and codes live in a ProxyStateStore (Cosmos DB,
+// file, or in-memory — see proxy-state.ts) so they survive restarts and
+// are shared across replicas.
 
 interface ClientRegistration {
   client_id: string;
@@ -58,6 +74,9 @@ interface AuthTransaction {
 }
 
 interface StoredTokens {
+  // The code is bound to the client and redirect_uri it was issued for
+  clientId: string;
+  redirectUri: string;
   accessToken: string;
   refreshToken?: string;
   expiresIn: number;
@@ -67,23 +86,91 @@ interface StoredTokens {
   createdAt: number;
 }
 
-const clientRegistrations = new Map<string, ClientRegistration>();
-const authTransactions = new Map<string, AuthTransaction>();
-const authCodes = new Map<string, StoredTokens>();
+const TRANSACTION_TTL = 10 * 60 * 1000; // 10 minutes
+const CODE_TTL = 5 * 60 * 1000; // 5 minutes
 
-// Clean up expired entries periodically (every 5 minutes)
-setInterval(() => {
-  const now = Date.now();
-  const TRANSACTION_TTL = 10 * 60 * 1000; // 10 minutes
-  const CODE_TTL = 5 * 60 * 1000; // 5 minutes
+/**
+ * Resolve a client_id to its registration.
+ *
+ * UUIDs are looked up in the DCR registrations. HTTPS URLs are treated as
+ * CIMD client ids: the metadata document is served from cache when possible,
+ * otherwise fetched, validated and cached. Returns null for unknown clients;
+ * throws if a CIMD document can't be fetched or is invalid.
+ */
+async function resolveClient(clientId: string | undefined): Promise<ClientRegistration | null> {
+  if (!clientId) return null;
+  const stateStore = await getProxyStateStore();
 
-  for (const [key, tx] of authTransactions) {
-    if (now - tx.createdAt > TRANSACTION_TTL) authTransactions.delete(key);
+  if (!isClientIdMetadataUrl(clientId)) {
+    return stateStore.get<ClientRegistration>("clients", clientId);
   }
-  for (const [key, code] of authCodes) {
-    if (now - code.createdAt > CODE_TTL) authCodes.delete(key);
+
+  let metadata = await stateStore.get<ClientMetadataDocument>("client_metadata", clientId);
+  if (!metadata) {
+    const fetched = await fetchClientMetadata(clientId);
+    metadata = fetched.metadata;
+    if (fetched.ttlMs > 0) {
+      await stateStore.set("client_metadata", clientId, metadata, fetched.ttlMs);
+    }
+    console.log(`🌍 Fetched client metadata: ${metadata.client_name || clientId}`);
   }
-}, 5 * 60 * 1000);
+
+  return {
+    client_id: metadata.client_id,
+    client_name: metadata.client_name || metadata.client_id,
+    redirect_uris: metadata.redirect_uris,
+    grant_types: metadata.grant_types || ["authorization_code", "refresh_token"],
+    response_types: metadata.response_types || ["code"],
+    token_endpoint_auth_method: metadata.token_endpoint_auth_method || "none",
+    created_at: Date.now(),
+  };
+}
+
+/**
+ * Check a redirect URI offered at registration time. Returns an error
+ * message, or undefined if the URI is acceptable.
+ *
+ * Must be absolute with no fragment (RFC 6749 §3.1.2). Plain http is only
+ * allowed for loopback hosts (native apps, OAuth 2.1 §8.4.2).
+ */
+function validateRedirectUri(uri: unknown): string | undefined {
+  if (typeof uri !== "string") return "redirect_uris must be strings";
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return `redirect_uri is not an absolute URI: ${uri}`;
+  }
+  if (url.hash) return `redirect_uri must not contain a fragment: ${uri}`;
+  if (
+    url.protocol === "http:" &&
+    !["localhost", "127.0.0.1", "[::1]"].includes(url.hostname)
+  ) {
+    return `http redirect_uri is only allowed for loopback hosts: ${uri}`;
+  }
+  if (url.protocol === "javascript:" || url.protocol === "data:") {
+    return `redirect_uri scheme is not allowed: ${uri}`;
+  }
+  return undefined;
+}
+
+/**
+ * Send an OAuth error back to an already-validated client redirect_uri
+ * (RFC 6749 §4.1.2.1).
+ */
+function redirectWithError(
+  res: Response,
+  redirectUri: string,
+  state: string | undefined,
+  error: string,
+  description: string
+): void {
+  const url = new URL(redirectUri);
+  url.searchParams.set("error", error);
+  url.searchParams.set("error_description", description);
+  if (state) url.searchParams.set("state", state);
+  res.redirect(url.toString());
+}
 
 // ── Router ─────────────────────────────────────────────────────────────
 
@@ -113,6 +200,7 @@ router.get("/.well-known/oauth-authorization-server", (_req, res) => {
     ],
     code_challenge_methods_supported: ["S256", "plain"],
     scopes_supported: [`api://${clientId}/mcp-access`],
+    client_id_metadata_document_supported: true,
     service_documentation: `${base}/.well-known/oauth-protected-resource`,
   });
 });
@@ -120,13 +208,25 @@ router.get("/.well-known/oauth-authorization-server", (_req, res) => {
 // ── Dynamic Client Registration (RFC 7591) ─────────────────────────────
 // MCP clients call this to register and obtain a client_id.
 
-router.post("/register", (req: Request, res: Response) => {
+router.post("/register", async (req: Request, res: Response) => {
+  const redirectUris: unknown = req.body.redirect_uris;
+  const redirectUriError = Array.isArray(redirectUris) && redirectUris.length > 0
+    ? redirectUris.map(validateRedirectUri).find(Boolean)
+    : "redirect_uris must be a non-empty array";
+  if (redirectUriError) {
+    res.status(400).json({
+      error: "invalid_redirect_uri",
+      error_description: redirectUriError,
+    });
+    return;
+  }
+
   const clientId = crypto.randomUUID();
 
   const registration: ClientRegistration = {
     client_id: clientId,
     client_name: req.body.client_name || "MCP Client",
-    redirect_uris: req.body.redirect_uris || [],
+    redirect_uris: redirectUris as string[],
     grant_types: req.body.grant_types || [
       "authorization_code",
       "refresh_token",
@@ -137,7 +237,8 @@ router.post("/register", (req: Request, res: Response) => {
     created_at: Date.now(),
   };
 
-  clientRegistrations.set(clientId, registration);
+  const stateStore = await getProxyStateStore();
+  await stateStore.set("clients", clientId, registration);
 
   console.log(
     `📝 Client registered: ${registration.client_name} (${clientId}), redirect_uris: ${registration.redirect_uris.join(", ")}`
@@ -156,7 +257,7 @@ router.post("/register", (req: Request, res: Response) => {
 // ── Authorization Endpoint ─────────────────────────────────────────────
 // MCP client redirects the user here. We redirect to Entra.
 
-router.get("/authorize", (req: Request, res: Response) => {
+router.get("/authorize", async (req: Request, res: Response) => {
   const {
     client_id,
     redirect_uri,
@@ -167,14 +268,52 @@ router.get("/authorize", (req: Request, res: Response) => {
     response_type,
   } = req.query as Record<string, string>;
 
-  if (response_type !== "code") {
+  // Validate client_id and redirect_uri first. Per RFC 6749 §4.1.2.1, if
+  // either is invalid we must NOT redirect — otherwise an attacker could
+  // use this endpoint as an open redirector to receive codes.
+  let client: ClientRegistration | null;
+  try {
+    client = await resolveClient(client_id);
+  } catch (err) {
+    console.error(`❌ CIMD client rejected (${client_id}): ${(err as Error).message}`);
+    res.status(400).json({
+      error: "invalid_client",
+      error_description: `Unable to use client metadata document: ${(err as Error).message}`,
+    });
+    return;
+  }
+  if (!client) {
     res.status(400).json({
-      error: "unsupported_response_type",
-      error_description: "Only 'code' response type is supported",
+      error: "invalid_client",
+      error_description: "Unknown client_id. Register via /register or use a client metadata document URL.",
+    });
+    return;
+  }
+  // Exact string match only — no prefix or wildcard matching (OAuth 2.1 §2.3.1).
+  // For CIMD clients this is what stops impersonation of a known client.
+  if (!redirect_uri || !client.redirect_uris.includes(redirect_uri)) {
+    console.error(`❌ redirect_uri mismatch for client ${client_id}: ${redirect_uri}`);
+    res.status(400).json({
+      error: "invalid_request",
+      error_description: "redirect_uri is missing or not registered for this client",
     });
     return;
   }
 
+  // From here on the redirect_uri is trusted, so errors go back to the client
+  if (response_type !== "code") {
+    redirectWithError(res, redirect_uri, state, "unsupported_response_type", "Only 'code' response type is supported");
+    return;
+  }
+  if (!code_challenge) {
+    redirectWithError(res, redirect_uri, state, "invalid_request", "PKCE code_challenge is required");
+    return;
+  }
+  if (code_challenge_method && !["S256", "plain"].includes(code_challenge_method)) {
+    redirectWithError(res, redirect_uri, state, "invalid_request", "Unsupported code_challenge_method");
+    return;
+  }
+
   // Generate proxy state to link this transaction
   const proxyState = crypto.randomUUID();
 
@@ -190,13 +329,14 @@ router.get("/authorize", (req: Request, res: Response) => {
     clientId: client_id,
     clientRedirectUri: redirect_uri,
     clientState: state,
-    clientCodeChallenge: code_challenge || "",
+    clientCodeChallenge: code_challenge,
     clientCodeChallengeMethod: code_challenge_method || "S256",
     proxyCodeVerifier,
     requestedScope: scope || "",
     createdAt: Date.now(),
   };
-  authTransactions.set(proxyState, transaction);
+  const stateStore = await getProxyStateStore();
+  await stateStore.set("transactions", proxyState, transaction, TRANSACTION_TTL);
 
   // Build the Entra authorize URL
   const entraAuthUrl = new URL(
@@ -242,8 +382,9 @@ router.get("/auth/callback", async (req: Request, res: Response) => {
     return;
   }
 
-  // Look up the original transaction
-  const transaction = authTransactions.get(state);
+  // Look up (and consume) the original transaction
+  const stateStore = await getProxyStateStore();
+  const transaction = await stateStore.take<AuthTransaction>("transactions", state);
   if (!transaction) {
     res.status(400).json({
       error: "invalid_state",
@@ -252,7 +393,6 @@ router.get("/auth/callback", async (req: Request, res: Response) => {
     });
     return;
   }
-  authTransactions.delete(state);
 
   try {
     // Exchange the authorization code with Entra for tokens
@@ -282,7 +422,9 @@ router.get("/auth/callback", async (req: Request, res: Response) => {
 
     // Generate a new authorization code for the MCP client
     const proxyCode = crypto.randomUUID();
-    authCodes.set(proxyCode, {
+    await stateStore.set<StoredTokens>("codes", proxyCode, {
+      clientId: transaction.clientId,
+      redirectUri: transaction.clientRedirectUri,
       accessToken: tokenData.access_token as string,
       refreshToken: tokenData.refresh_token as string | undefined,
       expiresIn: tokenData.expires_in as number,
@@ -290,7 +432,7 @@ router.get("/auth/callback", async (req: Request, res: Response) => {
       clientCodeChallenge: transaction.clientCodeChallenge,
       clientCodeChallengeMethod: transaction.clientCodeChallengeMethod,
       createdAt: Date.now(),
-    });
+    }, CODE_TTL);
 
     // Redirect to the MCP client's redirect_uri with the proxy code
     const clientRedirect = new URL(transaction.clientRedirectUri);
@@ -313,7 +455,8 @@ router.get("/auth/callback", async (req: Request, res: Response) => {
 });
 
 // ── Token Endpoint ─────────────────────────────────────────────────────
-// MCP client exchanges its proxy code for tokens, or refreshes tokens.
+// MCP client exchanges its proxy code for proxy-issued tokens, or refreshes
+// them. Entra access/refresh tokens never leave the server.
 
 router.post("/token", async (req: Request, res: Response) => {
   const {
@@ -325,10 +468,31 @@ router.post("/token", async (req: Request, res: Response) => {
     refresh_token,
   } = req.body;
 
+  // Public clients identify themselves with client_id on every request
+  // (RFC 6749 §3.2.1). CIMD clients must still have a valid metadata document.
+  let client: ClientRegistration | null;
+  try {
+    client = await resolveClient(client_id);
+  } catch (err) {
+    res.status(401).json({
+      error: "invalid_client",
+      error_description: `Unable to use client metadata document: ${(err as Error).message}`,
+    });
+    return;
+  }
+  if (!client) {
+    res.status(401).json({
+      error: "invalid_client",
+      error_description: "Unknown or missing client_id",
+    });
+    return;
+  }
+
   // ── Authorization Code Grant ──────────────────────────────────────
 
   if (grant_type === "authorization_code") {
-    const stored = authCodes.get(code);
+    const stateStore = await getProxyStateStore();
+    const stored = await stateStore.take<StoredTokens>("codes", code);
     if (!stored) {
       res.status(400).json({
         error: "invalid_grant",
@@ -336,10 +500,35 @@ router.post("/token", async (req: Request, res: Response) => {
       });
       return;
     }
-    authCodes.delete(code);
 
-    // Validate client's PKCE
-    if (stored.clientCodeChallenge && code_verifier) {
+    // The code must be redeemed by the client it was issued to, with the
+    // same redirect_uri used in the authorization request (RFC 6749 §4.1.3)
+    if (stored.clientId !== client.client_id) {
+      console.error(`❌ Code issued to ${stored.clientId} redeemed by ${client.client_id}`);
+      res.status(400).json({
+        error: "invalid_grant",
+        error_description: "Authorization code was issued to a different client",
+      });
+      return;
+    }
+    if (redirect_uri !== stored.redirectUri) {
+      res.status(400).json({
+        error: "invalid_grant",
+        error_description: "redirect_uri does not match the authorization request",
+      });
+      return;
+    }
+
+    // Validate client's PKCE — a stored challenge always requires a verifier
+    if (stored.clientCodeChallenge) {
+      if (!code_verifier) {
+        res.status(400).json({
+          error: "invalid_grant",
+          error_description: "Missing code_verifier",
+        });
+        return;
+      }
+
       let expectedChallenge: string;
       if (stored.clientCodeChallengeMethod === "S256") {
         expectedChallenge = crypto
@@ -359,15 +548,18 @@ router.post("/token", async (req: Request, res: Response) => {
       }
     }
 
-    console.log(`🎟️ Token issued to client ${client_id}`);
-
-    res.json({
-      access_token: stored.accessToken,
-      token_type: "Bearer",
-      expires_in: stored.expiresIn,
-      refresh_token: stored.refreshToken,
-      scope: stored.scope,
-    });
+    try {
+      // Mint proxy tokens; the Entra tokens stay server-side
+      const issued = await issueProxyTokens(client.client_id, stored);
+      console.log(`🎟️ Token issued to client ${client_id}`);
+      res.json(issued);
+    } catch (err) {
+      console.error("❌ Token issue error:", err);
+      res.status(500).json({
+        error: "server_error",
+        error_description: "Failed to issue tokens",
+      });
+    }
     return;
   }
 
@@ -382,8 +574,18 @@ router.post("/token", async (req: Request, res: Response) => {
       return;
     }
 
+    // Rotation: the presented refresh token is consumed whatever happens next
+    const record = await redeemProxyRefreshToken(refresh_token);
+    if (!record || record.clientId !== client.client_id) {
+      res.status(400).json({
+        error: "invalid_grant",
+        error_description: "Invalid, expired or revoked refresh token",
+      });
+      return;
+    }
+
     try {
-      // Proxy the refresh to Entra
+      // Refresh the upstream Entra tokens server-side
       const tokenResponse = await fetch(
         `${entraAuthority()}/oauth2/v2.0/token`,
         {
@@ -394,7 +596,7 @@ router.post("/token", async (req: Request, res: Response) => {
           body: new URLSearchParams({
             client_id: entraClientId(),
             client_secret: entraClientSecret(),
-            refresh_token,
+            refresh_token: record.upstreamRefreshToken,
             grant_type: "refresh_token",
             scope: `api://${entraClientId()}/mcp-access openid profile email offline_access`,
           }),
@@ -408,19 +610,23 @@ router.post("/token", async (req: Request, res: Response) => {
 
       if (tokenData.error) {
         console.error("❌ Token refresh failed:", tokenData);
-        res.status(400).json(tokenData);
+        res.status(400).json({
+          error: "invalid_grant",
+          error_description: "Upstream refresh failed. Please sign in again.",
+        });
         return;
       }
 
-      console.log(`🔄 Token refreshed for client ${client_id}`);
+      const issued = await issueProxyTokens(client.client_id, {
+        accessToken: tokenData.access_token as string,
+        // Entra may not rotate its refresh token; keep the old one if so
+        refreshToken: (tokenData.refresh_token as string | undefined) ?? record.upstreamRefreshToken,
+        expiresIn: tokenData.expires_in as number,
+        scope: tokenData.scope as string,
+      }, record.grantId);
 
-      res.json({
-        access_token: tokenData.access_token,
-        token_type: "Bearer",
-        expires_in: tokenData.expires_in,
-        refresh_token: tokenData.refresh_token,
-        scope: tokenData.scope,
-      });
+      console.log(`🔄 Token refreshed for client ${client_id}`);
+      res.json(issued);
     } catch (err) {
       console.error("❌ Refresh error:", err);
       res.status(500).json({
@@ -439,8 +645,34 @@ router.post("/token", async (req: Request, res: Response) => {
 
 // ── Token Revocation (RFC 7009) ────────────────────────────────────────
 
-router.post("/revoke", (_req: Request, res: Response) => {
-  // Accept revocation requests gracefully (no-op for simplicity)
+// Revoking any proxy token revokes its whole grant (see proxy-tokens.ts);
+// server.ts closes MCP sessions that were authenticated with it.
+
+router.post("/revoke", async (req: Request, res: Response) => {
+  const { token, client_id } = req.body;
+
+  if (!token) {
+    res.status(400).json({
+      error: "invalid_request",
+      error_description: "Missing token",
+    });
+    return;
+  }
+
+  const result = await revokeToken(token, client_id);
+
+  if (result === "wrong_client") {
+    res.status(400).json({
+      error: "invalid_grant",
+      error_description: "Token was not issued to this client",
+    });
+    return;
+  }
+
+  // Unknown or already-invalid tokens also get 200 (RFC 7009 §2.2)
+  if (result === "revoked") {
+    console.log(`🚫 Token revoked${client_id ? ` by client ${client_id}` : ""}`);
+  }
   res.status(200).json({});
 });
 
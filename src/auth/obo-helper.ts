@@ -36,6 +36,14 @@ function getCca(): msal.ConfidentialClientApplication {
   return ccaInstance;
 }
 
+/**
+ * Root of the Microsoft Graph API, without a trailing slash. GRAPH_BASE_URL
+ * overrides it, e.g. to point at a local mock Graph server in tests.
+ */
+export function graphBaseUrl(): string {
+  return (process.env.GRAPH_BASE_URL || "https://graph.microsoft.com/v1.0").replace(/\/+$/, "");
+}
+
 export interface UserProfile {
   id: string;
   displayName: string;
@@ -59,7 +67,7 @@ export async function getUserProfile(incomingToken: string): Promise<UserProfile
     throw new Error("OBO token exchange failed — no access token returned");
   }
 
-  const graphResponse = await fetch("https://graph.microsoft.com/v1.0/me", {
+  const graphResponse = await fetch(`${graphBaseUrl()}/me`, {
     headers: { Authorization: `Bearer ${oboResponse.accessToken}` },
   });
 
@@ -0,0 +1,288 @@
+import { Container } from "@azure/cosmos";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { createCosmosClient } from "../store/cosmos-store.js";
+
+/**
+ * Durable storage for OAuth proxy state (DCR clients, cached CIMD documents,
+ * in-flight authorize transactions, issued authorization codes, and the
+ * proxy-issued tokens with their upstream Entra tokens).
+ *
+ * Keeping this out of process memory lets the proxy survive restarts and
+ * run on more than one replica: a login that starts on replica A can
+ * finish its callback on replica B.
+ *
+ * Entries may carry a TTL. Expired entries are never returned, even if the
+ * backend hasn't physically removed them yet.
+ */
+
+export type ProxyStateCollection =
+  | "clients"
+  | "client_metadata"
+  | "transactions"
+  | "codes"
+  | "access_tokens"
+  | "refresh_tokens"
+  | "revoked";
+
+export interface ProxyStateStore {
+  readonly kind: string;
+  init(): Promise<void>;
+  get<T>(collection: ProxyStateCollection, key: string): Promise<T | null>;
+  set<T>(collection: ProxyStateCollection, key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(collection: ProxyStateCollection, key: string): Promise<void>;
+  /**
+   * Atomically read and delete an entry. Used for single-use values
+   * (authorization codes, transactions) so a replay on another replica
+   * can't redeem the same entry twice.
+   */
+  take<T>(collection: ProxyStateCollection, key: string): Promise<T | null>;
+}
+
+interface StateEntry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+// ── In-memory (dev, single process) ────────────────────────────────────
+
+export class InMemoryProxyStateStore implements ProxyStateStore {
+  readonly kind: string = "In-memory (dev)";
+  protected entries = new Map<string, StateEntry>();
+
+  async init(): Promise<void> {
+    // Sweep expired entries every 5 minutes; unref so it never keeps the process alive
+    setInterval(() => void this.sweep(), 5 * 60 * 1000).unref();
+  }
+
+  private static entryKey(collection: ProxyStateCollection, key: string): string {
+    return `${collection}:${key}`;
+  }
+
+  async get<T>(collection: ProxyStateCollection, key: string): Promise<T | null> {
+    const entry = this.entries.get(InMemoryProxyStateStore.entryKey(collection, key));
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) return null;
+    return structuredClone(entry.value) as T;
+  }
+
+  async set<T>(collection: ProxyStateCollection, key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(InMemoryProxyStateStore.entryKey(collection, key), {
+      value: structuredClone(value),
+      expiresAt: ttlMs ? Date.now() + ttlMs : null,
+    });
+    await this.persist();
+  }
+
+  async delete(collection: ProxyStateCollection, key: string): Promise<void> {
+    if (this.entries.delete(InMemoryProxyStateStore.entryKey(collection, key))) {
+      await this.persist();
+    }
+  }
+
+  async take<T>(collection: ProxyStateCollection, key: string): Promise<T | null> {
+    // Single-threaded: nothing can interleave between get and delete
+    const value = await this.get<T>(collection, key);
+    await this.delete(collection, key);
+    return value;
+  }
+
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+    let removed = false;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed = true;
+      }
+    }
+    if (removed) await this.persist();
+  }
+
+  /** Hook for subclasses that write the in-memory state somewhere durable. */
+  protected async persist(): Promise<void> {}
+}
+
+// ── JSON file (persistent local dev) ───────────────────────────────────
+
+export class FileProxyStateStore extends InMemoryProxyStateStore {
+  readonly kind: string;
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = resolve(filePath);
+    this.kind = `File (${this.filePath})`;
+  }
+
+  async init(): Promise<void> {
+    try {
+      const raw = await readFile(this.filePath, "utf-8");
+      this.entries = new Map(Object.entries(JSON.parse(raw) as Record<string, StateEntry>));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      await mkdir(dirname(this.filePath), { recursive: true });
+    }
+    await super.init();
+  }
+
+  protected persist(): Promise<void> {
+    // Chain from a settled promise so a failed write only fails its own caller
+    const write = this.writeChain.catch(() => {}).then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      const data = Object.fromEntries(this.entries);
+      await writeFile(tmpPath, JSON.stringify(data, null, 2), "utf-8");
+      await rename(tmpPath, this.filePath);
+    });
+    this.writeChain = write;
+    return write;
+  }
+}
+
+// ── Azure Cosmos DB (production, multi-replica) ────────────────────────
+// Uses the `oauth-clients` container partitioned by `/collection`.
+// Expiry relies on Cosmos per-item TTL (container defaultTtl = -1).
+
+interface StateDocument {
+  id: string;
+  collection: ProxyStateCollection;
+  value: unknown;
+  expires_at: number | null;
+  ttl?: number;
+  _etag?: string;
+}
+
+export class CosmosProxyStateStore implements ProxyStateStore {
+  readonly kind = "Cosmos DB";
+  private endpoint: string;
+  private _container?: Container;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+  }
+
+  async init(): Promise<void> {
+    const client = createCosmosClient(this.endpoint);
+    const { database } = await client.databases.createIfNotExists({
+      id: process.env.AZURE_COSMOSDB_DATABASE || "todo-database",
+    });
+    const { container } = await database.containers.createIfNotExists({
+      id: process.env.AZURE_COSMOSDB_OAUTH_CONTAINER || "oauth-clients",
+      partitionKey: { paths: ["/collection"] },
+      defaultTtl: -1,
+    });
+    this._container = container;
+  }
+
+  private get container(): Container {
+    if (!this._container) throw new Error("CosmosProxyStateStore not initialized");
+    return this._container;
+  }
+
+  // Cosmos ids may not contain '/', '\', '?' or '#'
+  private static docId(key: string): string {
+    return encodeURIComponent(key);
+  }
+
+  private async readDoc(collection: ProxyStateCollection, key: string): Promise<StateDocument | null> {
+    const { resource } = await this.container
+      .item(CosmosProxyStateStore.docId(key), collection)
+      .read<StateDocument>();
+    if (!resource) return null;
+    if (resource.expires_at !== null && resource.expires_at <= Date.now()) return null;
+    return resource;
+  }
+
+  async get<T>(collection: ProxyStateCollection, key: string): Promise<T | null> {
+    const doc = await this.readDoc(collection, key);
+    return doc ? (doc.value as T) : null;
+  }
+
+  async set<T>(collection: ProxyStateCollection, key: string, value: T, ttlMs?: number): Promise<void> {
+    const doc: StateDocument = {
+      id: CosmosProxyStateStore.docId(key),
+      collection,
+      value,
+      expires_at: ttlMs ? Date.now() + ttlMs : null,
+    };
+    if (ttlMs) doc.ttl = Math.ceil(ttlMs / 1000);
+    await this.container.items.upsert(doc);
+  }
+
+  async delete(collection: ProxyStateCollection, key: string): Promise<void> {
+    try {
+      await this.container.item(CosmosProxyStateStore.docId(key), collection).delete();
+    } catch (err) {
+      if ((err as { code?: number }).code !== 404) throw err;
+    }
+  }
+
+  async take<T>(collection: ProxyStateCollection, key: string): Promise<T | null> {
+    const doc = await this.readDoc(collection, key);
+    if (!doc) return null;
+
+    // Conditional delete: only the caller whose delete succeeds gets the value
+    try {
+      await this.container
+        .item(doc.id, collection)
+        .delete({ accessCondition: { type: "IfMatch", condition: doc._etag! } });
+    } catch (err) {
+      const code = (err as { code?: number }).code;
+      if (code === 404 || code === 412) return null;
+      throw err;
+    }
+    return doc.value as T;
+  }
+}
+
+// ── Backend selection ──────────────────────────────────────────────────
+
+let storeInstance: Promise<ProxyStateStore> | null = null;
+
+/**
+ * Pick a proxy state backend from the environment.
+ *
+ * `OAUTH_STATE_BACKEND` selects explicitly (`memory`, `file`, `cosmos`).
+ * When unset, Cosmos DB is used if `AZURE_COSMOSDB_ENDPOINT` is set,
+ * otherwise the in-memory store.
+ */
+export function createProxyStateStore(
+  backend: string | undefined = process.env.OAUTH_STATE_BACKEND
+): ProxyStateStore {
+  const endpoint = process.env.AZURE_COSMOSDB_ENDPOINT;
+  const selected = backend || (endpoint ? "cosmos" : "memory");
+
+  switch (selected) {
+    case "cosmos":
+      if (!endpoint) {
+        throw new Error("OAUTH_STATE_BACKEND=cosmos requires AZURE_COSMOSDB_ENDPOINT");
+      }
+      return new CosmosProxyStateStore(endpoint);
+    case "file":
+      return new FileProxyStateStore(process.env.OAUTH_STATE_FILE || ".data/oauth-state.json");
+    case "memory":
+      return new InMemoryProxyStateStore();
+    default:
+      throw new Error(
+        `Unknown OAUTH_STATE_BACKEND '${backend}' (expected memory, file, or cosmos)`
+      );
+  }
+}
+
+/**
+ * Shared, lazily-initialized proxy state store for this process.
+ */
+export function getProxyStateStore(): Promise<ProxyStateStore> {
+  if (!storeInstance) {
+    const store = createProxyStateStore();
+    storeInstance = store.init().then(
+      () => store,
+      (err) => {
+        storeInstance = null;
+        throw err;
+      }
+    );
+  }
+  return storeInstance;
+}
@@ -0,0 +1,267 @@
+import crypto from "node:crypto";
+import { EventEmitter } from "node:events";
+import jwt from "jsonwebtoken";
+import { getProxyStateStore } from "./proxy-state.js";
+
+/**
+ * Opaque access and refresh tokens minted by the OAuth proxy.
+ *
+ * MCP clients never see Entra tokens. Instead the proxy hands out random
+ * opaque tokens bound to the client that requested them, and keeps the
+ * Entra access/refresh tokens server-side in the ProxyStateStore. When a
+ * proxy access token is presented on /mcp, validateJwt resolves it back to
+ * the user's claims and the upstream Entra token that OBO needs.
+ *
+ * Only a SHA-256 hash of each token is stored, so a leaked state store
+ * doesn't leak usable bearer tokens.
+ *
+ * Every token belongs to a grant (one sign-in). Refresh rotation keeps the
+ * grant; revoking any token of a grant (RFC 7009) revokes the whole grant,
+ * so both the refresh token and every access token minted from it stop
+ * working.
+ */
+
+export const ACCESS_TOKEN_PREFIX = "mcp_at_";
+export const REFRESH_TOKEN_PREFIX = "mcp_rt_";
+
+// Proxy refresh tokens outlive individual access tokens; Entra's own refresh
+// token lifetime (up to 90 days, sliding) still applies upstream.
+const REFRESH_TOKEN_TTL = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+export interface ProxyTokenClaims {
+  oid: string;
+  name?: string;
+  preferred_username?: string;
+  sub?: string;
+  tid?: string;
+}
+
+export interface AccessTokenRecord {
+  grantId: string;
+  clientId: string;
+  scopes: string[];
+  claims: ProxyTokenClaims;
+  upstreamAccessToken: string;
+  /** Hash of the refresh token issued alongside, if any. */
+  refreshTokenHash?: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface RefreshTokenRecord {
+  grantId: string;
+  clientId: string;
+  scopes: string[];
+  claims: ProxyTokenClaims;
+  upstreamRefreshToken: string;
+  issuedAt: number;
+}
+
+export interface UpstreamTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn: number;
+  scope: string;
+}
+
+export interface IssuedTokens {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number;
+  refresh_token?: string;
+  scope: string;
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function mintToken(prefix: string): string {
+  return prefix + crypto.randomBytes(32).toString("base64url");
+}
+
+export function isProxyAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * Read user claims from an Entra access token.
+ *
+ * The token came straight from Entra's token endpoint over TLS in exchange
+ * for our client secret, so decoding without re-verifying the signature is
+ * safe here (OIDC Core §3.1.3.7 applies the same reasoning to ID tokens).
+ */
+function claimsFromUpstream(accessToken: string): ProxyTokenClaims {
+  const payload = jwt.decode(accessToken);
+  if (!payload || typeof payload === "string" || !payload.oid) {
+    throw new Error("Upstream access token is missing the 'oid' claim");
+  }
+  return {
+    oid: payload.oid as string,
+    name: payload.name as string | undefined,
+    preferred_username: payload.preferred_username as string | undefined,
+    sub: payload.sub as string | undefined,
+    tid: payload.tid as string | undefined,
+  };
+}
+
+/**
+ * Mint a proxy access token (and refresh token, if Entra returned one) for
+ * `clientId`, storing the upstream Entra tokens server-side. Pass the
+ * existing `grantId` when rotating on refresh; omit it for a new sign-in.
+ */
+export async function issueProxyTokens(
+  clientId: string,
+  upstream: UpstreamTokens,
+  grantId: string = crypto.randomUUID()
+): Promise<IssuedTokens> {
+  const stateStore = await getProxyStateStore();
+  const claims = claimsFromUpstream(upstream.accessToken);
+  const scopes = upstream.scope.split(" ").filter(Boolean);
+  const now = Date.now();
+  const expiresInMs = upstream.expiresIn * 1000;
+
+  let refreshToken: string | undefined;
+  let refreshTokenHash: string | undefined;
+  if (upstream.refreshToken) {
+    refreshToken = mintToken(REFRESH_TOKEN_PREFIX);
+    refreshTokenHash = hashToken(refreshToken);
+    await stateStore.set<RefreshTokenRecord>(
+      "refresh_tokens",
+      refreshTokenHash,
+      {
+        grantId,
+        clientId,
+        scopes,
+        claims,
+        upstreamRefreshToken: upstream.refreshToken,
+        issuedAt: now,
+      },
+      REFRESH_TOKEN_TTL
+    );
+  }
+
+  const accessToken = mintToken(ACCESS_TOKEN_PREFIX);
+  await stateStore.set<AccessTokenRecord>(
+    "access_tokens",
+    hashToken(accessToken),
+    {
+      grantId,
+      clientId,
+      scopes,
+      claims,
+      upstreamAccessToken: upstream.accessToken,
+      refreshTokenHash,
+      issuedAt: now,
+      expiresAt: now + expiresInMs,
+    },
+    expiresInMs
+  );
+
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: upstream.expiresIn,
+    refresh_token: refreshToken,
+    scope: upstream.scope,
+  };
+}
+
+/** True if the grant was revoked via /revoke (from any replica). */
+export async function isGrantRevoked(grantId: string): Promise<boolean> {
+  const stateStore = await getProxyStateStore();
+  return (await stateStore.get<number>("revoked", `grant:${grantId}`)) !== null;
+}
+
+/**
+ * Look up a proxy access token. Returns null if unknown, expired or revoked.
+ */
+export async function resolveProxyAccessToken(token: string): Promise<AccessTokenRecord | null> {
+  const stateStore = await getProxyStateStore();
+  const record = await stateStore.get<AccessTokenRecord>("access_tokens", hashToken(token));
+  if (!record || (await isGrantRevoked(record.grantId))) return null;
+  return record;
+}
+
+/**
+ * Redeem a proxy refresh token. Refresh tokens are single-use: the record is
+ * consumed here and a new one is issued with the refreshed tokens (rotation).
+ */
+export async function redeemProxyRefreshToken(token: string): Promise<RefreshTokenRecord | null> {
+  const stateStore = await getProxyStateStore();
+  const record = await stateStore.take<RefreshTokenRecord>("refresh_tokens", hashToken(token));
+  if (!record || (await isGrantRevoked(record.grantId))) return null;
+  return record;
+}
+
+/**
+ * True if a raw (non-proxy) bearer token was revoked via /revoke.
+ */
+export async function isUpstreamTokenRevoked(token: string): Promise<boolean> {
+  return isTokenHashRevoked(hashToken(token));
+}
+
+/** Same as isUpstreamTokenRevoked(), for a token known only by its hash. */
+export async function isTokenHashRevoked(tokenHash: string): Promise<boolean> {
+  const stateStore = await getProxyStateStore();
+  return (await stateStore.get<number>("revoked", `token:${tokenHash}`)) !== null;
+}
+
+// ── Revocation (RFC 7009) ──────────────────────────────────────────────
+
+export interface TokenRevokedEvent {
+  /** Grant that was revoked (proxy tokens). */
+  grantId?: string;
+  /** Hash of the revoked bearer token (raw Entra tokens). */
+  tokenHash?: string;
+}
+
+/**
+ * Emits "revoked" with a TokenRevokedEvent whenever /revoke invalidates
+ * something, so server.ts can close MCP sessions that used it.
+ */
+export const tokenRevocations = new EventEmitter<{ revoked: [TokenRevokedEvent] }>();
+
+export type RevokeResult = "revoked" | "not_found" | "wrong_client";
+
+/**
+ * Revoke a token presented at /revoke.
+ *
+ * Proxy access or refresh tokens revoke their whole grant: the refresh token
+ * and every access token minted from it. Raw Entra JWTs can't be recalled
+ * from Entra, so they're added to a deny list until they expire.
+ *
+ * If `clientId` is given, proxy tokens issued to another client are refused.
+ */
+export async function revokeToken(token: string, clientId?: string): Promise<RevokeResult> {
+  const stateStore = await getProxyStateStore();
+  const tokenHash = hashToken(token);
+
+  const record =
+    (await stateStore.get<AccessTokenRecord>("access_tokens", tokenHash)) ??
+    (await stateStore.get<RefreshTokenRecord>("refresh_tokens", tokenHash));
+
+  if (record) {
+    if (clientId && record.clientId !== clientId) return "wrong_client";
+
+    await stateStore.set("revoked", `grant:${record.grantId}`, Date.now(), REFRESH_TOKEN_TTL);
+    await stateStore.delete("access_tokens", tokenHash);
+    await stateStore.delete("refresh_tokens", tokenHash);
+    tokenRevocations.emit("revoked", { grantId: record.grantId });
+    return "revoked";
+  }
+
+  if (token.startsWith(ACCESS_TOKEN_PREFIX) || token.startsWith(REFRESH_TOKEN_PREFIX)) {
+    return "not_found";
+  }
+
+  // Raw Entra JWT: deny-list it until its own expiry
+  const payload = jwt.decode(token);
+  if (!payload || typeof payload === "string" || !payload.exp) return "not_found";
+  const remainingMs = payload.exp * 1000 - Date.now();
+  if (remainingMs <= 0) return "not_found";
+
+  await stateStore.set("revoked", `token:${tokenHash}`, Date.now(), remainingMs);
+  tokenRevocations.emit("revoked", { tokenHash });
+  return "revoked";
+}
@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import jwksRsa from "jwks-rsa";
+import {
+  isProxyAccessToken,
+  isUpstreamTokenRevoked,
+  resolveProxyAccessToken,
+} from "./proxy-tokens.js";
 
 /**
  * Auth info attached to the request after JWT validation.
@@ -10,6 +15,14 @@ export interface McpAuthInfo {
   token: string;
   clientId: string;
   scopes: string[];
+  expiresAt?: number;     // Seconds since epoch (MCP SDK AuthInfo convention)
+  /**
+   * Entra access token to use for OBO. For proxy-issued tokens this is the
+   * upstream token kept server-side; for raw Entra tokens it equals `token`.
+   */
+  upstreamToken: string;
+  /** Proxy grant (sign-in) the token belongs to; unset for raw Entra tokens. */
+  grantId?: string;
   claims: {
     oid: string;            // User object ID (unique per tenant)
     name?: string;          // Display name
@@ -58,7 +71,65 @@ function getSigningKey(header: jwt.JwtHeader): Promise<string> {
 }
 
 /**
- * Express middleware that validates Entra ID Bearer tokens.
+ * Resolve a Bearer token to auth info.
+ *
+ * Accepts either an opaque proxy access token (minted by /token — the normal
+ * case for MCP clients going through the OAuth proxy) or a raw Entra ID v2.0
+ * access token for our API. Throws if neither validates or if the token was
+ * revoked at /revoke.
+ */
+export async function authenticateToken(token: string): Promise<McpAuthInfo> {
+  if (isProxyAccessToken(token)) {
+    const record = await resolveProxyAccessToken(token);
+    if (!record) throw new Error("Unknown, expired or revoked proxy access token");
+    return {
+      token,
+      clientId: record.clientId,
+      scopes: record.scopes,
+      expiresAt: Math.floor(record.expiresAt / 1000),
+      upstreamToken: record.upstreamAccessToken,
+      grantId: record.grantId,
+      claims: record.claims,
+    };
+  }
+
+  const verifyOptions: jwt.VerifyOptions = {
+    audience: clientId(),
+    issuer: `https://login.microsoftonline.com/${tenantId()}/v2.0`,
+    algorithms: ["RS256"],
+  };
+
+  // Decode header to get kid
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded === "string") {
+    throw new Error("Invalid token format");
+  }
+
+  const signingKey = await getSigningKey(decoded.header);
+  const payload = jwt.verify(token, signingKey, verifyOptions) as jwt.JwtPayload;
+
+  if (await isUpstreamTokenRevoked(token)) {
+    throw new Error("Token has been revoked");
+  }
+
+  return {
+    token,
+    clientId: payload.aud as string || clientId(),
+    scopes: (payload.scp as string || "").split(" ").filter(Boolean),
+    expiresAt: payload.exp,
+    upstreamToken: token,
+    claims: {
+      oid: payload.oid as string,
+      name: payload.name as string | undefined,
+      preferred_username: payload.preferred_username as string | undefined,
+      sub: payload.sub as string | undefined,
+      tid: payload.tid as string | undefined,
+    },
+  };
+}
+
+/**
+ * Express middleware that validates Bearer tokens (proxy-issued or Entra ID).
  *
  * On success: sets `req.auth` with the decoded claims and raw token.
  * On failure: returns 401 Unauthorized with WWW-Authenticate header,
@@ -72,15 +143,13 @@ export function validateJwt(req: Request, res: Response, next: NextFunction): vo
   const base =
     process.env.MCP_SERVER_BASE_URL ||
     `http://localhost:${process.env.PORT || "8000"}`;
+  const wwwAuthenticate = `Bearer resource_metadata="${base}/.well-known/oauth-protected-resource"`;
 
   // Return 401 if no Bearer token — this triggers the MCP auth flow
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     res
       .status(401)
-      .set(
-        "WWW-Authenticate",
-        `Bearer resource_metadata="${base}/.well-known/oauth-protected-resource"`
-      )
+      .set("WWW-Authenticate", wwwAuthenticate)
       .json({
         error: "unauthorized",
         message: "Bearer token required. Authenticate via the MCP authorization flow.",
@@ -90,41 +159,17 @@ export function validateJwt(req: Request, res: Response, next: NextFunction): vo
 
   const token = authHeader.split(" ")[1];
 
-  const verifyOptions: jwt.VerifyOptions = {
-    audience: clientId(),
-    issuer: `https://login.microsoftonline.com/${tenantId()}/v2.0`,
-    algorithms: ["RS256"],
-  };
-
-  // Decode header to get kid
-  const decoded = jwt.decode(token, { complete: true });
-  if (!decoded || typeof decoded === "string") {
-    res.status(401).json({ error: "Invalid token format" });
-    return;
-  }
-
-  getSigningKey(decoded.header)
-    .then((signingKey) => {
-      const payload = jwt.verify(token, signingKey, verifyOptions) as jwt.JwtPayload;
-
-      req.auth = {
-        token,
-        clientId: payload.aud as string || clientId(),
-        scopes: (payload.scp as string || "").split(" ").filter(Boolean),
-        claims: {
-          oid: payload.oid as string,
-          name: payload.name as string | undefined,
-          preferred_username: payload.preferred_username as string | undefined,
-          sub: payload.sub as string | undefined,
-          tid: payload.tid as string | undefined,
-        },
-      };
-
+  authenticateToken(token)
+    .then((auth) => {
+      req.auth = auth;
       next();
     })
     .catch((err) => {
-      console.error("JWT validation failed:", err.message);
-      res.status(401).json({ error: "Invalid or expired token" });
+      console.error("Token validation failed:", err.message);
+      res
+        .status(401)
+        .set("WWW-Authenticate", `${wwwAuthenticate}, error="invalid_token"`)
+        .json({ error: "Invalid or expired token" });
     });
 }
 
@@ -133,7 +178,7 @@ export function validateJwt(req: Request, res: Response, next: NextFunction): vo
  * with OR without auth (e.g., GET /mcp for SSE / UI panel connections).
  * If a Bearer token is present it validates it; otherwise falls through.
  */
-export function validateJwtOptional(req: Request, res: Response, next: NextFunction): void {
+export function validateJwtOptional(req: Request, _res: Response, next: NextFunction): void {
   const authHeader = req.headers.authorization;
 
   // No token → fall through with req.auth = undefined
@@ -145,36 +190,9 @@ export function validateJwtOptional(req: Request, res: Response, next: NextFunct
   // Token present → validate it the same way as the strict middleware
   const token = authHeader.split(" ")[1];
 
-  const verifyOptions: jwt.VerifyOptions = {
-    audience: clientId(),
-    issuer: `https://login.microsoftonline.com/${tenantId()}/v2.0`,
-    algorithms: ["RS256"],
-  };
-
-  const decoded = jwt.decode(token, { complete: true });
-  if (!decoded || typeof decoded === "string") {
-    // Bad token format → fall through unauthenticated
-    next();
-    return;
-  }
-
-  getSigningKey(decoded.header)
-    .then((signingKey) => {
-      const payload = jwt.verify(token, signingKey, verifyOptions) as jwt.JwtPayload;
-
-      req.auth = {
-        token,
-        clientId: payload.aud as string || clientId(),
-        scopes: (payload.scp as string || "").split(" ").filter(Boolean),
-        claims: {
-          oid: payload.oid as string,
-          name: payload.name as string | undefined,
-          preferred_username: payload.preferred_username as string | undefined,
-          sub: payload.sub as string | undefined,
-          tid: payload.tid as string | undefined,
-        },
-      };
-
+  authenticateToken(token)
+    .then((auth) => {
+      req.auth = auth;
       next();
     })
     .catch(() => {
@@ -0,0 +1,150 @@
+/**
+ * Confirmation for destructive tool calls made by the model.
+ *
+ * A policy decides which calls need the user's OK. The user is asked with
+ * an MCP elicitation (`elicitation/create`) when the client supports it.
+ * Otherwise the tool returns an "are you sure" result with a one-time
+ * token, which the model passes back once the user has agreed. Calls from
+ * the todo panel are the user's own clicks, so they're never held up.
+ */
+
+import crypto from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * `_meta` key the todo panel sets on its own tool calls. The model only
+ * controls a call's arguments, so it can't claim to be the panel.
+ */
+export const PANEL_CALL_META = "mcp-todo-app/panel";
+
+/** Whether a tool call came from the todo panel rather than the model. */
+export function isPanelCall(extra: unknown): boolean {
+  return (extra as { _meta?: Record<string, unknown> })?._meta?.[PANEL_CALL_META] === true;
+}
+
+/** Tools that need confirmation unless TODO_CONFIRM_TOOLS says otherwise. */
+const DEFAULT_CONFIRM_TOOLS = ["delete_todo", "bulk_update_todos", "empty_trash"];
+
+/** Narrows a tool to its destructive calls; tools without a rule always count. */
+const DESTRUCTIVE_CALLS: Record<string, (args: Record<string, unknown>) => boolean> = {
+  bulk_update_todos: (args) => args.operation === "delete",
+};
+
+/** How long an "are you sure" token stays valid. */
+const TOKEN_TTL_MS = 5 * 60 * 1000;
+/** How long to wait for the user to answer an elicitation. */
+const ELICITATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+const ELICITATION_OUTCOMES = {
+  accept: "accepted",
+  decline: "declined",
+  cancel: "cancelled",
+} as const;
+
+/** How a call was confirmed, returned in the tool's structured result. */
+export interface Confirmation {
+  /** Whether the policy asked for confirmation. */
+  required: boolean;
+  /** How the user was asked. */
+  method?: "elicitation" | "token";
+  outcome: "not_required" | "accepted" | "declined" | "cancelled" | "pending";
+  /** For a pending confirmation: pass back as `confirmation_token` once the user agrees. */
+  confirmation_token?: string;
+  expires_at?: string;
+}
+
+/**
+ * Tool names needing confirmation, from TODO_CONFIRM_TOOLS (comma-separated,
+ * or "none") or the defaults.
+ */
+export function confirmToolsFromEnv(value = process.env.TODO_CONFIRM_TOOLS): Set<string> {
+  if (value === undefined || value.trim() === "") return new Set(DEFAULT_CONFIRM_TOOLS);
+  if (value.trim().toLowerCase() === "none") return new Set();
+  return new Set(value.split(",").map((t) => t.trim()).filter(Boolean));
+}
+
+/**
+ * Asks the user before destructive calls, per session. Tokens are bound to
+ * the session, the tool and its exact arguments, and work once.
+ */
+export class ConfirmationGate {
+  private tokens = new Map<string, { tool: string; fingerprint: string; expires: number }>();
+
+  constructor(
+    private server: McpServer,
+    private tools: Set<string> = confirmToolsFromEnv()
+  ) {}
+
+  /**
+   * Whether the model's destructive calls to `tool` are confirmed at all.
+   * Tools the policy leaves out must not be handed to the model.
+   */
+  covers(tool: string): boolean {
+    return this.tools.has(tool);
+  }
+
+  /** Whether the policy wants the user to confirm this call. */
+  requires(tool: string, args: Record<string, unknown>, extra: unknown): boolean {
+    if (!this.tools.has(tool) || isPanelCall(extra)) return false;
+    return DESTRUCTIVE_CALLS[tool]?.(args) ?? true;
+  }
+
+  /**
+   * Get the user's OK for a call, described by `message`. `args` are the
+   * call's arguments without `confirmation_token`, which is passed apart.
+   */
+  async confirm(
+    tool: string,
+    args: Record<string, unknown>,
+    confirmationToken: string | undefined,
+    message: string,
+    extra: { signal?: AbortSignal }
+  ): Promise<Confirmation> {
+    if (!this.requires(tool, args, extra)) return { required: false, outcome: "not_required" };
+
+    const fingerprint = JSON.stringify(
+      Object.entries(args).sort(([a], [b]) => a.localeCompare(b))
+    );
+    this.pruneTokens();
+    if (confirmationToken) {
+      const issued = this.tokens.get(confirmationToken);
+      if (issued && issued.tool === tool && issued.fingerprint === fingerprint) {
+        this.tokens.delete(confirmationToken);
+        return { required: true, method: "token", outcome: "accepted" };
+      }
+      // Unknown, expired or for a different call: ask again
+    }
+
+    if (this.server.server.getClientCapabilities()?.elicitation?.form) {
+      try {
+        // Like sampling, this goes out on the session's GET /mcp stream
+        const result = await this.server.server.elicitInput(
+          { message, requestedSchema: { type: "object", properties: {} } },
+          { timeout: ELICITATION_TIMEOUT_MS, signal: extra.signal }
+        );
+        const outcome = ELICITATION_OUTCOMES[result.action];
+        return { required: true, method: "elicitation", outcome };
+      } catch (err) {
+        console.error(`Elicitation for ${tool} failed; falling back to a confirmation token:`, err);
+      }
+    }
+
+    const token = crypto.randomBytes(16).toString("base64url");
+    const expires = Date.now() + TOKEN_TTL_MS;
+    this.tokens.set(token, { tool, fingerprint, expires });
+    return {
+      required: true,
+      method: "token",
+      outcome: "pending",
+      confirmation_token: token,
+      expires_at: new Date(expires).toISOString(),
+    };
+  }
+
+  private pruneTokens(): void {
+    const now = Date.now();
+    for (const [token, { expires }] of this.tokens) {
+      if (expires <= now) this.tokens.delete(token);
+    }
+  }
+}
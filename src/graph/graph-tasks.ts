@@ -0,0 +1,217 @@
+import { acquireTokenOnBehalf, graphBaseUrl } from "../auth/obo-helper.js";
+
+/**
+ * Minimal Microsoft Graph client for Microsoft To Do (`/me/todo`).
+ *
+ * Calls are made with a delegated Graph token obtained through OBO from the
+ * caller's MCP access token, so they only ever see the caller's own task
+ * lists. The base URL comes from `graphBaseUrl()` (GRAPH_BASE_URL), which
+ * lets tests run against a local mock of these endpoints.
+ *
+ * @see https://learn.microsoft.com/en-us/graph/api/resources/todo-overview
+ */
+
+/** Delegated scope for reading and writing the user's To Do tasks. */
+export const GRAPH_TASKS_SCOPE = "https://graph.microsoft.com/Tasks.ReadWrite";
+
+/** Tasks per page when listing; Graph's own maximum is higher. */
+const PAGE_SIZE = 100;
+/** Retries for throttled (429) or unavailable (503) responses. */
+const MAX_RETRIES = 3;
+/** Cap on how long to honour a Retry-After header. */
+const MAX_RETRY_DELAY_MS = 10_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export interface GraphTaskList {
+  id: string;
+  displayName: string;
+  /** "defaultList" for the built-in Tasks list, "flaggedEmails", or "none". */
+  wellknownListName?: string;
+}
+
+/** A date and time in a named time zone, as Graph represents them. */
+export interface GraphDateTime {
+  /** Local date and time without an offset, e.g. "2026-01-31T00:00:00.0000000". */
+  dateTime: string;
+  timeZone: string;
+}
+
+export type GraphTaskStatus =
+  | "notStarted"
+  | "inProgress"
+  | "completed"
+  | "waitingOnOthers"
+  | "deferred";
+
+export interface GraphTask {
+  id: string;
+  title: string;
+  body?: { content: string; contentType: "text" | "html" };
+  status: GraphTaskStatus;
+  importance: "low" | "normal" | "high";
+  dueDateTime?: GraphDateTime | null;
+  isReminderOn?: boolean;
+  reminderDateTime?: GraphDateTime | null;
+  categories?: string[];
+  createdDateTime: string;
+  lastModifiedDateTime: string;
+}
+
+/** The writable fields of a task; absent fields are left unchanged. */
+export type GraphTaskInput = Partial<
+  Pick<
+    GraphTask,
+    | "title"
+    | "body"
+    | "status"
+    | "importance"
+    | "dueDateTime"
+    | "isReminderOn"
+    | "reminderDateTime"
+    | "categories"
+  >
+>;
+
+/** A Graph request that failed, with the HTTP status and Graph's error code. */
+export class GraphRequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = "GraphRequestError";
+  }
+}
+
+interface GraphCollection<T> {
+  value: T[];
+  "@odata.nextLink"?: string;
+}
+
+export class GraphTasksClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly accessToken: string,
+    baseUrl: string = graphBaseUrl()
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  /** A client acting as the user behind an incoming MCP access token. */
+  static async onBehalfOf(incomingToken: string): Promise<GraphTasksClient> {
+    try {
+      return new GraphTasksClient(await acquireTokenOnBehalf(incomingToken, [GRAPH_TASKS_SCOPE]));
+    } catch (err) {
+      throw new GraphRequestError(
+        401,
+        "obo_failed",
+        `Couldn't get a Microsoft Graph token for To Do: ${(err as Error).message}`
+      );
+    }
+  }
+
+  listTaskLists(): Promise<GraphTaskList[]> {
+    return this.getAll<GraphTaskList>("/me/todo/lists");
+  }
+
+  getTaskList(listId: string): Promise<GraphTaskList> {
+    return this.request<GraphTaskList>("GET", `/me/todo/lists/${encodeURIComponent(listId)}`);
+  }
+
+  createTaskList(displayName: string): Promise<GraphTaskList> {
+    return this.request<GraphTaskList>("POST", "/me/todo/lists", { displayName });
+  }
+
+  listTasks(listId: string): Promise<GraphTask[]> {
+    return this.getAll<GraphTask>(
+      `/me/todo/lists/${encodeURIComponent(listId)}/tasks?$top=${PAGE_SIZE}`
+    );
+  }
+
+  createTask(listId: string, task: GraphTaskInput): Promise<GraphTask> {
+    const path = `/me/todo/lists/${encodeURIComponent(listId)}/tasks`;
+    return this.request<GraphTask>("POST", path, task);
+  }
+
+  updateTask(listId: string, taskId: string, changes: GraphTaskInput): Promise<GraphTask> {
+    return this.request<GraphTask>("PATCH", this.taskPath(listId, taskId), changes);
+  }
+
+  /** Delete a task. Returns false if it was already gone. */
+  async deleteTask(listId: string, taskId: string): Promise<boolean> {
+    try {
+      await this.request<void>("DELETE", this.taskPath(listId, taskId));
+      return true;
+    } catch (err) {
+      if (err instanceof GraphRequestError && err.status === 404) return false;
+      throw err;
+    }
+  }
+
+  private taskPath(listId: string, taskId: string): string {
+    return `/me/todo/lists/${encodeURIComponent(listId)}/tasks/${encodeURIComponent(taskId)}`;
+  }
+
+  /** Every item of a collection, following `@odata.nextLink` page by page. */
+  private async getAll<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = this.baseUrl + path;
+    while (next) {
+      // The token must only ever go to the configured Graph endpoint
+      if (!next.startsWith(this.baseUrl + "/")) {
+        throw new GraphRequestError(502, undefined, `Unexpected Graph nextLink: ${next}`);
+      }
+      const page: GraphCollection<T> = await this.request<GraphCollection<T>>("GET", next);
+      items.push(...page.value);
+      next = page["@odata.nextLink"];
+    }
+    return items;
+  }
+
+  /** One Graph call (`path` relative to the base URL, or absolute), retrying when throttled. */
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = path.startsWith(this.baseUrl) ? path : this.baseUrl + path;
+
+    for (let attempt = 0; ; attempt++) {
+      const res = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if ((res.status === 429 || res.status === 503) && attempt < MAX_RETRIES) {
+        const retryAfter = Number(res.headers.get("retry-after")) * 1000 || 2 ** attempt * 1000;
+        const delayMs = Math.min(retryAfter, MAX_RETRY_DELAY_MS);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        continue;
+      }
+
+      if (!res.ok) {
+        const text = await res.text();
+        let code: string | undefined;
+        let message = text;
+        try {
+          const parsed = JSON.parse(text) as { error?: { code?: string; message?: string } };
+          code = parsed.error?.code;
+          message = parsed.error?.message || text;
+        } catch {
+          // not JSON — keep the raw body
+        }
+        throw new GraphRequestError(
+          res.status,
+          code,
+          `Graph ${method} ${new URL(url).pathname} failed (${res.status}): ${message}`
+        );
+      }
+
+      if (res.status === 204) return undefined as T;
+      return (await res.json()) as T;
+    }
+  }
+}
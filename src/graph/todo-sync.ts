@@ -0,0 +1,511 @@
+import {
+  AuditContext,
+  GraphItemLink,
+  GraphListLink,
+  TodoConflictError,
+  TodoDetails,
+  TodoItem,
+  TodoPriority,
+  TodoStore,
+} from "../store/todo-store.js";
+import { GraphDateTime, GraphTask, GraphTaskInput, GraphTasksClient } from "./graph-tasks.js";
+
+/**
+ * Two-way sync between a todo list and a linked Microsoft To Do list.
+ *
+ * The link (see GraphListLink) maps each synced todo to its Graph task and
+ * remembers both sides' `updated_at` as of the last sync, so a sync can
+ * tell which side changed:
+ *
+ *   - changed on one side → copied to the other;
+ *   - changed on both → the side updated last wins, and it's reported as a
+ *     conflict;
+ *   - deleted on one side → deleted on the other, unless the other side
+ *     changed since the last sync, in which case it's brought back;
+ *   - new on either side → created on the other.
+ *
+ * Synced fields: title, description (task body), completion (status), due
+ * date, priority (importance), reminder and tags (categories). Subtasks,
+ * recurrence and manual order stay local; To Do's due dates have no time of
+ * day, so a todo's due time becomes midnight UTC when To Do changes it.
+ */
+
+export interface GraphSyncCounts {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+/** A todo changed on both sides since the last sync. */
+export interface GraphSyncConflict {
+  todo_id: string;
+  graph_id: string;
+  title: string;
+  /** The side whose version was kept: the one updated last. */
+  winner: "local" | "graph";
+  local_updated_at: string;
+  graph_updated_at: string;
+}
+
+/** A todo or task that couldn't be synced; it's retried on the next sync. */
+export interface GraphSyncFailure {
+  todo_id?: string;
+  graph_id?: string;
+  title: string;
+  error: string;
+}
+
+export interface GraphSyncResult {
+  list_id: string;
+  graph_list_id: string;
+  graph_list_name: string;
+  /** Changes made in Microsoft To Do. */
+  pushed: GraphSyncCounts;
+  /** Changes made to the todo list. */
+  pulled: GraphSyncCounts;
+  conflicts: GraphSyncConflict[];
+  failures: GraphSyncFailure[];
+  synced_at: string;
+}
+
+/** Thrown when the same user's sync of a list is already running. */
+export class GraphSyncInProgressError extends Error {
+  constructor() {
+    super("This list is already being synced with Microsoft To Do");
+    this.name = "GraphSyncInProgressError";
+  }
+}
+
+/** Syncs running in this process, by `${list_id}/${user_id}`. */
+const running = new Set<string>();
+
+/** The fields both sides have, in comparable form. */
+interface SyncedFields {
+  title: string;
+  description: string;
+  completed: boolean;
+  /** "YYYY-MM-DD" — To Do due dates are whole days. */
+  due_date?: string;
+  importance: GraphTask["importance"];
+  reminder_at?: string;
+  /** Lowercase and sorted. */
+  tags: string[];
+}
+
+type SyncedField = keyof SyncedFields;
+
+type SyncedDetails = Required<Pick<TodoDetails, "due_at" | "priority" | "reminder_at" | "tags">>;
+
+const IMPORTANCE: Record<TodoPriority, GraphTask["importance"]> = {
+  low: "low",
+  medium: "normal",
+  high: "high",
+  urgent: "high",
+};
+
+const HALF_DAY_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Sync a list with the Microsoft To Do list it's linked to, as `userId`.
+ * Writes on both sides go through the normal paths (the store's auth,
+ * audit log and change feed; Graph as the user). The link's mapping is
+ * saved even if the sync fails partway, so nothing is duplicated next time.
+ */
+export async function syncWithGraph(
+  store: TodoStore,
+  graph: GraphTasksClient,
+  userId: string,
+  link: GraphListLink,
+  audit: AuditContext = {}
+): Promise<GraphSyncResult> {
+  const key = `${link.list_id}/${userId}`;
+  if (running.has(key)) throw new GraphSyncInProgressError();
+  running.add(key);
+  try {
+    return await new GraphSync(store, graph, userId, link, audit).run();
+  } finally {
+    running.delete(key);
+  }
+}
+
+class GraphSync {
+  private readonly listId: string;
+  private readonly items: Record<string, GraphItemLink>;
+  private readonly result: GraphSyncResult;
+
+  constructor(
+    private readonly store: TodoStore,
+    private readonly graph: GraphTasksClient,
+    private readonly userId: string,
+    private readonly link: GraphListLink,
+    private readonly audit: AuditContext
+  ) {
+    this.listId = link.list_id;
+    this.items = { ...link.items };
+    this.result = {
+      list_id: link.list_id,
+      graph_list_id: link.graph_list_id,
+      graph_list_name: link.graph_list_name,
+      pushed: { created: 0, updated: 0, deleted: 0 },
+      pulled: { created: 0, updated: 0, deleted: 0 },
+      conflicts: [],
+      failures: [],
+      synced_at: "",
+    };
+  }
+
+  async run(): Promise<GraphSyncResult> {
+    const [{ todos }, trash, tasks] = await Promise.all([
+      this.store.listTodos(this.userId, this.listId, { filter: "all" }),
+      this.store.listTrash(this.userId, this.listId),
+      this.graph.listTasks(this.link.graph_list_id),
+    ]);
+    const live = new Map(todos.map((t) => [t.id, t]));
+    const trashed = new Map<string, TodoItem>(trash.map((t) => [t.id, t]));
+    const unmatchedTasks = new Map(tasks.map((t) => [t.id, t]));
+
+    try {
+      for (const [todoId, item] of Object.entries(this.link.items)) {
+        const task = unmatchedTasks.get(item.graph_id);
+        unmatchedTasks.delete(item.graph_id);
+        const title = live.get(todoId)?.title ?? task?.title ?? todoId;
+        await this.attempt(title, { todo_id: todoId }, () =>
+          this.syncPair(todoId, item, live.get(todoId), trashed.get(todoId), task)
+        );
+      }
+
+      for (const todo of live.values()) {
+        if (this.link.items[todo.id]) continue;
+        await this.attempt(todo.title, { todo_id: todo.id }, () => this.pushNew(todo));
+      }
+
+      for (const task of unmatchedTasks.values()) {
+        await this.attempt(task.title, { graph_id: task.id }, () => this.pullNew(task));
+      }
+    } finally {
+      this.result.synced_at = new Date().toISOString();
+      await this.store.saveGraphLink(this.userId, {
+        ...this.link,
+        items: this.items,
+        last_synced_at: this.result.synced_at,
+      });
+    }
+    return this.result;
+  }
+
+  /** Reconcile a todo and task that were synced before. */
+  private async syncPair(
+    todoId: string,
+    item: GraphItemLink,
+    todo: TodoItem | undefined,
+    trashedTodo: TodoItem | undefined,
+    task: GraphTask | undefined
+  ): Promise<void> {
+    const localChanged = !!todo && Date.parse(todo.updated_at) > Date.parse(item.local_updated_at);
+    const graphChanged =
+      !!task && Date.parse(task.lastModifiedDateTime) > Date.parse(item.graph_updated_at);
+
+    if (!task) {
+      // Deleted in To Do: delete here too, unless it has changed here since
+      if (todo && localChanged) {
+        delete this.items[todoId];
+        await this.pushNew(todo);
+      } else {
+        if (todo && (await this.store.deleteTodo(this.userId, this.listId, todoId, this.audit))) {
+          this.result.pulled.deleted++;
+        }
+        delete this.items[todoId];
+      }
+      return;
+    }
+
+    if (!todo) {
+      // Trashed or purged here: delete in To Do too, unless it has changed
+      // there since (and after the todo was trashed)
+      const keepTask =
+        graphChanged &&
+        (!trashedTodo?.deleted_at ||
+          Date.parse(task.lastModifiedDateTime) > Date.parse(trashedTodo.deleted_at));
+      if (!keepTask) {
+        if (await this.graph.deleteTask(this.link.graph_list_id, task.id)) {
+          this.result.pushed.deleted++;
+        }
+        delete this.items[todoId];
+        return;
+      }
+      const restored = trashedTodo
+        ? await this.store.restoreTodo(this.userId, this.listId, todoId, this.audit)
+        : null;
+      if (!restored) {
+        delete this.items[todoId];
+        await this.pullNew(task);
+        return;
+      }
+      await this.pull(restored, task, "created");
+      return;
+    }
+
+    if (localChanged && graphChanged) {
+      const winner =
+        Date.parse(todo.updated_at) >= Date.parse(task.lastModifiedDateTime) ? "local" : "graph";
+      this.result.conflicts.push({
+        todo_id: todo.id,
+        graph_id: task.id,
+        title: todo.title,
+        winner,
+        local_updated_at: todo.updated_at,
+        graph_updated_at: task.lastModifiedDateTime,
+      });
+      if (winner === "local") await this.push(todo, task);
+      else await this.pull(todo, task, "updated");
+    } else if (localChanged) {
+      await this.push(todo, task);
+    } else if (graphChanged) {
+      await this.pull(todo, task, "updated");
+    }
+  }
+
+  /** Create a task for a todo that isn't in To Do yet. */
+  private async pushNew(todo: TodoItem): Promise<void> {
+    const task = await this.graph.createTask(this.link.graph_list_id, taskInput(todo));
+    this.result.pushed.created++;
+    this.remember(todo, task);
+  }
+
+  /** Copy a todo's changes to its task. */
+  private async push(todo: TodoItem, task: GraphTask): Promise<void> {
+    const changed = changedFields(todoFields(todo), taskFields(task));
+    let saved = task;
+    if (changed.length) {
+      const input = taskInput(todo);
+      const changes: GraphTaskInput = {};
+      for (const field of changed) Object.assign(changes, pickInput(input, field, task));
+      saved = await this.graph.updateTask(this.link.graph_list_id, task.id, changes);
+      this.result.pushed.updated++;
+    }
+    this.remember(todo, saved);
+  }
+
+  /** Create a todo for a task that isn't in the list yet. */
+  private async pullNew(task: GraphTask): Promise<void> {
+    const fields = taskFields(task);
+    let todo = await this.store.createTodo(
+      this.userId,
+      this.listId,
+      fields.title,
+      fields.description,
+      todoDetails(fields),
+      this.audit
+    );
+    if (fields.completed) {
+      const toggled = await this.store.toggleTodo(
+        this.userId,
+        this.listId,
+        todo.id,
+        todo._etag,
+        this.audit
+      );
+      if (toggled) todo = toggled.todo;
+    }
+    this.result.pulled.created++;
+    this.remember(todo, task);
+  }
+
+  /**
+   * Copy a task's changes to its todo. Conditional on the todo's `_etag`:
+   * if it's edited meanwhile, the sync of it fails and is retried next time.
+   */
+  private async pull(todo: TodoItem, task: GraphTask, count: "created" | "updated"): Promise<void> {
+    const fields = taskFields(task);
+    const changed = changedFields(todoFields(todo), fields);
+    let saved = todo;
+
+    const details = changed.filter((f) => f !== "completed");
+    if (details.length) {
+      const updates: { title?: string; description?: string } & TodoDetails = {};
+      const all = { title: fields.title, description: fields.description, ...todoDetails(fields) };
+      for (const field of details) {
+        if (field === "title") updates.title = all.title;
+        else if (field === "description") updates.description = all.description;
+        else if (field === "due_date") updates.due_at = all.due_at;
+        else if (field === "importance") updates.priority = all.priority;
+        else if (field === "reminder_at") updates.reminder_at = all.reminder_at;
+        else if (field === "tags") updates.tags = all.tags;
+      }
+      const updated = await this.store.updateTodo(
+        this.userId,
+        this.listId,
+        todo.id,
+        updates,
+        saved._etag,
+        this.audit
+      );
+      if (!updated) throw new Error("The todo was deleted during the sync");
+      saved = updated;
+    }
+    if (changed.includes("completed")) {
+      const toggled = await this.store.toggleTodo(
+        this.userId,
+        this.listId,
+        todo.id,
+        saved._etag,
+        this.audit
+      );
+      if (!toggled) throw new Error("The todo was deleted during the sync");
+      saved = toggled.todo;
+    }
+
+    if (changed.length || count === "created") this.result.pulled[count]++;
+    this.remember(saved, task);
+  }
+
+  private remember(todo: TodoItem, task: GraphTask): void {
+    this.items[todo.id] = {
+      graph_id: task.id,
+      local_updated_at: todo.updated_at,
+      graph_updated_at: task.lastModifiedDateTime,
+    };
+  }
+
+  /** Run one item's sync, recording a failure instead of aborting the rest. */
+  private async attempt(
+    title: string,
+    ids: { todo_id?: string; graph_id?: string },
+    fn: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await fn();
+    } catch (err) {
+      const error =
+        err instanceof TodoConflictError
+          ? "Changed while syncing; it will be synced next time"
+          : (err as Error).message;
+      this.result.failures.push({ ...ids, title, error });
+    }
+  }
+}
+
+// ── Field mapping ──────────────────────────────────────────────────────
+
+function todoFields(todo: TodoItem): SyncedFields {
+  return {
+    title: todo.title,
+    description: todo.description,
+    completed: todo.completed,
+    due_date: todo.due_at?.slice(0, 10),
+    importance: IMPORTANCE[todo.priority ?? "medium"],
+    reminder_at: todo.reminder_at,
+    tags: normalizeTags(todo.tags ?? []),
+  };
+}
+
+function taskFields(task: GraphTask): SyncedFields {
+  return {
+    title: task.title,
+    description: bodyText(task.body),
+    completed: task.status === "completed",
+    due_date: task.dueDateTime ? dueDate(task.dueDateTime) : undefined,
+    importance: task.importance,
+    reminder_at:
+      task.isReminderOn && task.reminderDateTime ? toIso(task.reminderDateTime) : undefined,
+    tags: normalizeTags(task.categories ?? []),
+  };
+}
+
+/**
+ * The todo details for a task's fields. Only fields that differ are
+ * applied to an existing todo, so its "urgent" or "medium" priority (To Do
+ * has neither) and its due time survive while the task's importance and
+ * due day still match.
+ */
+function todoDetails(fields: SyncedFields): SyncedDetails {
+  return {
+    due_at: fields.due_date ? `${fields.due_date}T00:00:00.000Z` : null,
+    priority:
+      fields.importance === "high" ? "high" : fields.importance === "low" ? "low" : null,
+    reminder_at: fields.reminder_at ?? null,
+    tags: fields.tags,
+  };
+}
+
+/** A task body for every synced field of a todo. */
+function taskInput(todo: TodoItem): GraphTaskInput {
+  const due = todo.due_at?.slice(0, 10);
+  return {
+    title: todo.title,
+    body: { content: todo.description, contentType: "text" },
+    status: todo.completed ? "completed" : "notStarted",
+    dueDateTime: due ? { dateTime: `${due}T00:00:00`, timeZone: "UTC" } : null,
+    importance: IMPORTANCE[todo.priority ?? "medium"],
+    isReminderOn: !!todo.reminder_at,
+    reminderDateTime: todo.reminder_at
+      ? { dateTime: todo.reminder_at.replace(/Z$/, ""), timeZone: "UTC" }
+      : null,
+    categories: normalizeTags(todo.tags ?? []),
+  };
+}
+
+/** The part of a task body that carries one synced field. */
+function pickInput(input: GraphTaskInput, field: SyncedField, task: GraphTask): GraphTaskInput {
+  switch (field) {
+    case "title":
+      return { title: input.title };
+    case "description":
+      return { body: input.body };
+    case "completed":
+      // Reopening leaves To Do's in-between statuses ("in progress", …) alone
+      return task.status === "completed" || input.status === "completed"
+        ? { status: input.status }
+        : {};
+    case "due_date":
+      return { dueDateTime: input.dueDateTime };
+    case "importance":
+      return { importance: input.importance };
+    case "reminder_at":
+      return { isReminderOn: input.isReminderOn, reminderDateTime: input.reminderDateTime };
+    case "tags":
+      return { categories: input.categories };
+  }
+}
+
+function changedFields(a: SyncedFields, b: SyncedFields): SyncedField[] {
+  return (Object.keys(a) as SyncedField[]).filter(
+    (field) => JSON.stringify(a[field]) !== JSON.stringify(b[field])
+  );
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))].sort();
+}
+
+/** A Graph date-time as an ISO 8601 UTC string (Graph returns UTC by default). */
+function toIso(value: GraphDateTime): string {
+  const local = value.dateTime.replace(/(\.\d{3})\d+$/, "$1");
+  return new Date(value.timeZone === "UTC" ? `${local}Z` : local).toISOString();
+}
+
+/**
+ * The day a task is due. To Do stores midnight in the user's time zone, and
+ * Graph returns it in UTC, so round to the nearest UTC midnight.
+ */
+function dueDate(value: GraphDateTime): string {
+  if (value.timeZone !== "UTC") return value.dateTime.slice(0, 10);
+  return new Date(Date.parse(toIso(value)) + HALF_DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Plain text of a task body; the To Do apps may store HTML. */
+function bodyText(body: GraphTask["body"]): string {
+  if (!body) return "";
+  if (body.contentType !== "html") return body.content;
+  return body.content
+    .replace(/<br\s*\/?>|<\/(p|div|li)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
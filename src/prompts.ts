@@ -0,0 +1,304 @@
+/**
+ * MCP prompts — ready-made todo workflows that clients can offer as slash
+ * commands. Each one embeds the caller's current todos and stats, so the
+ * model starts from the real list instead of calling list_todos first.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  TodoStore,
+  TodoItem,
+  TodoStats,
+  zonedDate,
+  zonedMidnight,
+} from "./store/todo-store.js";
+import { extractUserId } from "./tools.js";
+
+const HORIZONS = ["today", "tomorrow", "week"] as const;
+type Horizon = (typeof HORIZONS)[number];
+
+const DEFAULT_REVIEW_DAYS = 7;
+const MAX_REVIEW_DAYS = 90;
+
+/** Most todos listed per section; the rest are only counted. */
+const MAX_SECTION_TODOS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listIdArg = z
+  .string()
+  .optional()
+  .describe("ID of the list (from list_lists). Defaults to your personal list.");
+
+const timeZoneArg = z
+  .string()
+  .max(64)
+  .optional()
+  .describe("Your IANA time zone, e.g. Europe/Berlin, for what counts as today. Defaults to UTC.");
+
+/**
+ * Register the todo workflow prompts on the given server instance.
+ */
+export function registerPrompts(server: McpServer, store: TodoStore): void {
+  /** The caller, the list a prompt is about (checking read access) and its stats. */
+  const resolveList = async (listId: string | undefined, extra: unknown) => {
+    const userId = extractUserId(extra);
+    if (!userId) throw new Error("Authentication required");
+    const list = await store.requireAccess(userId, listId || userId, "viewer");
+    const stats = await store.getStats(userId, list.id);
+    return { userId, list, stats };
+  };
+
+  // ── plan_my_day ──────────────────────────────────────────────────────
+
+  server.registerPrompt(
+    "plan_my_day",
+    {
+      title: "Plan my day",
+      description: "Pick what to work on from todos that are overdue, due soon or high priority",
+      argsSchema: {
+        horizon: completable(
+          z.enum(HORIZONS).optional().describe("today (default), tomorrow or week"),
+          (value) => HORIZONS.filter((h) => h.startsWith(value ?? ""))
+        ),
+        hours: z
+          .string()
+          .regex(/^\d+(\.\d+)?$/, "Expected a number of hours")
+          .optional()
+          .describe("Hours you have for todo work"),
+        list_id: listIdArg,
+        time_zone: timeZoneArg,
+      },
+    },
+    async ({ horizon, hours, list_id, time_zone }, extra) => {
+      const { userId, list, stats } = await resolveList(list_id, extra);
+      const now = new Date();
+      const timeZone = time_zone ?? "UTC";
+      const span: Horizon = horizon ?? "today";
+      const end = horizonEnd(now, span, timeZone).toISOString();
+
+      const { todos } = await store.listTodos(userId, list.id, { filter: "active", sort: "due" });
+      const overdue = todos.filter((t) => t.due_at && t.due_at < now.toISOString());
+      const dueSoon = todos.filter(
+        (t) => t.due_at && t.due_at >= now.toISOString() && t.due_at < end
+      );
+      const important = todos.filter(
+        (t) => (!t.due_at || t.due_at >= end) && (t.priority === "urgent" || t.priority === "high")
+      );
+
+      const period = span === "week" ? "the next 7 days" : span;
+      return userPrompt(`Plan ${period} from "${list.name}"`, [
+        `Help me plan ${period} from my todo list "${list.name}".`,
+        hours ? `I have about ${hours} hours for todo work.` : null,
+        "",
+        describeStats(stats, now, timeZone),
+        "",
+        section("Overdue", overdue),
+        "",
+        section(`Due before ${end}`, dueSoon),
+        "",
+        section("High priority, due later or undated", important),
+        "",
+        "Suggest an order to work in, with a rough time for each todo, starting with " +
+          "whatever is urgent or blocking. Say what won't fit so I can reschedule or drop " +
+          "it. Don't change any todos until I agree.",
+      ]);
+    }
+  );
+
+  // ── weekly_review ────────────────────────────────────────────────────
+
+  server.registerPrompt(
+    "weekly_review",
+    {
+      title: "Weekly review",
+      description:
+        "Look back at what got done and what's slipping, and set priorities for next week",
+      argsSchema: {
+        days: z
+          .string()
+          .regex(/^\d+$/, "Expected a whole number of days")
+          .optional()
+          .describe(
+            `How many days to look back ` +
+              `(default ${DEFAULT_REVIEW_DAYS}, at most ${MAX_REVIEW_DAYS})`
+          ),
+        list_id: listIdArg,
+      },
+    },
+    async ({ days, list_id }, extra) => {
+      const { userId, list, stats } = await resolveList(list_id, extra);
+      const now = new Date();
+      const lookback = Math.min(Math.max(Number(days ?? DEFAULT_REVIEW_DAYS), 1), MAX_REVIEW_DAYS);
+      const since = new Date(now.getTime() - lookback * DAY_MS).toISOString();
+      const nextWeek = new Date(now.getTime() + 7 * DAY_MS).toISOString();
+
+      const { todos: completed } = await store.listTodos(userId, list.id, {
+        filter: "completed",
+        sort: "created",
+      });
+      const { todos: open } = await store.listTodos(userId, list.id, {
+        filter: "active",
+        sort: "due",
+      });
+      const done = completed.filter((t) => t.updated_at >= since);
+      const overdue = open.filter((t) => t.due_at && t.due_at < now.toISOString());
+      const upcoming = open.filter(
+        (t) => t.due_at && t.due_at >= now.toISOString() && t.due_at < nextWeek
+      );
+      const stale = open.filter((t) => !t.due_at && t.updated_at < since);
+
+      return userPrompt(`Review the last ${lookback} days of "${list.name}"`, [
+        `Run a review of the last ${lookback} days of my todo list "${list.name}".`,
+        "",
+        describeStats(stats, now, "UTC"),
+        "",
+        section(`Completed in the last ${lookback} days`, done),
+        "",
+        section("Overdue", overdue),
+        "",
+        section("Due in the next 7 days", upcoming),
+        "",
+        section(`Undated and untouched for ${lookback}+ days`, stale),
+        "",
+        "Summarize what got done, call out what's slipping and why it might be, and " +
+          "propose my top priorities for the coming week. Suggest todos to drop or " +
+          "re-prioritize; only change them (with bulk_update_todos) once I confirm.",
+      ]);
+    }
+  );
+
+  // ── break_down_task ──────────────────────────────────────────────────
+
+  server.registerPrompt(
+    "break_down_task",
+    {
+      title: "Break this task down",
+      description: "Split a todo into small, concrete next steps",
+      argsSchema: {
+        todo_id: z.string().describe("ID of the todo to break down"),
+      },
+    },
+    async ({ todo_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) throw new Error("Authentication required");
+      const found = await store.findTodo(userId, todo_id);
+      if (!found) throw new Error(`Todo not found: ${todo_id}`);
+      const { list, todo } = found;
+
+      return userPrompt(`Break down "${todo.title}"`, [
+        `Break this todo from my list "${list.name}" down into steps:`,
+        "",
+        describeTodo(todo),
+        todo.description ? `\nDescription:\n${todo.description}` : null,
+        todo.subtasks?.length
+          ? "\nSteps so far:\n" +
+            todo.subtasks.map((st) => `- [${st.completed ? "x" : " "}] ${st.title}`).join("\n")
+          : null,
+        "",
+        "List 3–8 concrete next steps in order, each small enough to finish in one " +
+          "sitting and starting with a verb. Leave out steps that are already listed. " +
+          "If the task is unclear, ask me about it before suggesting steps.",
+      ]);
+    }
+  );
+
+  // ── triage_overdue ───────────────────────────────────────────────────
+
+  server.registerPrompt(
+    "triage_overdue",
+    {
+      title: "Triage overdue items",
+      description:
+        "Decide what to do with each overdue todo: do it, reschedule, deprioritize or drop it",
+      argsSchema: {
+        list_id: listIdArg,
+        time_zone: timeZoneArg,
+      },
+    },
+    async ({ list_id, time_zone }, extra) => {
+      const { userId, list, stats } = await resolveList(list_id, extra);
+      const now = new Date();
+      const timeZone = time_zone ?? "UTC";
+      const { todos: overdue } = await store.listTodos(userId, list.id, {
+        filter: "active",
+        due: "overdue",
+        sort: "due",
+        timeZone,
+      });
+
+      return userPrompt(`Triage overdue todos in "${list.name}"`, [
+        `Help me triage the overdue todos in my list "${list.name}".`,
+        "",
+        describeStats(stats, now, timeZone),
+        "",
+        section("Overdue", overdue),
+        "",
+        "For each one, recommend exactly one of: do it today, reschedule (suggest a " +
+          "date), lower its priority, or drop it — with a one-line reason. Group the " +
+          "todos by recommendation. Once I confirm, apply completions, priority changes " +
+          "and deletions with bulk_update_todos, and list the reschedules for me to make.",
+      ]);
+    }
+  );
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+/**
+ * End of a planning horizon: midnight in `timeZone` after the last day it
+ * covers, so "today" means the same day as list_todos' `due: "today"`.
+ */
+function horizonEnd(now: Date, horizon: Horizon, timeZone: string): Date {
+  const { year, month, day } = zonedDate(now, timeZone);
+  const days = horizon === "today" ? 1 : horizon === "tomorrow" ? 2 : 8;
+  return zonedMidnight(year, month, day + days, timeZone);
+}
+
+function describeStats(stats: TodoStats, now: Date, timeZone: string): string {
+  const zone = timeZone === "UTC" ? "" : ` I'm in the ${timeZone} time zone.`;
+  return (
+    `Stats: ${stats.active} active, ${stats.completed} completed, ${stats.overdue} overdue ` +
+    `(${stats.total} total). It's now ${now.toISOString()}; all dates are UTC.${zone}`
+  );
+}
+
+/** One todo as a Markdown task line with its metadata. */
+function describeTodo(todo: TodoItem): string {
+  const details: string[] = [];
+  if (todo.due_at) details.push(`due ${todo.due_at}`);
+  if (todo.priority) details.push(`${todo.priority} priority`);
+  if (todo.tags?.length) details.push(todo.tags.map((t) => `#${t}`).join(" "));
+  if (todo.subtasks?.length) {
+    const done = todo.subtasks.filter((st) => st.completed).length;
+    details.push(`${done}/${todo.subtasks.length} steps done`);
+  }
+  if (todo.recurrence) details.push(`repeats ${todo.recurrence.rule}`);
+
+  const line = `- [${todo.completed ? "x" : " "}] ${todo.title} (id: ${todo.id})`;
+  return details.length ? `${line} — ${details.join(", ")}` : line;
+}
+
+function section(heading: string, todos: TodoItem[]): string {
+  if (!todos.length) return `${heading}: none`;
+  const shown = todos.slice(0, MAX_SECTION_TODOS).map(describeTodo);
+  const hidden = todos.length - shown.length;
+  if (hidden > 0) shown.push(`…and ${hidden} more`);
+  return [`${heading} (${todos.length}):`, ...shown].join("\n");
+}
+
+/** A prompt made of one user message; null lines are left out. */
+function userPrompt(description: string, lines: (string | null)[]): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: lines.filter((l) => l !== null).join("\n") },
+      },
+    ],
+  };
+}
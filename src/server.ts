@@ -2,14 +2,28 @@ import express from "express";
 import crypto from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { TodoStore } from "./store/cosmos-store.js";
+import { TodoChangeEvent, TodoStore, createTodoRepository } from "./store/todo-store.js";
 import { validateJwt, validateJwtOptional } from "./auth/validate-jwt.js";
 import { oauthProxyRouter } from "./auth/oauth-proxy.js";
-import { registerTools } from "./tools.js";
+import {
+  hashToken,
+  isGrantRevoked,
+  isTokenHashRevoked,
+  tokenRevocations,
+} from "./auth/proxy-tokens.js";
+import type { McpAuthInfo } from "./auth/validate-jwt.js";
+import {
+  TODOS_CHANGED_NOTIFICATION,
+  changeNotificationParams,
+  registerTools,
+} from "./tools.js";
+import { registerPrompts } from "./prompts.js";
 
 // ── Create MCP Server ──────────────────────────────────────────────────
+// The storage backend is chosen from TODO_STORE_BACKEND (memory, file,
+// cosmos) — see createTodoRepository().
 
-const store = new TodoStore();
+const store = new TodoStore(createTodoRepository());
 
 // ── Session Management ─────────────────────────────────────────────────
 // Map of session IDs → { transport, server } for stateful MCP sessions.
@@ -18,16 +32,97 @@ const store = new TodoStore();
 interface Session {
   transport: StreamableHTTPServerTransport;
   server: McpServer;
+  // Credentials the session was last authenticated with, for revocation
+  grantId?: string;
+  tokenHash?: string;
+  // oid of the signed-in user, for pushing their lists' changes
+  userId?: string;
 }
 
 const sessions = new Map<string, Session>();
 
+function trackSessionAuth(session: Session, auth: McpAuthInfo | undefined): void {
+  if (!auth) return;
+  session.grantId = auth.grantId;
+  session.tokenHash = hashToken(auth.token);
+  session.userId = auth.claims?.oid;
+}
+
+// How often live sessions are re-checked against the shared revocation list
+const REVOCATION_CHECK_INTERVAL_MS = 30 * 1000;
+
+function closeRevokedSession(sid: string, session: Session): void {
+  sessions.delete(sid);
+  session.transport.close().catch((err) => {
+    console.error(`Failed to close revoked session ${sid}:`, err);
+  });
+  console.log(`🚫 Session closed after token revocation: ${sid}`);
+}
+
+/**
+ * Whether the credentials a session last authenticated with were revoked,
+ * per the proxy state store — which every replica shares.
+ */
+async function isSessionRevoked(session: Session): Promise<boolean> {
+  if (session.grantId && (await isGrantRevoked(session.grantId))) return true;
+  return !!session.tokenHash && (await isTokenHashRevoked(session.tokenHash));
+}
+
+// Close every session authenticated with a token revoked at /revoke on this replica
+tokenRevocations.on("revoked", ({ grantId, tokenHash }) => {
+  for (const [sid, session] of sessions) {
+    const matches =
+      (grantId && session.grantId === grantId) ||
+      (tokenHash && session.tokenHash === tokenHash);
+    if (matches) closeRevokedSession(sid, session);
+  }
+});
+
+// A revocation on another replica only reaches the shared state store, so
+// poll it for the sessions held here
+setInterval(async () => {
+  for (const [sid, session] of sessions) {
+    try {
+      if (await isSessionRevoked(session)) closeRevokedSession(sid, session);
+    } catch (err) {
+      console.error(`Failed to check session ${sid} for revocation:`, err);
+    }
+  }
+}, REVOCATION_CHECK_INTERVAL_MS).unref();
+
+// ── Live Sync ──────────────────────────────────────────────────────────
+// Every change to a list — made through any session here, or relayed from
+// another replica by the audit change feed — is pushed to each live
+// session whose user can read the list, on that session's GET /mcp stream.
+// Sessions without an open stream just miss it; watch_todos catches up.
+
+store.changes.on("change", (event) => void pushChange(event));
+
+async function pushChange(event: TodoChangeEvent): Promise<void> {
+  const params = changeNotificationParams(event);
+  const canRead = new Map<string, Promise<boolean>>();
+  for (const [sid, session] of sessions) {
+    const userId = session.userId;
+    if (!userId) continue;
+    if (!canRead.has(userId)) {
+      const access = store.requireAccess(userId, event.list_id, "viewer");
+      canRead.set(userId, access.then(() => true, () => false));
+    }
+    if (!(await canRead.get(userId))) continue;
+
+    session.server.server
+      .notification({ method: TODOS_CHANGED_NOTIFICATION, params })
+      .catch((err) => console.error(`Failed to push a change to session ${sid}:`, err));
+  }
+}
+
 function createSessionServer(): McpServer {
   const srv = new McpServer({
     name: "mcp-todo-app",
     version: "1.0.0",
   });
   registerTools(srv, store);
+  registerPrompts(srv, store);
   return srv;
 }
 
@@ -77,6 +172,7 @@ app.post("/mcp", validateJwt, async (req, res) => {
       if (req.auth) {
         (req as unknown as Record<string, unknown>).auth = req.auth;
       }
+      trackSessionAuth(session, req.auth);
       await session.transport.handleRequest(req, res, req.body);
       return;
     }
@@ -134,7 +230,9 @@ app.post("/mcp", validateJwt, async (req, res) => {
 
     // After handling the initialize request, the transport has a sessionId
     if (transport.sessionId) {
-      sessions.set(transport.sessionId, { transport, server: srv });
+      const newSession: Session = { transport, server: srv };
+      trackSessionAuth(newSession, req.auth);
+      sessions.set(transport.sessionId, newSession);
       console.log(`📌 Session created: ${transport.sessionId}`);
     }
   } catch (err) {
@@ -161,6 +259,12 @@ app.get("/mcp", validateJwtOptional, async (req, res) => {
   }
 
   try {
+    // The stream may be reopened without a token, so check the session's own grant
+    if (await isSessionRevoked(session)) {
+      closeRevokedSession(sessionId!, session);
+      res.status(401).json({ error: "Invalid or expired token" });
+      return;
+    }
     if (req.auth) {
       (req as unknown as Record<string, unknown>).auth = req.auth;
     }
@@ -221,9 +325,7 @@ app.listen(PORT, "0.0.0.0", () => {
   console.log(
     `   Auth: ${process.env.ENTRA_CLIENT_ID ? "Entra ID configured" : "⚠️  No ENTRA_CLIENT_ID — auth disabled"}`
   );
-  console.log(
-    `   Store: ${process.env.AZURE_COSMOSDB_ENDPOINT ? "Cosmos DB" : "In-memory (dev)"}`
-  );
+  console.log(`   Store: ${store.backend}`);
 });
 
 export { app };
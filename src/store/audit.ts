@@ -0,0 +1,41 @@
+/**
+ * Field-level diffs of todos for the audit log.
+ */
+
+import { FieldChange, TodoItem } from "./todo-repository.js";
+
+/**
+ * Bookkeeping fields left out of diffs, besides backend system properties
+ * (`_etag`, Cosmos' `_ts`, … — anything starting with "_").
+ */
+const IGNORED_FIELDS = new Set(["id", "user_id", "created_by", "created_at", "updated_at", "ttl"]);
+
+/**
+ * The value recorded for a field. A recurrence is recorded as its rule, so
+ * entries don't repeat the series' completion history on every toggle.
+ */
+function auditValue(field: string, value: unknown): unknown {
+  if (field === "recurrence" && value) return (value as TodoItem["recurrence"])!.rule;
+  return value;
+}
+
+/**
+ * Fields that differ between two versions of a todo, in a stable order.
+ * `before` is null for a created todo, so every set field is a change.
+ */
+export function diffTodos(before: TodoItem | null, after: TodoItem): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  for (const field of [...fields].sort()) {
+    if (IGNORED_FIELDS.has(field) || field.startsWith("_")) continue;
+    const from = auditValue(field, before?.[field as keyof TodoItem]);
+    const to = auditValue(field, after[field as keyof TodoItem]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    const change: FieldChange = { field };
+    if (from !== undefined) change.from = from;
+    if (to !== undefined) change.to = to;
+    changes.push(change);
+  }
+  return changes;
+}
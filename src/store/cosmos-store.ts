@@ -1,103 +1,420 @@
-import { CosmosClient, Container, Database } from "@azure/cosmos";
+import {
+  ChangeFeedStartFrom,
+  CosmosClient,
+  Container,
+  JSONObject,
+  OperationInput,
+  StatusCodes,
+} from "@azure/cosmos";
 import { DefaultAzureCredential, ManagedIdentityCredential } from "@azure/identity";
-import crypto from "node:crypto";
-
-export interface TodoItem {
-  id: string;
-  user_id: string;
-  title: string;
-  description: string;
-  completed: boolean;
-  created_at: string;
-  updated_at: string;
+import {
+  AuditEntry,
+  BatchWriteError,
+  DEFAULT_AUDIT_RETENTION_DAYS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  GraphListLink,
+  InvalidCursorError,
+  PageRequest,
+  TagCount,
+  TodoCounts,
+  TodoFilter,
+  TodoItem,
+  TodoList,
+  TodoPage,
+  TodoPriority,
+  TodoQuery,
+  TodoRepository,
+  TodoConflictError,
+  TodoSort,
+  TodoWrite,
+  sortTagCounts,
+} from "./todo-repository.js";
+
+type QueryParam = { name: string; value: string | number | boolean | string[] };
+
+/** A todo as stored: trashed todos carry a per-item TTL in seconds. */
+type TodoDocument = TodoItem & { ttl?: number };
+type AuditDocument = AuditEntry & { ttl: number };
+
+/** A Microsoft To Do link as stored: one per user in the list's partition. */
+type GraphLinkDocument = GraphListLink & { id: string };
+
+/** Leaves out trashed todos; everything but `listTrash()` uses it. */
+const NOT_TRASHED = "NOT IS_DEFINED(c.deleted_at)";
+
+/** How often to check the audit change feed for other replicas' writes. */
+const AUDIT_FEED_POLL_MS = 2000;
+
+/** A slice of a sort order that Cosmos can ORDER BY natively. */
+interface SortSegment {
+  where?: string;
+  orderBy: string;
 }
 
-export type TodoFilter = "all" | "active" | "completed";
+const PRIORITIES_DESC: TodoPriority[] = ["urgent", "high", "medium", "low"];
+
+/**
+ * Split a sort into segments queried one after another. Cosmos orders
+ * missing fields first and can't rank priority names, so "manual" and "due"
+ * are todos with the field, then those without; "priority" is one segment
+ * per priority (newest first within each) then unprioritized ones.
+ */
+function sortSegments(sort: TodoSort = "manual", priorities?: TodoPriority[]): SortSegment[] {
+  if (sort === "manual") {
+    return [
+      { where: "IS_DEFINED(c.position)", orderBy: "c.position ASC" },
+      { where: "NOT IS_DEFINED(c.position)", orderBy: "c.created_at DESC" },
+    ];
+  }
+  if (sort === "due") {
+    return [
+      { where: "IS_DEFINED(c.due_at)", orderBy: "c.due_at ASC" },
+      { where: "NOT IS_DEFINED(c.due_at)", orderBy: "c.created_at DESC" },
+    ];
+  }
+  if (sort === "priority") {
+    const segments: SortSegment[] = PRIORITIES_DESC.filter(
+      (p) => !priorities || priorities.includes(p)
+    ).map((p) => ({ where: `c.priority = "${p}"`, orderBy: "c.created_at DESC" }));
+    if (!priorities) {
+      segments.push({ where: "NOT IS_DEFINED(c.priority)", orderBy: "c.created_at DESC" });
+    }
+    return segments;
+  }
+  return [{ orderBy: "c.created_at DESC" }];
+}
+
+/** Cursor = which segment we're in plus Cosmos' continuation token for it. */
+interface CosmosCursor {
+  s: number;
+  t?: string;
+}
+
+function parseCursor(cursor: string): CosmosCursor {
+  try {
+    const parsed = JSON.parse(cursor) as CosmosCursor;
+    if (Number.isInteger(parsed.s) && parsed.s >= 0) return parsed;
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError();
+}
 
-export class TodoStore {
+/**
+ * Create a Cosmos DB client using Managed Identity in production and
+ * DefaultAzureCredential (az login, VS Code, env vars) locally.
+ */
+export function createCosmosClient(endpoint: string): CosmosClient {
+  const isProduction = process.env.RUNNING_IN_PRODUCTION === "true";
+  const credential = isProduction
+    ? new ManagedIdentityCredential({ clientId: process.env.AZURE_CLIENT_ID })
+    : new DefaultAzureCredential();
+
+  return new CosmosClient({ endpoint, aadCredentials: credential });
+}
+
+/**
+ * Azure Cosmos DB todo backend.
+ *
+ * Todos live in the todos container, partitioned by `/user_id` (the list —
+ * see TodoItem). Shared list documents live in their own container,
+ * partitioned by `/id`, and audit entries and Microsoft To Do links in two
+ * more, partitioned by `/list_id`. Trashed todos and old audit entries are
+ * purged by Cosmos per-item TTL (container defaultTtl = -1).
+ */
+export class CosmosTodoRepository implements TodoRepository {
+  readonly kind = "Cosmos DB";
   private client: CosmosClient;
   private databaseId: string;
   private containerId: string;
-  private database?: Database;
-  private container?: Container;
-  private initialized = false;
-
-  constructor() {
-    const endpoint = process.env.AZURE_COSMOSDB_ENDPOINT;
+  private listsContainerId: string;
+  private auditContainerId: string;
+  private graphLinksContainerId: string;
+  private _container?: Container;
+  private _listsContainer?: Container;
+  private _auditContainer?: Container;
+  private _graphLinksContainer?: Container;
+
+  constructor(
+    endpoint: string,
+    readonly trashRetentionDays: number = DEFAULT_TRASH_RETENTION_DAYS,
+    readonly auditRetentionDays: number = DEFAULT_AUDIT_RETENTION_DAYS
+  ) {
     this.databaseId = process.env.AZURE_COSMOSDB_DATABASE || "todo-database";
     this.containerId = process.env.AZURE_COSMOSDB_CONTAINER || "todos";
-
-    if (!endpoint) {
-      // Use in-memory fallback for local dev without Cosmos DB
-      console.warn("AZURE_COSMOSDB_ENDPOINT not set — using in-memory store");
-      this.client = null as unknown as CosmosClient;
-      return;
-    }
-
-    const isProduction = process.env.RUNNING_IN_PRODUCTION === "true";
-    const credential = isProduction
-      ? new ManagedIdentityCredential({ clientId: process.env.AZURE_CLIENT_ID })
-      : new DefaultAzureCredential();
-
-    this.client = new CosmosClient({ endpoint, aadCredentials: credential });
+    this.listsContainerId = process.env.AZURE_COSMOSDB_LISTS_CONTAINER || "todo-lists";
+    this.auditContainerId = process.env.AZURE_COSMOSDB_AUDIT_CONTAINER || "todo-audit";
+    this.graphLinksContainerId =
+      process.env.AZURE_COSMOSDB_GRAPH_LINKS_CONTAINER || "todo-graph-links";
+    this.client = createCosmosClient(endpoint);
   }
 
-  private async ensureInitialized(): Promise<void> {
-    if (this.initialized) return;
-    if (!this.client) {
-      this.initialized = true;
-      return;
-    }
-
+  async init(): Promise<void> {
     const { database } = await this.client.databases.createIfNotExists({
       id: this.databaseId,
     });
-    this.database = database;
 
     const { container } = await database.containers.createIfNotExists({
       id: this.containerId,
       partitionKey: { paths: ["/user_id"] },
+      defaultTtl: -1,
+    });
+    this._container = container;
+
+    const { container: listsContainer } = await database.containers.createIfNotExists({
+      id: this.listsContainerId,
+      partitionKey: { paths: ["/id"] },
     });
-    this.container = container;
-    this.initialized = true;
+    this._listsContainer = listsContainer;
+
+    const { container: auditContainer } = await database.containers.createIfNotExists({
+      id: this.auditContainerId,
+      partitionKey: { paths: ["/list_id"] },
+      defaultTtl: -1,
+    });
+    this._auditContainer = auditContainer;
+
+    const { container: graphLinksContainer } = await database.containers.createIfNotExists({
+      id: this.graphLinksContainerId,
+      partitionKey: { paths: ["/list_id"] },
+    });
+    this._graphLinksContainer = graphLinksContainer;
   }
 
-  // ── In-memory fallback store ──────────────────────────────────────────
-  private inMemoryStore: Map<string, TodoItem[]> = new Map();
+  private get container(): Container {
+    if (!this._container) throw new Error("CosmosTodoRepository not initialized");
+    return this._container;
+  }
 
-  private getUserTodos(userId: string): TodoItem[] {
-    if (!this.inMemoryStore.has(userId)) {
-      this.inMemoryStore.set(userId, []);
-    }
-    return this.inMemoryStore.get(userId)!;
+  private get listsContainer(): Container {
+    if (!this._listsContainer) throw new Error("CosmosTodoRepository not initialized");
+    return this._listsContainer;
+  }
+
+  private get auditContainer(): Container {
+    if (!this._auditContainer) throw new Error("CosmosTodoRepository not initialized");
+    return this._auditContainer;
   }
 
-  // ── CRUD Operations ──────────────────────────────────────────────────
+  private get graphLinksContainer(): Container {
+    if (!this._graphLinksContainer) throw new Error("CosmosTodoRepository not initialized");
+    return this._graphLinksContainer;
+  }
+
+  async list(listId: string, q: TodoQuery, page?: PageRequest): Promise<TodoPage> {
+    const { where, params } = this.buildWhere(listId, q);
+    const segments = sortSegments(q.sort, q.priorities);
+
+    let { s: segment, t: token } = page?.cursor ? parseCursor(page.cursor) : { s: 0, t: undefined };
+    const todos: TodoItem[] = [];
+
+    while (segment < segments.length) {
+      const { where: segWhere, orderBy } = segments[segment];
+      const query =
+        `SELECT * FROM c WHERE ${where}` + (segWhere ? ` AND ${segWhere}` : "") + ` ORDER BY ${orderBy}`;
+
+      if (!page) {
+        const { resources } = await this.container.items
+          .query<TodoItem>({ query, parameters: params })
+          .fetchAll();
+        todos.push(...resources);
+        segment++;
+        continue;
+      }
+
+      let response;
+      try {
+        response = await this.container.items
+          .query<TodoItem>(
+            { query, parameters: params },
+            { maxItemCount: page.limit - todos.length, continuationToken: token }
+          )
+          .fetchNext();
+      } catch (err) {
+        // A tampered or stale continuation token is rejected with 400
+        if (token && (err as { code?: number }).code === 400) throw new InvalidCursorError();
+        throw err;
+      }
+
+      todos.push(...response.resources);
+      token = response.continuationToken || undefined;
+      if (!token) segment++;
+      if (todos.length >= page.limit) break;
+    }
 
-  async listTodos(userId: string, filter: TodoFilter = "all"): Promise<TodoItem[]> {
-    await this.ensureInitialized();
+    const done = segment >= segments.length;
+    return {
+      todos,
+      nextCursor: page && !done ? JSON.stringify({ s: segment, t: token }) : undefined,
+    };
+  }
 
-    if (!this.container) {
-      const todos = this.getUserTodos(userId);
-      if (filter === "active") return todos.filter((t) => !t.completed);
-      if (filter === "completed") return todos.filter((t) => t.completed);
-      return [...todos];
+  async positionAfter(listId: string, after: string | null): Promise<string | null> {
+    const params: QueryParam[] = [{ name: "@listId", value: listId }];
+    let query = "SELECT TOP 1 VALUE c.position FROM c WHERE c.user_id = @listId AND IS_DEFINED(c.position)";
+    if (after !== null) {
+      query += " AND c.position > @after";
+      params.push({ name: "@after", value: after });
     }
+    query += " ORDER BY c.position ASC";
 
-    let query = "SELECT * FROM c WHERE c.user_id = @userId";
-    const params: { name: string; value: string | boolean }[] = [
-      { name: "@userId", value: userId },
-    ];
+    const { resources } = await this.container.items
+      .query<string>({ query, parameters: params })
+      .fetchAll();
+    return resources[0] ?? null;
+  }
+
+  async count(listId: string, now: string): Promise<TodoCounts> {
+    const countWhere = async (extra: string, parameters: QueryParam[] = []) => {
+      const { resources } = await this.container.items
+        .query<number>({
+          query: `SELECT VALUE COUNT(1) FROM c WHERE c.user_id = @listId AND ${NOT_TRASHED}${extra}`,
+          parameters: [{ name: "@listId", value: listId }, ...parameters],
+        })
+        .fetchAll();
+      return resources[0] ?? 0;
+    };
 
-    if (filter === "active") {
+    const [total, completed, overdue] = await Promise.all([
+      countWhere(""),
+      countWhere(" AND c.completed = true"),
+      countWhere(" AND c.completed = false AND c.due_at < @now", [{ name: "@now", value: now }]),
+    ]);
+    return { total, completed, overdue };
+  }
+
+  private buildWhere(listId: string, q: TodoQuery): { where: string; params: QueryParam[] } {
+    let query = `c.user_id = @listId AND ${NOT_TRASHED}`;
+    const params: QueryParam[] = [{ name: "@listId", value: listId }];
+
+    if (q.status === "active") {
       query += " AND c.completed = @completed";
       params.push({ name: "@completed", value: false });
-    } else if (filter === "completed") {
+    } else if (q.status === "completed") {
       query += " AND c.completed = @completed";
       params.push({ name: "@completed", value: true });
     }
 
-    query += " ORDER BY c.created_at DESC";
+    // Comparisons against a missing due_at are undefined, which excludes
+    // undated todos — same as matchesQuery()
+    if (q.dueBefore) {
+      query += " AND c.due_at < @dueBefore";
+      params.push({ name: "@dueBefore", value: q.dueBefore });
+    }
+    if (q.dueAfter) {
+      query += " AND c.due_at >= @dueAfter";
+      params.push({ name: "@dueAfter", value: q.dueAfter });
+    }
+    if (q.priorities) {
+      query += " AND ARRAY_CONTAINS(@priorities, c.priority)";
+      params.push({ name: "@priorities", value: q.priorities });
+    }
+    if (q.tags?.length) {
+      // One indexed ARRAY_CONTAINS per tag; a missing tags array never matches
+      const clauses = q.tags.map((tag, i) => {
+        params.push({ name: `@tag${i}`, value: tag });
+        return `ARRAY_CONTAINS(c.tags, @tag${i})`;
+      });
+      query += ` AND (${clauses.join(q.tagMatch === "all" ? " AND " : " OR ")})`;
+    }
+    if (q.hideRecurringFrom) {
+      // Spelled out so a missing due_at keeps the todo instead of making the
+      // whole clause undefined
+      query +=
+        " AND (NOT IS_DEFINED(c.recurrence) OR NOT IS_DEFINED(c.due_at) OR c.due_at < @hideRecurringFrom)";
+      params.push({ name: "@hideRecurringFrom", value: q.hideRecurringFrom });
+    }
+
+    return { where: query, params };
+  }
+
+  async get(listId: string, todoId: string): Promise<TodoItem | null> {
+    const { resource } = await this.container
+      .item(todoId, listId)
+      .read<TodoItem>();
+    return resource ?? null;
+  }
+
+  async create(todo: TodoItem): Promise<TodoItem> {
+    const { resource } = await this.container.items.create(this.toDocument(todo));
+    return resource as TodoItem;
+  }
+
+  async replace(todo: TodoItem): Promise<TodoItem> {
+    try {
+      const { resource } = await this.container
+        .item(todo.id, todo.user_id)
+        .replace<TodoItem>(
+          this.toDocument(todo),
+          todo._etag ? { accessCondition: { type: "IfMatch", condition: todo._etag } } : undefined
+        );
+      return resource as TodoItem;
+    } catch (err) {
+      // 412 Precondition Failed: someone else wrote the todo since we read it
+      if ((err as { code?: number }).code === 412) {
+        throw new TodoConflictError(await this.get(todo.user_id, todo.id));
+      }
+      throw err;
+    }
+  }
+
+  /** One transactional batch in the list's partition. */
+  async writeBatch(listId: string, writes: TodoWrite[]): Promise<TodoItem[]> {
+    const operations: OperationInput[] = writes.map(({ op, todo }) => {
+      const resourceBody = this.toDocument(todo) as unknown as JSONObject;
+      return op === "create"
+        ? { operationType: "Create", resourceBody }
+        : { operationType: "Replace", id: todo.id, resourceBody, ifMatch: todo._etag };
+    });
+
+    const response = await this.container.items.batch(operations, listId);
+    const results = response.result ?? [];
+    // The failing operation has its own status; the rest report 424 (failed dependency)
+    const failed = results.find((r) => r.statusCode >= 400 && r.statusCode !== 424);
+    if (failed?.statusCode === 412) {
+      throw new BatchWriteError("A todo was changed by someone else since it was read");
+    }
+    if (results.length !== writes.length || failed) {
+      throw new BatchWriteError(
+        `Batch rejected with status ${failed?.statusCode ?? response.code ?? "unknown"}`
+      );
+    }
+    return results.map((r) => r.resourceBody as unknown as TodoItem);
+  }
+
+  /**
+   * Set the TTL while a todo is in the trash and drop it on restore. TTL
+   * counts from the last write, which is the move to the trash.
+   */
+  private toDocument(todo: TodoItem): TodoDocument {
+    const doc: TodoDocument = { ...todo };
+    delete doc.ttl;
+    if (todo.deleted_at) doc.ttl = Math.ceil(this.trashRetentionDays * 24 * 60 * 60);
+    return doc;
+  }
+
+  async delete(listId: string, todoId: string): Promise<boolean> {
+    try {
+      await this.container.item(todoId, listId).delete();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async search(listId: string, terms: string[], status: TodoFilter): Promise<TodoItem[]> {
+    const params: QueryParam[] = [{ name: "@listId", value: listId }];
+    const clauses = terms.map((term, i) => {
+      params.push({ name: `@term${i}`, value: term });
+      return `CONTAINS(c.title, @term${i}, true) OR CONTAINS(c.description, @term${i}, true)`;
+    });
+
+    let query =
+      `SELECT * FROM c WHERE c.user_id = @listId AND ${NOT_TRASHED} AND (${clauses.join(" OR ")})`;
+    if (status !== "all") {
+      query += " AND c.completed = @completed";
+      params.push({ name: "@completed", value: status === "completed" });
+    }
 
     const { resources } = await this.container.items
       .query<TodoItem>({ query, parameters: params })
@@ -105,120 +422,138 @@ export class TodoStore {
     return resources;
   }
 
-  async createTodo(
-    userId: string,
-    title: string,
-    description: string = ""
-  ): Promise<TodoItem> {
-    await this.ensureInitialized();
-
-    const now = new Date().toISOString();
-    const todo: TodoItem = {
-      id: crypto.randomUUID(),
-      user_id: userId,
-      title,
-      description,
-      completed: false,
-      created_at: now,
-      updated_at: now,
-    };
-
-    if (!this.container) {
-      this.getUserTodos(userId).unshift(todo);
-      return todo;
-    }
+  async countTags(listId: string): Promise<TagCount[]> {
+    const { resources } = await this.container.items
+      .query<TagCount>({
+        query:
+          "SELECT t AS tag, COUNT(1) AS count FROM c JOIN t IN c.tags " +
+          `WHERE c.user_id = @listId AND ${NOT_TRASHED} GROUP BY t`,
+        parameters: [{ name: "@listId", value: listId }],
+      })
+      .fetchAll();
+    return sortTagCounts(resources);
+  }
 
-    const { resource } = await this.container.items.create(todo);
-    return resource as TodoItem;
+  async listTrash(listId: string): Promise<TodoItem[]> {
+    const { resources } = await this.container.items
+      .query<TodoItem>({
+        query:
+          "SELECT * FROM c WHERE c.user_id = @listId AND IS_DEFINED(c.deleted_at) " +
+          "ORDER BY c.deleted_at DESC",
+        parameters: [{ name: "@listId", value: listId }],
+      })
+      .fetchAll();
+    return resources;
   }
 
-  async updateTodo(
-    userId: string,
-    todoId: string,
-    updates: { title?: string; description?: string }
-  ): Promise<TodoItem | null> {
-    await this.ensureInitialized();
+  // ── Audit log ────────────────────────────────────────────────────────
 
-    if (!this.container) {
-      const todos = this.getUserTodos(userId);
-      const idx = todos.findIndex((t) => t.id === todoId);
-      if (idx === -1) return null;
-      if (updates.title !== undefined) todos[idx].title = updates.title;
-      if (updates.description !== undefined) todos[idx].description = updates.description;
-      todos[idx].updated_at = new Date().toISOString();
-      return todos[idx];
+  async appendAudit(entries: AuditEntry[]): Promise<void> {
+    const ttl = Math.ceil(this.auditRetentionDays * 24 * 60 * 60);
+    for (const entry of entries) {
+      await this.auditContainer.items.create<AuditDocument>({ ...entry, ttl });
     }
+  }
 
-    const { resource: existing } = await this.container
-      .item(todoId, userId)
-      .read<TodoItem>();
-    if (!existing) return null;
+  /**
+   * Poll the audit container's change feed, so writes made through other
+   * replicas reach this one's MCP sessions.
+   */
+  followAudit(onEntries: (entries: AuditEntry[]) => void): void {
+    const iterator = this.auditContainer.items.getChangeFeedIterator<AuditEntry>({
+      changeFeedStartFrom: ChangeFeedStartFrom.Now(),
+    });
 
-    const updated = {
-      ...existing,
-      ...updates,
-      updated_at: new Date().toISOString(),
+    const poll = async () => {
+      try {
+        // Drain everything new, then wait for the next poll
+        for (;;) {
+          const response = await iterator.readNext();
+          if (response.statusCode === StatusCodes.NotModified || !response.result.length) break;
+          onEntries(response.result);
+        }
+      } catch (err) {
+        console.error("Failed to read the audit change feed:", err);
+      }
+      setTimeout(poll, AUDIT_FEED_POLL_MS).unref();
     };
-    const { resource } = await this.container
-      .item(todoId, userId)
-      .replace(updated);
-    return resource as TodoItem;
+    void poll();
   }
 
-  async toggleTodo(userId: string, todoId: string): Promise<TodoItem | null> {
-    await this.ensureInitialized();
+  async listAudit(listId: string, todoId: string, limit: number): Promise<AuditEntry[]> {
+    const { resources } = await this.auditContainer.items
+      .query<AuditEntry>(
+        {
+          query:
+            "SELECT TOP @limit c.id, c.list_id, c.todo_id, c.action, c.actor, c.client_id, " +
+            "c.session_id, c.tool, c.changes, c.at FROM c WHERE c.todo_id = @todoId " +
+            "ORDER BY c.at DESC",
+          parameters: [
+            { name: "@limit", value: limit },
+            { name: "@todoId", value: todoId },
+          ],
+        },
+        { partitionKey: listId }
+      )
+      .fetchAll();
+    return resources;
+  }
 
-    if (!this.container) {
-      const todos = this.getUserTodos(userId);
-      const idx = todos.findIndex((t) => t.id === todoId);
-      if (idx === -1) return null;
-      todos[idx].completed = !todos[idx].completed;
-      todos[idx].updated_at = new Date().toISOString();
-      return todos[idx];
-    }
+  // ── Shared lists ─────────────────────────────────────────────────────
 
-    const { resource: existing } = await this.container
-      .item(todoId, userId)
-      .read<TodoItem>();
-    if (!existing) return null;
+  async getList(listId: string): Promise<TodoList | null> {
+    const { resource } = await this.listsContainer
+      .item(listId, listId)
+      .read<TodoList>();
+    return resource ?? null;
+  }
 
-    const updated = {
-      ...existing,
-      completed: !existing.completed,
-      updated_at: new Date().toISOString(),
-    };
-    const { resource } = await this.container
-      .item(todoId, userId)
-      .replace(updated);
-    return resource as TodoItem;
+  async listListsForMember(userId: string): Promise<TodoList[]> {
+    // Cross-partition, but the lists container is small
+    const { resources } = await this.listsContainer.items
+      .query<TodoList>({
+        query:
+          "SELECT * FROM c WHERE ARRAY_CONTAINS(c.members, { user_id: @userId }, true) " +
+          "ORDER BY c.created_at ASC",
+        parameters: [{ name: "@userId", value: userId }],
+      })
+      .fetchAll();
+    return resources;
   }
 
-  async deleteTodo(userId: string, todoId: string): Promise<boolean> {
-    await this.ensureInitialized();
+  async createList(list: TodoList): Promise<TodoList> {
+    const { resource } = await this.listsContainer.items.create(list);
+    return resource as TodoList;
+  }
 
-    if (!this.container) {
-      const todos = this.getUserTodos(userId);
-      const idx = todos.findIndex((t) => t.id === todoId);
-      if (idx === -1) return false;
-      todos.splice(idx, 1);
-      return true;
-    }
+  async replaceList(list: TodoList): Promise<TodoList> {
+    const { resource } = await this.listsContainer
+      .item(list.id, list.id)
+      .replace(list);
+    return resource as TodoList;
+  }
 
+  // ── Microsoft To Do links ────────────────────────────────────────────
+
+  async getGraphLink(listId: string, userId: string): Promise<GraphListLink | null> {
+    const { resource } = await this.graphLinksContainer
+      .item(userId, listId)
+      .read<GraphLinkDocument>();
+    return resource ?? null;
+  }
+
+  async saveGraphLink(link: GraphListLink): Promise<GraphListLink> {
+    const doc: GraphLinkDocument = { id: link.user_id, ...link };
+    const { resource } = await this.graphLinksContainer.items.upsert<GraphLinkDocument>(doc);
+    return resource!;
+  }
+
+  async deleteGraphLink(listId: string, userId: string): Promise<boolean> {
     try {
-      await this.container.item(todoId, userId).delete();
+      await this.graphLinksContainer.item(userId, listId).delete();
       return true;
     } catch {
       return false;
     }
   }
-
-  async getStats(userId: string): Promise<{ total: number; active: number; completed: number }> {
-    const all = await this.listTodos(userId, "all");
-    const completed = all.filter((t) => t.completed).length;
-    return {
-      total: all.length,
-      active: all.length - completed,
-      completed,
-    };
-  }
 }
@@ -0,0 +1,87 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { AuditEntry, GraphListLink, TodoItem, TodoList } from "./todo-repository.js";
+import { InMemoryTodoRepository } from "./memory-store.js";
+
+interface StoreFile {
+  todos?: Record<string, TodoItem[]>;
+  lists?: Record<string, TodoList>;
+  audit?: Record<string, AuditEntry[]>;
+  graph_links?: Record<string, GraphListLink>;
+}
+
+/**
+ * The file layout before shared lists: each user's todos keyed by their
+ * oid, with nothing else in the file.
+ */
+type LegacyStoreFile = Record<string, TodoItem[]>;
+
+/** Every top-level value in the current layout is an object, never an array. */
+function isLegacyStoreFile(data: StoreFile | LegacyStoreFile): data is LegacyStoreFile {
+  return Object.values(data).some((value) => Array.isArray(value));
+}
+
+/**
+ * Each old per-user array becomes that user's personal list, whose id is the
+ * user's oid — the key the todos were already stored under.
+ */
+function migrateLegacyStoreFile(data: LegacyStoreFile): StoreFile {
+  return {
+    todos: Object.fromEntries(Object.entries(data).filter(([, items]) => Array.isArray(items))),
+  };
+}
+
+/**
+ * File-backed todo backend for local dev that survives restarts.
+ *
+ * Keeps everything in memory and rewrites a single JSON file after each
+ * mutation (write to a temp file, then rename, so a crash never leaves a
+ * half-written store). Fine for one process and a few thousand items —
+ * use Cosmos DB for anything shared.
+ */
+export class FileTodoRepository extends InMemoryTodoRepository {
+  readonly kind: string;
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, trashRetentionDays?: number, auditRetentionDays?: number) {
+    super(trashRetentionDays, auditRetentionDays);
+    this.filePath = resolve(filePath);
+    this.kind = `File (${this.filePath})`;
+  }
+
+  async init(): Promise<void> {
+    try {
+      const raw = await readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(raw) as StoreFile | LegacyStoreFile;
+      const data = isLegacyStoreFile(parsed) ? migrateLegacyStoreFile(parsed) : parsed;
+      this.todosByList = new Map(Object.entries(data.todos ?? {}));
+      this.lists = new Map(Object.entries(data.lists ?? {}));
+      this.auditByList = new Map(Object.entries(data.audit ?? {}));
+      this.graphLinks = new Map(Object.entries(data.graph_links ?? {}));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      await mkdir(dirname(this.filePath), { recursive: true });
+    }
+    await super.init();
+  }
+
+  protected persist(): Promise<void> {
+    // Serialize writes so concurrent mutations can't race on the rename.
+    // Each write starts from a settled chain, so one failed write is only
+    // reported to its own caller and doesn't reject every later one.
+    const write = this.writeChain.catch(() => {}).then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      const data: StoreFile = {
+        todos: Object.fromEntries(this.todosByList),
+        lists: Object.fromEntries(this.lists),
+        audit: Object.fromEntries(this.auditByList),
+        graph_links: Object.fromEntries(this.graphLinks),
+      };
+      await writeFile(tmpPath, JSON.stringify(data, null, 2), "utf-8");
+      await rename(tmpPath, this.filePath);
+    });
+    this.writeChain = write;
+    return write;
+  }
+}
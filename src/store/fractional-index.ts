@@ -0,0 +1,147 @@
+/**
+ * Fractional indexing for manual todo order.
+ *
+ * Positions are base-62 strings compared byte-wise (not with localeCompare),
+ * and there is always a key strictly between any two keys, so moving a todo
+ * only rewrites that todo.
+ *
+ * A key is a variable-length "integer" part — a head character encoding its
+ * length ("a".."z" = 2..27 chars counting up, "Z".."A" = 2..27 counting
+ * down) followed by that many digits — plus an optional fraction. New todos
+ * go to the top by decrementing the integer part, so keys grow by one
+ * character per ~62^n inserts instead of one per few. Fractions never end in
+ * the smallest digit, which keeps room to insert before any key.
+ */
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const ZERO = DIGITS[0];
+const MAX_DIGIT = DIGITS[DIGITS.length - 1];
+const SMALLEST_INTEGER = "A" + ZERO.repeat(26);
+
+/** Byte-wise comparison, matching Cosmos DB's ORDER BY on strings. */
+export function comparePositions(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function integerLength(head: string): number {
+  if (head >= "a" && head <= "z") return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  if (head >= "A" && head <= "Z") return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  throw new Error(`Invalid position key head: ${head}`);
+}
+
+function integerPart(key: string): string {
+  const length = integerLength(key[0]);
+  if (length > key.length) throw new Error(`Invalid position key: ${key}`);
+  return key.slice(0, length);
+}
+
+function validateKey(key: string): void {
+  if (key === SMALLEST_INTEGER) throw new Error(`Invalid position key: ${key}`);
+  const fraction = key.slice(integerPart(key).length);
+  if (fraction.endsWith(ZERO)) throw new Error(`Invalid position key: ${key}`);
+}
+
+function incrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split("");
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) + 1;
+    if (d === DIGITS.length) {
+      digits[i] = ZERO;
+    } else {
+      digits[i] = DIGITS[d];
+      carry = false;
+    }
+  }
+  if (!carry) return head + digits.join("");
+
+  if (head === "Z") return "a" + ZERO;
+  if (head === "z") return null;
+  const next = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (next > "a") digits.push(ZERO);
+  else digits.pop();
+  return next + digits.join("");
+}
+
+function decrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split("");
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) - 1;
+    if (d === -1) {
+      digits[i] = MAX_DIGIT;
+    } else {
+      digits[i] = DIGITS[d];
+      borrow = false;
+    }
+  }
+  if (!borrow) return head + digits.join("");
+
+  if (head === "a") return "Z" + MAX_DIGIT;
+  if (head === "A") return null;
+  const next = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (next < "Z") digits.push(MAX_DIGIT);
+  else digits.pop();
+  return next + digits.join("");
+}
+
+/** A fraction strictly between fractions `a` and `b` (null = 1). */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Shared prefix: recurse on the remainder
+    let n = 0;
+    while ((a[n] ?? ZERO) === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent first digits
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * A key that sorts strictly after `a` and before `b`. Pass null for `a` to
+ * get a key before `b` (top of the list), or null for `b` to get a key
+ * after `a` (bottom).
+ */
+export function keyBetween(a: string | null, b: string | null): string {
+  if (a !== null) validateKey(a);
+  if (b !== null) validateKey(b);
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`keyBetween: ${a} is not before ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) return "a" + ZERO;
+    const ib = integerPart(b);
+    const fb = b.slice(ib.length);
+    if (ib === SMALLEST_INTEGER) return ib + midpoint("", fb);
+    if (ib < b) return ib;
+    const decremented = decrementInteger(ib);
+    if (decremented === null) throw new Error("keyBetween: no key before the smallest key");
+    return decremented;
+  }
+
+  if (b === null) {
+    const ia = integerPart(a);
+    const fa = a.slice(ia.length);
+    const incremented = incrementInteger(ia);
+    return incremented === null ? ia + midpoint(fa, null) : incremented;
+  }
+
+  const ia = integerPart(a);
+  const fa = a.slice(ia.length);
+  const ib = integerPart(b);
+  const fb = b.slice(ib.length);
+  if (ia === ib) return ia + midpoint(fa, fb);
+
+  const incremented = incrementInteger(ia);
+  if (incremented === null) throw new Error("keyBetween: no key after the largest key");
+  if (incremented < b) return incremented;
+  return ia + midpoint(fa, null);
+}
@@ -0,0 +1,714 @@
+/**
+ * Reading and writing todos as JSON, CSV, Markdown task lists and
+ * iCalendar (RFC 5545) VTODOs.
+ *
+ * Every exported todo carries an id — the external id it was imported
+ * with, or its own id — and imports match on it, so importing an export
+ * again updates the same todos instead of duplicating them. Records
+ * without an id get one derived from their title.
+ *
+ * Not every format carries every field: Markdown has no reminders or
+ * recurrence, CSV and iCalendar have no subtasks. A field a record doesn't
+ * mention is left alone on import; one it mentions as empty is cleared.
+ */
+
+import crypto from "node:crypto";
+import { TodoItem, TodoPriority } from "./todo-repository.js";
+
+export type TodoFormat = "json" | "csv" | "markdown" | "ical";
+
+export const TODO_FORMATS: TodoFormat[] = ["json", "csv", "markdown", "ical"];
+
+export const FORMAT_MIME_TYPES: Record<TodoFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+  markdown: "text/markdown",
+  ical: "text/calendar",
+};
+
+export const FORMAT_EXTENSIONS: Record<TodoFormat, string> = {
+  json: "json",
+  csv: "csv",
+  markdown: "md",
+  ical: "ics",
+};
+
+/**
+ * One todo read from an import. Undefined fields leave an existing todo's
+ * value alone; null clears it.
+ */
+export interface ImportedTodo {
+  /** 1-based position of the record in the file. */
+  index: number;
+  external_id: string;
+  title: string;
+  description?: string;
+  completed?: boolean;
+  due_at?: string | null;
+  priority?: TodoPriority | null;
+  reminder_at?: string | null;
+  tags?: string[] | null;
+  recurrence?: string | null;
+  subtasks?: { title: string; completed: boolean }[];
+}
+
+/** A record that couldn't be read; the rest of the import still goes ahead. */
+export interface ImportIssue {
+  /** 1-based position of the record in the file. */
+  index: number;
+  external_id?: string;
+  title?: string;
+  error: string;
+}
+
+export interface ParsedImport {
+  todos: ImportedTodo[];
+  issues: ImportIssue[];
+}
+
+/** Thrown when a whole import is unreadable (malformed JSON, no title column, …). */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+/** A field of one record is invalid; becomes an ImportIssue. */
+class RecordError extends Error {}
+
+const PRIORITIES: TodoPriority[] = ["low", "medium", "high", "urgent"];
+
+/** The id an exported todo is written with, and matched on when imported back. */
+function exportId(todo: TodoItem): string {
+  return todo.external_id ?? todo.id;
+}
+
+/** Stand-in id for records without one, so re-importing them still matches. */
+function titleId(title: string): string {
+  const hash = crypto.createHash("sha256").update(title.trim().toLowerCase()).digest("hex");
+  return `title:${hash.slice(0, 16)}`;
+}
+
+// ── Validation ─────────────────────────────────────────────────────────
+
+/** A record as read from a file, before validation. */
+interface RawTodo {
+  id?: unknown;
+  title?: unknown;
+  description?: unknown;
+  completed?: unknown;
+  due_at?: unknown;
+  priority?: unknown;
+  reminder_at?: unknown;
+  tags?: unknown;
+  recurrence?: unknown;
+  subtasks?: unknown;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || (typeof value === "string" && value.trim() === "");
+}
+
+function readBoolean(field: string, value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  const text = String(value ?? "").trim().toLowerCase();
+  if (["true", "yes", "y", "1", "x", "done", "completed"].includes(text)) return true;
+  if (["false", "no", "n", "0", "", "active"].includes(text)) return false;
+  throw new RecordError(`Invalid ${field}: ${String(value)}`);
+}
+
+function readDate(field: string, value: unknown): string | null {
+  if (isBlank(value)) return null;
+  const date = typeof value === "string" ? new Date(value.trim()) : null;
+  if (!date || isNaN(date.getTime())) throw new RecordError(`Invalid ${field}: ${String(value)}`);
+  return date.toISOString();
+}
+
+function readPriority(value: unknown): TodoPriority | null {
+  if (isBlank(value)) return null;
+  const priority = String(value).trim().toLowerCase() as TodoPriority;
+  if (!PRIORITIES.includes(priority)) {
+    throw new RecordError(`Invalid priority: ${String(value)} (expected low, medium, high or urgent)`);
+  }
+  return priority;
+}
+
+function readTags(value: unknown): string[] | null {
+  if (isBlank(value)) return null;
+  if (typeof value === "string") return value.split(/[;,]/).map((t) => t.trim()).filter(Boolean);
+  if (Array.isArray(value) && value.every((t) => typeof t === "string")) return value;
+  throw new RecordError("Invalid tags: expected a list of strings");
+}
+
+function readSubtasks(value: unknown): { title: string; completed: boolean }[] {
+  if (!Array.isArray(value)) throw new RecordError("Invalid subtasks: expected a list");
+  return value.map((st) => {
+    const { title, completed } = (typeof st === "string" ? { title: st } : st ?? {}) as RawTodo;
+    if (typeof title !== "string" || !title.trim()) throw new RecordError("Every subtask needs a title");
+    return {
+      title: title.trim(),
+      completed: completed === undefined ? false : readBoolean("completed", completed),
+    };
+  });
+}
+
+/** Validate one record. Fields the record doesn't have stay undefined. */
+function readRecord(raw: RawTodo, index: number): ImportedTodo {
+  if (typeof raw.title !== "string" || !raw.title.trim()) throw new RecordError("Missing title");
+  const title = raw.title.trim();
+
+  const todo: ImportedTodo = {
+    index,
+    external_id: typeof raw.id === "string" || typeof raw.id === "number" ? String(raw.id).trim() : "",
+    title,
+  };
+  if (!todo.external_id) todo.external_id = titleId(title);
+
+  if (raw.description !== undefined) {
+    if (raw.description !== null && typeof raw.description !== "string") {
+      throw new RecordError("Invalid description");
+    }
+    todo.description = raw.description ?? "";
+  }
+  if (raw.completed !== undefined) todo.completed = readBoolean("completed", raw.completed);
+  if (raw.due_at !== undefined) todo.due_at = readDate("due_at", raw.due_at);
+  if (raw.reminder_at !== undefined) todo.reminder_at = readDate("reminder_at", raw.reminder_at);
+  if (raw.priority !== undefined) todo.priority = readPriority(raw.priority);
+  if (raw.tags !== undefined) todo.tags = readTags(raw.tags);
+  if (raw.recurrence !== undefined) {
+    if (!isBlank(raw.recurrence) && typeof raw.recurrence !== "string") {
+      throw new RecordError("Invalid recurrence: expected an RRULE string");
+    }
+    todo.recurrence = isBlank(raw.recurrence) ? null : (raw.recurrence as string).trim();
+  }
+  if (raw.subtasks !== undefined && raw.subtasks !== null) todo.subtasks = readSubtasks(raw.subtasks);
+  return todo;
+}
+
+function readRecords(raws: RawTodo[]): ParsedImport {
+  const parsed: ParsedImport = { todos: [], issues: [] };
+  raws.forEach((raw, i) => {
+    try {
+      parsed.todos.push(readRecord(raw, i + 1));
+    } catch (err) {
+      if (!(err instanceof RecordError)) throw err;
+      parsed.issues.push({
+        index: i + 1,
+        external_id: typeof raw.id === "string" ? raw.id : undefined,
+        title: typeof raw.title === "string" ? raw.title : undefined,
+        error: err.message,
+      });
+    }
+  });
+  return parsed;
+}
+
+// ── JSON ───────────────────────────────────────────────────────────────
+
+function toJson(todos: TodoItem[], listName: string, exportedAt: string): string {
+  const items = todos.map((t) => ({
+    id: exportId(t),
+    title: t.title,
+    description: t.description,
+    completed: t.completed,
+    due_at: t.due_at,
+    priority: t.priority,
+    reminder_at: t.reminder_at,
+    tags: t.tags,
+    recurrence: t.recurrence?.rule,
+    subtasks: t.subtasks?.map((st) => ({ title: st.title, completed: st.completed })),
+    created_at: t.created_at,
+    updated_at: t.updated_at,
+  }));
+  return JSON.stringify({ list: listName, exported_at: exportedAt, todos: items }, null, 2) + "\n";
+}
+
+/** Accepts an array of todos, or an object with a `todos` array (what we export). */
+function fromJson(text: string): RawTodo[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new ImportFormatError(`Invalid JSON: ${(err as Error).message}`);
+  }
+  const items = Array.isArray(data) ? data : (data as { todos?: unknown })?.todos;
+  if (!Array.isArray(items)) {
+    throw new ImportFormatError("JSON import must be an array of todos or an object with a \"todos\" array");
+  }
+  return items.map((item) => {
+    const raw = (item && typeof item === "object" ? item : {}) as RawTodo & { external_id?: unknown };
+    return { ...raw, id: raw.external_id ?? raw.id };
+  });
+}
+
+// ── CSV ────────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "description",
+  "completed",
+  "due_at",
+  "priority",
+  "reminder_at",
+  "tags",
+  "recurrence",
+] as const;
+
+/** Other header names accepted on import. */
+const CSV_ALIASES: Record<string, (typeof CSV_COLUMNS)[number]> = {
+  external_id: "id",
+  done: "completed",
+  due: "due_at",
+  reminder: "reminder_at",
+  rrule: "recurrence",
+};
+
+/**
+ * Spreadsheet apps run cells starting with these as formulas, so exports
+ * prefix them with an apostrophe (which imports strip again).
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: string): string {
+  const cell = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) || cell !== cell.trim() ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function toCsv(todos: TodoItem[]): string {
+  const rows = todos.map((t) =>
+    [
+      exportId(t),
+      t.title,
+      t.description,
+      String(t.completed),
+      t.due_at ?? "",
+      t.priority ?? "",
+      t.reminder_at ?? "",
+      (t.tags ?? []).join(";"),
+      t.recurrence?.rule ?? "",
+    ].map(csvCell)
+  );
+  return [CSV_COLUMNS.join(","), ...rows.map((r) => r.join(","))].join("\r\n") + "\r\n";
+}
+
+/** Split RFC 4180 CSV into rows of cells, dropping blank rows. */
+function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new ImportFormatError("Invalid CSV: unterminated quoted cell");
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function fromCsv(text: string): RawTodo[] {
+  const [header, ...rows] = splitCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+
+  const columns = header.map((h) => {
+    const name = h.trim().toLowerCase();
+    return CSV_ALIASES[name] ?? (CSV_COLUMNS as readonly string[]).find((c) => c === name);
+  });
+  if (!columns.includes("title")) throw new ImportFormatError("CSV import needs a \"title\" column");
+
+  return rows.map((cells) => {
+    const raw: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (!column) return;
+      const cell = cells[i] ?? "";
+      raw[column] = cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+    });
+    return raw as RawTodo;
+  });
+}
+
+// ── Markdown ───────────────────────────────────────────────────────────
+//
+// GitHub-style task lists. Priority, due date and tags use the Obsidian
+// Tasks conventions (⏫, 📅 2026-01-31, #tag) after the title; the id goes
+// in a trailing HTML comment. Indented lines below a task are its
+// description, and indented tasks its subtasks.
+
+const PRIORITY_EMOJI: Record<TodoPriority, string> = {
+  urgent: "🔺",
+  high: "⏫",
+  medium: "🔼",
+  low: "🔽",
+};
+
+const TASK_LINE = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+
+function singleLine(text: string): string {
+  return text.replace(/\s*[\r\n]+\s*/g, " ");
+}
+
+/** Date only when the due time is midnight UTC, otherwise the full timestamp. */
+function markdownDate(iso: string): string {
+  return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+}
+
+function toMarkdown(todos: TodoItem[], listName: string): string {
+  const lines = [`# ${singleLine(listName)}`, ""];
+  for (const t of todos) {
+    const parts = [`- [${t.completed ? "x" : " "}] ${singleLine(t.title)}`];
+    if (t.priority) parts.push(PRIORITY_EMOJI[t.priority]);
+    if (t.due_at) parts.push(`📅 ${markdownDate(t.due_at)}`);
+    for (const tag of t.tags ?? []) parts.push(`#${tag.replace(/\s+/g, "-")}`);
+    parts.push(`<!-- id: ${exportId(t)} -->`);
+    lines.push(parts.join(" "));
+
+    if (t.description) {
+      for (const line of t.description.split(/\r?\n/)) lines.push(line ? `  ${line}` : "");
+    }
+    for (const st of t.subtasks ?? []) {
+      lines.push(`  - [${st.completed ? "x" : " "}] ${singleLine(st.title)}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Split the metadata (id comment, priority, due date, tags) off the end of a task line. */
+function parseTaskText(text: string, completed: boolean): RawTodo {
+  const raw: RawTodo = { completed };
+  let rest = text;
+
+  const id = /\s*<!--\s*id:\s*(.*?)\s*-->\s*$/.exec(rest);
+  if (id) {
+    raw.id = id[1];
+    rest = rest.slice(0, id.index);
+  }
+
+  const tags: string[] = [];
+  for (;;) {
+    rest = rest.trimEnd();
+    let m: RegExpExecArray | null;
+    if ((m = /\s#(\p{L}[^\s#]*)$/u.exec(rest))) tags.unshift(m[1]);
+    else if ((m = /\s(🔺|⏫|🔼|🔽)$/u.exec(rest))) {
+      raw.priority = PRIORITIES.find((p) => PRIORITY_EMOJI[p] === m![1]);
+    } else if ((m = /\s📅\s*(\S+)$/u.exec(rest))) raw.due_at = m[1];
+    else break;
+    rest = rest.slice(0, m.index);
+  }
+  if (tags.length) raw.tags = tags;
+  raw.title = rest.trim();
+  return raw;
+}
+
+function fromMarkdown(text: string): RawTodo[] {
+  const items: { raw: RawTodo; description: string[]; subtasks: RawTodo[] }[] = [];
+  let current: (typeof items)[number] | null = null;
+  let blankLines = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    const task = TASK_LINE.exec(line);
+    if (task && task[1].length < 2) {
+      current = { raw: parseTaskText(task[3], task[2] !== " "), description: [], subtasks: [] };
+      items.push(current);
+      blankLines = 0;
+    } else if (!current) {
+      continue;
+    } else if (task) {
+      current.subtasks.push({ title: task[3], completed: task[2] !== " " });
+    } else if (!line.trim()) {
+      blankLines++;
+    } else if (/^\s/.test(line)) {
+      // Keep blank lines inside a description, but not trailing ones
+      if (current.description.length) current.description.push(...Array(blankLines).fill(""));
+      current.description.push(line.replace(/^( {1,2}|\t)/, ""));
+      blankLines = 0;
+    } else {
+      current = null; // a heading or paragraph ends the task
+    }
+  }
+
+  return items.map(({ raw, description, subtasks }) => ({
+    ...raw,
+    ...(description.length ? { description: description.join("\n") } : {}),
+    ...(subtasks.length ? { subtasks } : {}),
+  }));
+}
+
+// ── iCalendar ──────────────────────────────────────────────────────────
+//
+// One VTODO per todo. Reminders are a VALARM with an absolute trigger.
+// Imported times with a TZID or no zone are read as UTC.
+
+/** RFC 5545 PRIORITY: 1 is highest, 9 lowest, 0 undefined. */
+const ICAL_PRIORITY: Record<TodoPriority, number> = { urgent: 1, high: 3, medium: 5, low: 9 };
+
+function icalPriority(value: number): TodoPriority | null {
+  if (!value) return null;
+  if (value <= 2) return "urgent";
+  if (value <= 4) return "high";
+  if (value === 5) return "medium";
+  return "low";
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c.toLowerCase() === "n" ? "\n" : c));
+}
+
+function icalDate(iso: string): string {
+  return iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** "20260131T090000Z" or "20260131" as ISO 8601; anything else unchanged (and rejected later). */
+function isoFromIcal(value: string): string {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value.trim());
+  if (!m) return value;
+  return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0))).toISOString();
+}
+
+/** Milliseconds in a duration such as "-PT15M" or "-P1DT12H", or null. */
+function durationMs(value: string): number | null {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, sign, w, d, h, min, s] = m;
+  const ms = ((((+(w ?? 0) * 7 + +(d ?? 0)) * 24 + +(h ?? 0)) * 60 + +(min ?? 0)) * 60 + +(s ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/** Fold a content line at 75 octets, as RFC 5545 requires. */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    // Continuation lines start with a space, which counts
+    if (octets + size > (chunks.length ? 74 : 75)) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += ch;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+function toIcal(todos: TodoItem[], listName: string, exportedAt: string): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//mcp-todo-app//Todos//EN",
+    `X-WR-CALNAME:${escapeText(listName)}`,
+  ];
+  for (const t of todos) {
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:${exportId(t)}`,
+      `DTSTAMP:${icalDate(exportedAt)}`,
+      `CREATED:${icalDate(t.created_at)}`,
+      `LAST-MODIFIED:${icalDate(t.updated_at)}`,
+      `SUMMARY:${escapeText(t.title)}`,
+      `STATUS:${t.completed ? "COMPLETED" : "NEEDS-ACTION"}`
+    );
+    if (t.description) lines.push(`DESCRIPTION:${escapeText(t.description)}`);
+    if (t.completed) lines.push(`COMPLETED:${icalDate(t.updated_at)}`);
+    if (t.due_at) lines.push(`DUE:${icalDate(t.due_at)}`);
+    if (t.priority) lines.push(`PRIORITY:${ICAL_PRIORITY[t.priority]}`);
+    if (t.tags?.length) lines.push(`CATEGORIES:${t.tags.map(escapeText).join(",")}`);
+    if (t.recurrence) lines.push(`RRULE:${t.recurrence.rule}`);
+    if (t.reminder_at) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(t.title)}`,
+        `TRIGGER;VALUE=DATE-TIME:${icalDate(t.reminder_at)}`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VTODO");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+interface IcalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseIcalLine(line: string): IcalProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length && colon === -1; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) colon = i;
+  }
+  if (colon === -1) return null;
+
+  const [name, ...params] = line.slice(0, colon).split(";");
+  return {
+    name: name.trim().toUpperCase(),
+    params: Object.fromEntries(
+      params.map((p) => {
+        const eq = p.indexOf("=");
+        return [p.slice(0, eq).toUpperCase(), p.slice(eq + 1).replace(/^"|"$/g, "")];
+      })
+    ),
+    value: line.slice(colon + 1),
+  };
+}
+
+/** Split a CATEGORIES value on commas that aren't escaped. */
+function splitCategories(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((c) => unescapeText(c).trim())
+    .filter(Boolean);
+}
+
+function vtodoToRaw(props: IcalProperty[], alarms: IcalProperty[][]): RawTodo {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const due = get("DUE");
+  const status = get("STATUS")?.value.trim().toUpperCase();
+
+  const raw: RawTodo = {
+    id: get("UID")?.value.trim(),
+    title: get("SUMMARY") && unescapeText(get("SUMMARY")!.value),
+    description: unescapeText(get("DESCRIPTION")?.value ?? ""),
+    completed:
+      status === "COMPLETED" || !!get("COMPLETED") || get("PERCENT-COMPLETE")?.value.trim() === "100",
+    due_at: due ? isoFromIcal(due.value) : null,
+    priority: icalPriority(Number(get("PRIORITY")?.value ?? 0) || 0),
+    tags: props.filter((p) => p.name === "CATEGORIES").flatMap((p) => splitCategories(p.value)),
+    recurrence: get("RRULE")?.value.trim() ?? null,
+    reminder_at: null,
+  };
+
+  for (const alarm of alarms) {
+    const trigger = alarm.find((p) => p.name === "TRIGGER");
+    if (!trigger) continue;
+    if (trigger.params.VALUE === "DATE-TIME") {
+      raw.reminder_at = isoFromIcal(trigger.value);
+      break;
+    }
+    // Relative triggers: to the due date, or the start date unless RELATED=END
+    const anchor = trigger.params.RELATED === "END" ? due : get("DTSTART") ?? due;
+    const offset = durationMs(trigger.value);
+    const base = anchor && Date.parse(isoFromIcal(anchor.value));
+    if (offset !== null && base && !isNaN(base)) {
+      raw.reminder_at = new Date(base + offset).toISOString();
+      break;
+    }
+  }
+  return raw;
+}
+
+function fromIcal(text: string): RawTodo[] {
+  // Unfold continuation lines before anything else
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  if (!lines.some((l) => l.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new ImportFormatError("Not an iCalendar file (no BEGIN:VCALENDAR)");
+  }
+
+  const raws: RawTodo[] = [];
+  let props: IcalProperty[] | null = null;
+  let alarms: IcalProperty[][] = [];
+  let alarm: IcalProperty[] | null = null;
+
+  for (const line of lines) {
+    const prop = parseIcalLine(line);
+    if (!prop) continue;
+    const component = prop.value.trim().toUpperCase();
+
+    if (prop.name === "BEGIN" && component === "VTODO") {
+      props = [];
+      alarms = [];
+    } else if (!props) {
+      continue;
+    } else if (prop.name === "BEGIN" && component === "VALARM") {
+      alarm = [];
+    } else if (prop.name === "END" && component === "VALARM") {
+      if (alarm) alarms.push(alarm);
+      alarm = null;
+    } else if (prop.name === "END" && component === "VTODO") {
+      raws.push(vtodoToRaw(props, alarms));
+      props = null;
+    } else {
+      (alarm ?? props).push(prop);
+    }
+  }
+  return raws;
+}
+
+// ── Entry points ───────────────────────────────────────────────────────
+
+/** Serialize todos (in the order given) to a file in `format`. */
+export function formatTodos(
+  todos: TodoItem[],
+  format: TodoFormat,
+  listName: string,
+  exportedAt: string
+): string {
+  switch (format) {
+    case "json":
+      return toJson(todos, listName, exportedAt);
+    case "csv":
+      return toCsv(todos);
+    case "markdown":
+      return toMarkdown(todos, listName);
+    case "ical":
+      return toIcal(todos, listName, exportedAt);
+  }
+}
+
+/**
+ * Read the todos in an import file. Throws ImportFormatError if the file
+ * as a whole can't be read; invalid records are reported as issues.
+ */
+export function parseTodos(content: string, format: TodoFormat): ParsedImport {
+  switch (format) {
+    case "json":
+      return readRecords(fromJson(content));
+    case "csv":
+      return readRecords(fromCsv(content));
+    case "markdown":
+      return readRecords(fromMarkdown(content));
+    case "ical":
+      return readRecords(fromIcal(content));
+  }
+}
@@ -0,0 +1,290 @@
+import {
+  AuditEntry,
+  BatchWriteError,
+  DEFAULT_AUDIT_RETENTION_DAYS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  GraphListLink,
+  InvalidCursorError,
+  PageRequest,
+  TagCount,
+  TodoCounts,
+  TodoFilter,
+  TodoItem,
+  TodoList,
+  TodoPage,
+  TodoQuery,
+  TodoConflictError,
+  TodoRepository,
+  TodoWrite,
+  compareTodos,
+  containsAnyTerm,
+  matchesFilter,
+  matchesQuery,
+  sortTagCounts,
+} from "./todo-repository.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The `_etag` after a write: the todo's version counter, plus one. */
+function nextEtag(current?: string): string {
+  return String((Number(current) || 0) + 1);
+}
+
+/**
+ * In-memory todo backend for local dev. Data is lost on restart.
+ *
+ * Documents are cloned on the way in and out so callers can't mutate
+ * stored state without going through `replace()`.
+ */
+export class InMemoryTodoRepository implements TodoRepository {
+  readonly kind: string = "In-memory (dev)";
+
+  protected todosByList: Map<string, TodoItem[]> = new Map();
+  protected lists: Map<string, TodoList> = new Map();
+  protected auditByList: Map<string, AuditEntry[]> = new Map();
+  /** Microsoft To Do links, keyed by `${list_id}/${user_id}`. */
+  protected graphLinks: Map<string, GraphListLink> = new Map();
+
+  constructor(
+    readonly trashRetentionDays: number = DEFAULT_TRASH_RETENTION_DAYS,
+    readonly auditRetentionDays: number = DEFAULT_AUDIT_RETENTION_DAYS
+  ) {}
+
+  async init(): Promise<void> {
+    // Purge expired trash and audit entries hourly; unref so it never keeps the process alive
+    setInterval(() => void this.sweepExpired(), 60 * 60 * 1000).unref();
+  }
+
+  protected getListTodos(listId: string): TodoItem[] {
+    if (!this.todosByList.has(listId)) {
+      this.todosByList.set(listId, []);
+    }
+    return this.todosByList.get(listId)!;
+  }
+
+  /** A list's todos that aren't in the trash. */
+  protected liveTodos(listId: string): TodoItem[] {
+    return this.getListTodos(listId).filter((t) => !t.deleted_at);
+  }
+
+  private isExpired(todo: TodoItem, now: number): boolean {
+    return !!todo.deleted_at && Date.parse(todo.deleted_at) + this.trashRetentionDays * DAY_MS <= now;
+  }
+
+  private isAuditExpired(entry: AuditEntry, now: number): boolean {
+    return Date.parse(entry.at) + this.auditRetentionDays * DAY_MS <= now;
+  }
+
+  private async sweepExpired(): Promise<void> {
+    const now = Date.now();
+    let removed = false;
+    for (const [listId, todos] of this.todosByList) {
+      const kept = todos.filter((t) => !this.isExpired(t, now));
+      if (kept.length !== todos.length) {
+        this.todosByList.set(listId, kept);
+        removed = true;
+      }
+    }
+    for (const [listId, entries] of this.auditByList) {
+      const kept = entries.filter((e) => !this.isAuditExpired(e, now));
+      if (kept.length === entries.length) continue;
+      if (kept.length) this.auditByList.set(listId, kept);
+      else this.auditByList.delete(listId);
+      removed = true;
+    }
+    if (removed) await this.persist();
+  }
+
+  async list(listId: string, query: TodoQuery, page?: PageRequest): Promise<TodoPage> {
+    const matching = this.liveTodos(listId)
+      .filter((t) => matchesQuery(t, query))
+      .sort(compareTodos(query.sort));
+    if (!page) return { todos: matching.map((t) => structuredClone(t)) };
+
+    // The cursor is just an offset into the sorted matches
+    const offset = page.cursor ? Number(page.cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) throw new InvalidCursorError();
+
+    const end = offset + page.limit;
+    return {
+      todos: matching.slice(offset, end).map((t) => structuredClone(t)),
+      nextCursor: end < matching.length ? String(end) : undefined,
+    };
+  }
+
+  async positionAfter(listId: string, after: string | null): Promise<string | null> {
+    let best: string | null = null;
+    for (const { position } of this.getListTodos(listId)) {
+      if (!position || (after !== null && position <= after)) continue;
+      if (best === null || position < best) best = position;
+    }
+    return best;
+  }
+
+  async count(listId: string, now: string): Promise<TodoCounts> {
+    const todos = this.liveTodos(listId);
+    return {
+      total: todos.length,
+      completed: todos.filter((t) => t.completed).length,
+      overdue: todos.filter((t) => !t.completed && t.due_at && t.due_at < now).length,
+    };
+  }
+
+  async get(listId: string, todoId: string): Promise<TodoItem | null> {
+    const todo = this.getListTodos(listId).find((t) => t.id === todoId);
+    return todo ? structuredClone(todo) : null;
+  }
+
+  async create(todo: TodoItem): Promise<TodoItem> {
+    const stored: TodoItem = { ...structuredClone(todo), _etag: nextEtag() };
+    this.getListTodos(todo.user_id).unshift(stored);
+    await this.persist();
+    return structuredClone(stored);
+  }
+
+  async replace(todo: TodoItem): Promise<TodoItem> {
+    const todos = this.getListTodos(todo.user_id);
+    const idx = todos.findIndex((t) => t.id === todo.id);
+    if (idx === -1) throw new Error(`Todo not found: ${todo.id}`);
+    if (todo._etag !== undefined && todo._etag !== todos[idx]._etag) {
+      throw new TodoConflictError(structuredClone(todos[idx]));
+    }
+
+    const stored: TodoItem = { ...structuredClone(todo), _etag: nextEtag(todos[idx]._etag) };
+    todos[idx] = stored;
+    await this.persist();
+    return structuredClone(stored);
+  }
+
+  async writeBatch(listId: string, writes: TodoWrite[]): Promise<TodoItem[]> {
+    const todos = this.getListTodos(listId);
+
+    // Check every write before applying any, so a rejected batch changes nothing
+    for (const { op, todo } of writes) {
+      const existing = todos.find((t) => t.id === todo.id);
+      if (todo.user_id !== listId) throw new BatchWriteError(`Todo ${todo.id} is in another list`);
+      if (op === "replace" && !existing) throw new BatchWriteError(`Todo not found: ${todo.id}`);
+      if (op === "create" && existing) throw new BatchWriteError(`Todo already exists: ${todo.id}`);
+      if (op === "replace" && todo._etag !== undefined && todo._etag !== existing!._etag) {
+        throw new BatchWriteError(`Todo ${todo.id} was changed by someone else since it was read`);
+      }
+    }
+
+    const written = writes.map(({ op, todo }) => {
+      if (op === "create") {
+        const stored: TodoItem = { ...structuredClone(todo), _etag: nextEtag() };
+        todos.unshift(stored);
+        return stored;
+      }
+      const idx = todos.findIndex((t) => t.id === todo.id);
+      const stored: TodoItem = { ...structuredClone(todo), _etag: nextEtag(todos[idx]._etag) };
+      todos[idx] = stored;
+      return stored;
+    });
+    await this.persist();
+    return written.map((t) => structuredClone(t));
+  }
+
+  async delete(listId: string, todoId: string): Promise<boolean> {
+    const todos = this.getListTodos(listId);
+    const idx = todos.findIndex((t) => t.id === todoId);
+    if (idx === -1) return false;
+    todos.splice(idx, 1);
+    await this.persist();
+    return true;
+  }
+
+  async search(listId: string, terms: string[], status: TodoFilter): Promise<TodoItem[]> {
+    return this.liveTodos(listId)
+      .filter((t) => matchesFilter(t, status) && containsAnyTerm(t, terms))
+      .map((t) => structuredClone(t));
+  }
+
+  async countTags(listId: string): Promise<TagCount[]> {
+    const counts = new Map<string, number>();
+    for (const todo of this.liveTodos(listId)) {
+      for (const tag of todo.tags ?? []) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return sortTagCounts([...counts].map(([tag, count]) => ({ tag, count })));
+  }
+
+  async listTrash(listId: string): Promise<TodoItem[]> {
+    // The sweep runs hourly, so hide anything that expired since
+    const now = Date.now();
+    return this.getListTodos(listId)
+      .filter((t) => t.deleted_at && !this.isExpired(t, now))
+      .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+      .map((t) => structuredClone(t));
+  }
+
+  // ── Audit log ────────────────────────────────────────────────────────
+
+  async appendAudit(entries: AuditEntry[]): Promise<void> {
+    for (const entry of entries) {
+      if (!this.auditByList.has(entry.list_id)) this.auditByList.set(entry.list_id, []);
+      this.auditByList.get(entry.list_id)!.push(structuredClone(entry));
+    }
+    await this.persist();
+  }
+
+  async listAudit(listId: string, todoId: string, limit: number): Promise<AuditEntry[]> {
+    const now = Date.now();
+    return (this.auditByList.get(listId) ?? [])
+      .filter((e) => e.todo_id === todoId && !this.isAuditExpired(e, now))
+      .reverse()
+      .slice(0, limit)
+      .map((e) => structuredClone(e));
+  }
+
+  followAudit(): void {
+    // Nothing outside this process writes to the store
+  }
+
+  // ── Shared lists ─────────────────────────────────────────────────────
+
+  async getList(listId: string): Promise<TodoList | null> {
+    const list = this.lists.get(listId);
+    return list ? structuredClone(list) : null;
+  }
+
+  async listListsForMember(userId: string): Promise<TodoList[]> {
+    return [...this.lists.values()]
+      .filter((l) => l.members.some((m) => m.user_id === userId))
+      .map((l) => structuredClone(l));
+  }
+
+  async createList(list: TodoList): Promise<TodoList> {
+    this.lists.set(list.id, structuredClone(list));
+    await this.persist();
+    return structuredClone(list);
+  }
+
+  async replaceList(list: TodoList): Promise<TodoList> {
+    if (!this.lists.has(list.id)) throw new Error(`List not found: ${list.id}`);
+    this.lists.set(list.id, structuredClone(list));
+    await this.persist();
+    return structuredClone(list);
+  }
+
+  async getGraphLink(listId: string, userId: string): Promise<GraphListLink | null> {
+    const link = this.graphLinks.get(`${listId}/${userId}`);
+    return link ? structuredClone(link) : null;
+  }
+
+  async saveGraphLink(link: GraphListLink): Promise<GraphListLink> {
+    this.graphLinks.set(`${link.list_id}/${link.user_id}`, structuredClone(link));
+    await this.persist();
+    return structuredClone(link);
+  }
+
+  async deleteGraphLink(listId: string, userId: string): Promise<boolean> {
+    if (!this.graphLinks.delete(`${listId}/${userId}`)) return false;
+    await this.persist();
+    return true;
+  }
+
+  /** Hook for subclasses that write the in-memory state somewhere durable. */
+  protected async persist(): Promise<void> {}
+}
@@ -0,0 +1,236 @@
+/**
+ * Recurrence rules for repeating todos.
+ *
+ * Supports the subset of iCalendar RRULE (RFC 5545) that chores and
+ * standups need: FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL, BYDAY,
+ * BYMONTHDAY, COUNT and UNTIL. Weeks start on Monday. Occurrences keep the
+ * time of day of the previous due date, in UTC.
+ */
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface WeekdayRule {
+  /** 0 = Sunday … 6 = Saturday, as `Date.getUTCDay()`. */
+  day: number;
+  /** MONTHLY only: 1 = first, -1 = last such weekday of the month. */
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  /** Total number of occurrences in the series. */
+  count?: number;
+  /** No occurrences after this instant. */
+  until?: Date;
+}
+
+/** Thrown for a rule outside the supported RRULE subset. */
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceError";
+  }
+}
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "COUNT", "UNTIL"]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bound on periods scanned for the next match, so odd rules can't spin. */
+const MAX_PERIODS = 1000;
+
+function parseInteger(key: string, value: string, min: number, max: number): number {
+  const n = /^[+-]?\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(n) || n < min || n > max || n === 0) {
+    throw new RecurrenceError(`Invalid ${key} value: ${value}`);
+  }
+  return n;
+}
+
+function parseUntil(value: string): Date {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  const date = m
+    ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 23), +(m[5] ?? 59), +(m[6] ?? 59)))
+    : null;
+  if (!date || isNaN(date.getTime())) throw new RecurrenceError(`Invalid UNTIL value: ${value}`);
+  return date;
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Parse an RRULE such as "FREQ=WEEKLY;BYDAY=MO,TH" (an "RRULE:" prefix is
+ * allowed). Throws RecurrenceError for anything unsupported rather than
+ * silently ignoring it.
+ */
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [key, value, ...rest] = part.split("=");
+    const name = key.trim().toUpperCase();
+    if (!name || value === undefined || rest.length) throw new RecurrenceError(`Malformed RRULE part: ${part}`);
+    if (!SUPPORTED_PARTS.has(name)) throw new RecurrenceError(`Unsupported RRULE part: ${name}`);
+    if (parts.has(name)) throw new RecurrenceError(`Duplicate RRULE part: ${name}`);
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceError("RRULE needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY");
+  }
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parts.has("INTERVAL") ? parseInteger("INTERVAL", parts.get("INTERVAL")!, 1, 999) : 1,
+  };
+
+  const byDay = parts.get("BYDAY");
+  if (byDay !== undefined) {
+    if (freq === "YEARLY") throw new RecurrenceError("BYDAY isn't supported with FREQ=YEARLY");
+    rule.byDay = byDay.split(",").map((item) => {
+      const m = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(item);
+      const day = m ? WEEKDAYS.indexOf(m[2]) : -1;
+      if (!m || day === -1) throw new RecurrenceError(`Invalid BYDAY value: ${item}`);
+      if (m[1] === undefined) return { day };
+      if (freq !== "MONTHLY") throw new RecurrenceError(`BYDAY ordinals like ${item} need FREQ=MONTHLY`);
+      return { day, nth: parseInteger("BYDAY", m[1], -5, 5) };
+    });
+  }
+
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay !== undefined) {
+    if (freq !== "MONTHLY") throw new RecurrenceError("BYMONTHDAY needs FREQ=MONTHLY");
+    rule.byMonthDay = byMonthDay.split(",").map((d) => parseInteger("BYMONTHDAY", d, -31, 31));
+  }
+
+  if (parts.has("COUNT") && parts.has("UNTIL")) {
+    throw new RecurrenceError("RRULE can't have both COUNT and UNTIL");
+  }
+  if (parts.has("COUNT")) rule.count = parseInteger("COUNT", parts.get("COUNT")!, 1, 10000);
+  if (parts.has("UNTIL")) rule.until = parseUntil(parts.get("UNTIL")!);
+
+  return rule;
+}
+
+/** Serialize a rule in canonical part order, omitting defaults. */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay) {
+    parts.push("BYDAY=" + rule.byDay.map((d) => (d.nth ?? "") + WEEKDAYS[d.day]).join(","));
+  }
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(";");
+}
+
+/** Parse and re-serialize, so equivalent rules are stored the same way. */
+export function normalizeRRule(text: string): string {
+  return formatRRule(parseRRule(text));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Start of the Monday-based week containing `date`, in ms. */
+function weekStart(date: Date): number {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return midnight - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/** Days of the given month that match the rule's BYMONTHDAY/BYDAY, ascending. */
+function monthDays(rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] {
+  const total = daysInMonth(year, month);
+  if (!rule.byDay && !rule.byMonthDay) return defaultDay <= total ? [defaultDay] : [];
+
+  let days: number[] | null = null;
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map((d) => (d > 0 ? d : total + d + 1)).filter((d) => d >= 1 && d <= total);
+  }
+  if (rule.byDay) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    const matches = new Set<number>();
+    for (const { day, nth } of rule.byDay) {
+      const all: number[] = [];
+      for (let d = 1 + ((day - firstWeekday + 7) % 7); d <= total; d += 7) all.push(d);
+      if (nth === undefined) all.forEach((d) => matches.add(d));
+      else {
+        const pick = nth > 0 ? all[nth - 1] : all[all.length + nth];
+        if (pick !== undefined) matches.add(pick);
+      }
+    }
+    // Both parts given: a day must satisfy each (RFC 5545 narrows, not widens)
+    days = days ? days.filter((d) => matches.has(d)) : [...matches];
+  }
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+function nextMatch(rule: RecurrenceRule, after: Date): Date | null {
+  const { interval } = rule;
+  const time = after.getTime() - Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate());
+  const at = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day) + time);
+  const weekdays = rule.byDay?.map((d) => d.day);
+
+  switch (rule.freq) {
+    case "DAILY":
+      for (let k = 1; k <= MAX_PERIODS; k++) {
+        const candidate = new Date(after.getTime() + k * interval * DAY_MS);
+        if (!weekdays || weekdays.includes(candidate.getUTCDay())) return candidate;
+      }
+      return null;
+
+    case "WEEKLY": {
+      if (!weekdays) return new Date(after.getTime() + 7 * interval * DAY_MS);
+      const origin = weekStart(after);
+      for (let k = 1; k <= 7 * interval * 2; k++) {
+        const candidate = new Date(after.getTime() + k * DAY_MS);
+        const weeks = Math.round((weekStart(candidate) - origin) / (7 * DAY_MS));
+        if (weeks % interval === 0 && weekdays.includes(candidate.getUTCDay())) return candidate;
+      }
+      return null;
+    }
+
+    case "MONTHLY":
+      for (let k = 0; k <= MAX_PERIODS; k++) {
+        const monthIndex = after.getUTCMonth() + k * interval;
+        const year = after.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = monthIndex % 12;
+        for (const day of monthDays(rule, year, month, after.getUTCDate())) {
+          const candidate = at(year, month, day);
+          if (candidate > after) return candidate;
+        }
+      }
+      return null;
+
+    case "YEARLY":
+      for (let k = 1; k <= MAX_PERIODS; k++) {
+        const year = after.getUTCFullYear() + k * interval;
+        // Feb 29 only recurs in leap years
+        if (after.getUTCDate() <= daysInMonth(year, after.getUTCMonth())) {
+          return at(year, after.getUTCMonth(), after.getUTCDate());
+        }
+      }
+      return null;
+  }
+}
+
+/**
+ * The occurrence following one due at `after`, or null when the series is
+ * over. `occurrence` is the 1-based index of the occurrence due at `after`,
+ * checked against COUNT.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date, occurrence: number): Date | null {
+  if (rule.count !== undefined && occurrence >= rule.count) return null;
+  const next = nextMatch(rule, after);
+  if (!next || (rule.until && next > rule.until)) return null;
+  return next;
+}
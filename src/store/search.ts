@@ -0,0 +1,112 @@
+import { TodoItem } from "./todo-repository.js";
+
+/** [start, end) character offsets of a match. */
+export type Highlight = [number, number];
+
+export interface SearchHit {
+  todo: TodoItem;
+  score: number;
+  /** Match ranges in `todo.title`. */
+  title_highlights: Highlight[];
+  /** Excerpt of the description around the first match, if it matched. */
+  snippet?: { text: string; highlights: Highlight[] };
+}
+
+const MAX_TERMS = 10;
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Split a search query into lowercase terms. The repository fetches todos
+ * containing any term; `rankTodos()` then orders them.
+ */
+export function tokenize(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((t) => t.length > 0);
+  return [...new Set(terms)].slice(0, MAX_TERMS);
+}
+
+function findAll(text: string, term: string): Highlight[] {
+  const ranges: Highlight[] = [];
+  const lower = text.toLowerCase();
+  let idx = lower.indexOf(term);
+  while (idx !== -1) {
+    ranges.push([idx, idx + term.length]);
+    idx = lower.indexOf(term, idx + term.length);
+  }
+  return ranges;
+}
+
+/** Sort and merge overlapping ranges. */
+function mergeRanges(ranges: Highlight[]): Highlight[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: Highlight[] = [];
+  for (const r of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([r[0], r[1]]);
+  }
+  return merged;
+}
+
+function isWordStart(text: string, idx: number): boolean {
+  return idx === 0 || /\W/.test(text[idx - 1]);
+}
+
+function makeSnippet(text: string, ranges: Highlight[]): { text: string; highlights: Highlight[] } {
+  const start = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_RADIUS);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const shift = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift] as Highlight),
+  };
+}
+
+/**
+ * Score one todo against the query terms, or return null if nothing matches.
+ *
+ * Title matches outweigh description matches, matches at a word start
+ * outweigh mid-word ones, and the whole query appearing verbatim in the
+ * title gets a bonus. Todos matching more distinct terms rank higher.
+ */
+export function scoreTodo(todo: TodoItem, query: string, terms: string[]): SearchHit | null {
+  let score = 0;
+  const titleRanges: Highlight[] = [];
+  const descRanges: Highlight[] = [];
+
+  for (const term of terms) {
+    const inTitle = findAll(todo.title, term);
+    const inDesc = findAll(todo.description, term);
+    if (inTitle.length === 0 && inDesc.length === 0) continue;
+
+    // Best occurrence per field only, so repeating a word doesn't game the rank
+    score += 10;
+    if (inTitle.length) score += inTitle.some(([s]) => isWordStart(todo.title, s)) ? 6 : 3;
+    if (inDesc.length) score += inDesc.some(([s]) => isWordStart(todo.description, s)) ? 2 : 1;
+    titleRanges.push(...inTitle);
+    descRanges.push(...inDesc);
+  }
+  if (score === 0) return null;
+
+  const phrase = query.trim().toLowerCase();
+  if (terms.length > 1 && todo.title.toLowerCase().includes(phrase)) score += 15;
+
+  const hit: SearchHit = { todo, score, title_highlights: mergeRanges(titleRanges) };
+  if (descRanges.length > 0) hit.snippet = makeSnippet(todo.description, mergeRanges(descRanges));
+  return hit;
+}
+
+/** Score and sort candidates, best first; ties go to the most recently updated. */
+export function rankTodos(todos: TodoItem[], query: string, terms: string[]): SearchHit[] {
+  return todos
+    .map((t) => scoreTodo(t, query, terms))
+    .filter((h): h is SearchHit => h !== null)
+    .sort((a, b) => b.score - a.score || b.todo.updated_at.localeCompare(a.todo.updated_at));
+}
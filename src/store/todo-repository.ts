@@ -0,0 +1,454 @@
+import { comparePositions } from "./fractional-index.js";
+
+export interface TodoItem {
+  id: string;
+  /**
+   * Partition key: the list the todo belongs to. For a user's personal list
+   * this is their Entra `oid`; for a shared list it is the list id. (Named
+   * `user_id` because personal lists came first and the Cosmos container is
+   * partitioned on `/user_id`.)
+   */
+  user_id: string;
+  title: string;
+  description: string;
+  completed: boolean;
+  /** When the todo is due (ISO 8601, UTC). */
+  due_at?: string;
+  priority?: TodoPriority;
+  /** When the user wants to be reminded (ISO 8601, UTC). */
+  reminder_at?: string;
+  /** Free-form labels, normalized to trimmed lowercase and de-duplicated. */
+  tags?: string[];
+  /** Ordered checklist of steps, embedded in the todo document. */
+  subtasks?: Subtask[];
+  /**
+   * Fractional-index key for manual order (ascending = top first). Missing
+   * on todos created before manual ordering until they're first moved.
+   */
+  position?: string;
+  /** Repeat schedule; set on every occurrence of a recurring todo. */
+  recurrence?: TodoRecurrence;
+  /**
+   * When the todo was moved to the trash. Trashed todos are left out of
+   * everything but `listTrash()` and purged after the retention period.
+   */
+  deleted_at?: string;
+  /**
+   * Id of the todo in the file or system it was imported from; imports
+   * match on it so importing the same data twice doesn't duplicate todos.
+   */
+  external_id?: string;
+  /** oid of the user who created the todo. Missing on older items. */
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  /**
+   * Concurrency token, changed by the backend on every write (Cosmos'
+   * system `_etag`; a per-todo version counter in the memory store).
+   * `replace()` of a document carrying an `_etag` fails with
+   * TodoConflictError if the stored todo has changed since.
+   */
+  _etag?: string;
+}
+
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+  created_at: string;
+}
+
+/**
+ * How a recurring todo repeats. Completing an occurrence creates the next
+ * one as a new todo carrying the same series id and the completion history.
+ */
+export interface TodoRecurrence {
+  /** Normalized RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO,TH" (see recurrence.ts). */
+  rule: string;
+  /** Id of the todo that started the series, shared by every occurrence. */
+  series_id: string;
+  /** 1-based index of this occurrence in the series, checked against COUNT. */
+  occurrence: number;
+  /** Earlier completions of the series, oldest first. */
+  history: RecurrenceCompletion[];
+  /** Id of the occurrence generated when this one was completed. */
+  next_id?: string;
+}
+
+export interface RecurrenceCompletion {
+  todo_id: string;
+  due_at?: string;
+  completed_at: string;
+}
+
+export type TodoFilter = "all" | "active" | "completed";
+
+export type TodoPriority = "low" | "medium" | "high" | "urgent";
+
+export type TodoSort = "manual" | "created" | "due" | "priority";
+
+export type TagMatch = "any" | "all";
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * What to list. Date bounds are ISO 8601 UTC strings, so they compare
+ * correctly as strings both in memory and in Cosmos DB; todos without a
+ * `due_at` never match a date bound.
+ */
+export interface TodoQuery {
+  status: TodoFilter;
+  /** Only todos due strictly before this instant. */
+  dueBefore?: string;
+  /** Only todos due at or after this instant. */
+  dueAfter?: string;
+  /** Only todos with one of these priorities. */
+  priorities?: TodoPriority[];
+  /** Only todos carrying these tags — any of them, or all (`tagMatch`). */
+  tags?: string[];
+  /** Defaults to "any". */
+  tagMatch?: TagMatch;
+  /** Hide recurring todos due at or after this instant (future occurrences). */
+  hideRecurringFrom?: string;
+  /** Defaults to "manual" (by position, unpositioned todos newest first after). */
+  sort?: TodoSort;
+}
+
+/** One page of a listing. Backends define their own cursor format. */
+export interface PageRequest {
+  limit: number;
+  cursor?: string;
+}
+
+export interface TodoPage {
+  todos: TodoItem[];
+  /** Opaque cursor for the next page; absent on the last page. */
+  nextCursor?: string;
+}
+
+export interface TodoCounts {
+  total: number;
+  completed: number;
+  /** Active todos due before `now`. */
+  overdue: number;
+}
+
+/** Days a trashed todo is kept before it's purged, unless configured. */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Days an audit entry is kept before it's purged, unless configured. */
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90;
+
+/** One write in a `writeBatch()`. */
+export interface TodoWrite {
+  op: "create" | "replace";
+  todo: TodoItem;
+}
+
+/** Most writes a single `writeBatch()` may take (the Cosmos transactional batch limit). */
+export const MAX_BATCH_WRITES = 100;
+
+/** Thrown when a batch is rejected. None of its writes were applied. */
+export class BatchWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchWriteError";
+  }
+}
+
+/** Thrown when a todo changed between being read and being replaced. */
+export class TodoConflictError extends Error {
+  constructor(
+    /** The todo as currently stored, or null if it has since been deleted. */
+    public readonly current: TodoItem | null
+  ) {
+    super("This todo was changed by someone else since it was read");
+    this.name = "TodoConflictError";
+  }
+}
+
+export type AuditAction = "create" | "update" | "toggle" | "delete" | "restore" | "purge";
+
+/** One field of a todo before and after a change; absent means unset. */
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * One change to a todo, appended by `TodoStore` after every write. Entries
+ * outlive the todo, so history stays readable after it's purged.
+ */
+export interface AuditEntry {
+  id: string;
+  /** Partition key: the list the todo belongs to. */
+  list_id: string;
+  todo_id: string;
+  action: AuditAction;
+  /** oid of the user who made the change. */
+  actor: string;
+  /** OAuth client the change came through (`McpAuthInfo.clientId`). */
+  client_id?: string;
+  /** MCP session the change came through. */
+  session_id?: string;
+  /** Tool that made the change, e.g. "edit_todo". */
+  tool?: string;
+  changes: FieldChange[];
+  at: string;
+}
+
+/** Thrown for a pagination cursor that wasn't issued by this server. */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid or expired cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export type ListRole = "owner" | "editor" | "viewer";
+
+export interface ListMember {
+  user_id: string;
+  role: ListRole;
+  added_at: string;
+}
+
+/**
+ * A named list shared between several users. Personal lists are implicit
+ * (id = the user's oid) and never stored.
+ */
+export interface TodoList {
+  id: string;
+  name: string;
+  owner_id: string;
+  members: ListMember[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A list linked to one of the linking user's Microsoft To Do task lists, and
+ * which todo is which Graph task. Each member links a shared list to their
+ * own To Do, so links are per list and user.
+ */
+export interface GraphListLink {
+  /** The local list: a shared list id, or the user's oid for their personal list. */
+  list_id: string;
+  user_id: string;
+  /** Id of the Graph `todoTaskList`. */
+  graph_list_id: string;
+  graph_list_name: string;
+  linked_at: string;
+  /** When the last sync finished. */
+  last_synced_at?: string;
+  /** Synced todos by local todo id. */
+  items: Record<string, GraphItemLink>;
+}
+
+/** A todo and its Graph task, with both sides' `updated_at` as of the last sync. */
+export interface GraphItemLink {
+  graph_id: string;
+  /** The todo's `updated_at` after the last sync. */
+  local_updated_at: string;
+  /** The task's `lastModifiedDateTime` after the last sync. */
+  graph_updated_at: string;
+}
+
+/**
+ * Storage backend for todo items and shared lists.
+ *
+ * Backends only persist whole documents. Todos are partitioned by list
+ * (`user_id`, see TodoItem). Field-level logic such as toggling, partial
+ * updates and authorization lives in `TodoStore`, so adding a backend means
+ * implementing these methods only.
+ */
+export interface TodoRepository {
+  /** Human-readable backend name, used in startup logs. */
+  readonly kind: string;
+
+  /** Days trashed todos are kept before the backend purges them. */
+  readonly trashRetentionDays: number;
+
+  /** Create containers, open files, etc. Called once before first use. */
+  init(): Promise<void>;
+
+  /**
+   * List a list's (untrashed) todos matching the query, sorted per `query.sort`. With a
+   * page request, returns at most `limit` todos and a cursor for the rest;
+   * without one, returns everything.
+   */
+  list(listId: string, query: TodoQuery, page?: PageRequest): Promise<TodoPage>;
+
+  /**
+   * The smallest todo position greater than `after` (or the smallest
+   * overall when `after` is null), or null if there is none. Trashed todos
+   * count, so a restored todo never shares a position.
+   */
+  positionAfter(listId: string, after: string | null): Promise<string | null>;
+
+  /** Totals for a list's stats header, without fetching the todos. */
+  count(listId: string, now: string): Promise<TodoCounts>;
+
+  /** Read a single todo, trashed or not, or null if it doesn't exist in this list. */
+  get(listId: string, todoId: string): Promise<TodoItem | null>;
+
+  /** Insert a new todo. */
+  create(todo: TodoItem): Promise<TodoItem>;
+
+  /**
+   * Replace an existing todo with the given document, only if its `_etag`
+   * (when set) still matches — otherwise throws TodoConflictError.
+   */
+  replace(todo: TodoItem): Promise<TodoItem>;
+
+  /**
+   * Apply up to MAX_BATCH_WRITES creates and replaces to one list's todos
+   * atomically: either all are written, or BatchWriteError is thrown and
+   * none are. Replaces are conditional on `_etag`, as in `replace()`.
+   */
+  writeBatch(listId: string, writes: TodoWrite[]): Promise<TodoItem[]>;
+
+  /** Delete a todo permanently. Returns false if it didn't exist. */
+  delete(listId: string, todoId: string): Promise<boolean>;
+
+  /**
+   * Todos whose title or description contains any of the (lowercase) terms,
+   * case-insensitively. Unordered — ranking happens in `TodoStore`.
+   */
+  search(listId: string, terms: string[], status: TodoFilter): Promise<TodoItem[]>;
+
+  /** How many of a list's todos carry each tag, most used first. */
+  countTags(listId: string): Promise<TagCount[]>;
+
+  /** A list's trashed todos that haven't been purged yet, most recently deleted first. */
+  listTrash(listId: string): Promise<TodoItem[]>;
+
+  // ── Audit log ────────────────────────────────────────────────────────
+
+  /**
+   * Append change records. Entries are never modified; each is deleted once
+   * it's older than the audit retention period (TODO_AUDIT_RETENTION_DAYS),
+   * by the backend's hourly sweep or, in Cosmos DB, by per-item TTL.
+   */
+  appendAudit(entries: AuditEntry[]): Promise<void>;
+
+  /** A todo's unexpired change records, newest first, at most `limit` of them. */
+  listAudit(listId: string, todoId: string, limit: number): Promise<AuditEntry[]>;
+
+  /**
+   * Call `onEntries` with audit entries as other server instances append
+   * them, from now on. Backends only one process can use (memory, file)
+   * have nothing to follow and never call it. Entries appended through
+   * this instance may be passed too.
+   */
+  followAudit(onEntries: (entries: AuditEntry[]) => void): void;
+
+  // ── Shared lists ─────────────────────────────────────────────────────
+
+  /** Read a shared list, or null if it doesn't exist. */
+  getList(listId: string): Promise<TodoList | null>;
+
+  /** All shared lists the user is a member of (any role). */
+  listListsForMember(userId: string): Promise<TodoList[]>;
+
+  /** Insert a new shared list. */
+  createList(list: TodoList): Promise<TodoList>;
+
+  /** Replace an existing shared list (e.g. after changing members). */
+  replaceList(list: TodoList): Promise<TodoList>;
+
+  // ── Microsoft To Do links ────────────────────────────────────────────
+
+  /** A user's link from a list to Microsoft To Do, or null if there is none. */
+  getGraphLink(listId: string, userId: string): Promise<GraphListLink | null>;
+
+  /** Insert or replace a link. */
+  saveGraphLink(link: GraphListLink): Promise<GraphListLink>;
+
+  /** Remove a link. Returns false if it didn't exist. */
+  deleteGraphLink(listId: string, userId: string): Promise<boolean>;
+}
+
+export function matchesFilter(todo: TodoItem, filter: TodoFilter): boolean {
+  if (filter === "active") return !todo.completed;
+  if (filter === "completed") return todo.completed;
+  return true;
+}
+
+export function containsAnyTerm(todo: TodoItem, terms: string[]): boolean {
+  const title = todo.title.toLowerCase();
+  const description = todo.description.toLowerCase();
+  return terms.some((t) => title.includes(t) || description.includes(t));
+}
+
+export function matchesQuery(todo: TodoItem, query: TodoQuery): boolean {
+  if (!matchesFilter(todo, query.status)) return false;
+  if (query.dueBefore && !(todo.due_at && todo.due_at < query.dueBefore)) return false;
+  if (query.dueAfter && !(todo.due_at && todo.due_at >= query.dueAfter)) return false;
+  if (query.priorities && !(todo.priority && query.priorities.includes(todo.priority))) {
+    return false;
+  }
+  if (query.tags) {
+    const has = (tag: string) => todo.tags?.includes(tag) ?? false;
+    const ok = query.tagMatch === "all" ? query.tags.every(has) : query.tags.some(has);
+    if (!ok) return false;
+  }
+  if (
+    query.hideRecurringFrom &&
+    todo.recurrence &&
+    todo.due_at &&
+    todo.due_at >= query.hideRecurringFrom
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Sort tag counts most used first, then alphabetically. */
+export function sortTagCounts(counts: TagCount[]): TagCount[] {
+  return counts.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+const PRIORITY_RANK: Record<TodoPriority, number> = { low: 1, medium: 2, high: 3, urgent: 4 };
+
+/**
+ * Comparator for `TodoQuery.sort`. "manual" orders by position, with
+ * unpositioned (older) todos after; "due" puts the soonest first and undated
+ * todos last; "priority" puts urgent first and unprioritized last. Ties (and
+ * "created") fall back to newest first.
+ */
+export function compareTodos(sort: TodoSort = "manual") {
+  const newestFirst = (a: TodoItem, b: TodoItem) => b.created_at.localeCompare(a.created_at);
+
+  if (sort === "manual") {
+    return (a: TodoItem, b: TodoItem) => {
+      if (a.position && b.position) return comparePositions(a.position, b.position);
+      if (a.position) return -1;
+      if (b.position) return 1;
+      return newestFirst(a, b);
+    };
+  }
+
+  if (sort === "due") {
+    return (a: TodoItem, b: TodoItem) => {
+      if (a.due_at !== b.due_at) {
+        if (!a.due_at) return 1;
+        if (!b.due_at) return -1;
+        return a.due_at.localeCompare(b.due_at);
+      }
+      return newestFirst(a, b);
+    };
+  }
+  if (sort === "priority") {
+    return (a: TodoItem, b: TodoItem) => {
+      const diff =
+        (b.priority ? PRIORITY_RANK[b.priority] : 0) - (a.priority ? PRIORITY_RANK[a.priority] : 0);
+      return diff || newestFirst(a, b);
+    };
+  }
+  return newestFirst;
+}
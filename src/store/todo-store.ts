@@ -0,0 +1,1785 @@
+import crypto from "node:crypto";
+import { EventEmitter } from "node:events";
+import {
+  AuditAction,
+  AuditEntry,
+  BatchWriteError,
+  FieldChange,
+  DEFAULT_AUDIT_RETENTION_DAYS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  GraphListLink,
+  InvalidCursorError,
+  ListMember,
+  ListRole,
+  TodoItem,
+  TodoFilter,
+  TodoList,
+  TodoPriority,
+  TodoQuery,
+  TodoRepository,
+  TodoConflictError,
+  TodoSort,
+  TodoWrite,
+  TagCount,
+  TagMatch,
+  Subtask,
+  MAX_BATCH_WRITES,
+} from "./todo-repository.js";
+import { InMemoryTodoRepository } from "./memory-store.js";
+import { FileTodoRepository } from "./file-store.js";
+import { CosmosTodoRepository } from "./cosmos-store.js";
+import { SearchHit, rankTodos, tokenize } from "./search.js";
+import { keyBetween } from "./fractional-index.js";
+import { RecurrenceError, nextOccurrence, normalizeRRule, parseRRule } from "./recurrence.js";
+import { diffTodos } from "./audit.js";
+import {
+  FORMAT_EXTENSIONS,
+  FORMAT_MIME_TYPES,
+  ImportFormatError,
+  ImportedTodo,
+  ParsedImport,
+  TodoFormat,
+  formatTodos,
+  parseTodos,
+} from "./import-export.js";
+
+export type {
+  ListMember,
+  ListRole,
+  TodoItem,
+  TodoFilter,
+  TodoList,
+  TodoPriority,
+  TodoRepository,
+  TodoSort,
+  TagCount,
+  TagMatch,
+  Subtask,
+  TodoRecurrence,
+  RecurrenceCompletion,
+  AuditAction,
+  AuditEntry,
+  FieldChange,
+  GraphListLink,
+  GraphItemLink,
+} from "./todo-repository.js";
+export { InvalidCursorError, TodoConflictError } from "./todo-repository.js";
+export type { SearchHit, Highlight } from "./search.js";
+export { TODO_FORMATS } from "./import-export.js";
+export type { TodoFormat } from "./import-export.js";
+
+export type TodoStoreBackend = "memory" | "file" | "cosmos";
+
+/**
+ * Pick a storage backend from the environment.
+ *
+ * `TODO_STORE_BACKEND` selects explicitly (`memory`, `file`, `cosmos`).
+ * When unset, Cosmos DB is used if `AZURE_COSMOSDB_ENDPOINT` is set,
+ * otherwise the in-memory store. `TODO_TRASH_RETENTION_DAYS` sets how long
+ * deleted todos stay in the trash (default 30).
+ */
+export function createTodoRepository(
+  backend: string | undefined = process.env.TODO_STORE_BACKEND
+): TodoRepository {
+  const endpoint = process.env.AZURE_COSMOSDB_ENDPOINT;
+  const selected = (backend || (endpoint ? "cosmos" : "memory")) as TodoStoreBackend;
+
+  const retentionDays = Number(process.env.TODO_TRASH_RETENTION_DAYS || DEFAULT_TRASH_RETENTION_DAYS);
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+    throw new Error("TODO_TRASH_RETENTION_DAYS must be a positive number of days");
+  }
+  const auditDays = Number(process.env.TODO_AUDIT_RETENTION_DAYS || DEFAULT_AUDIT_RETENTION_DAYS);
+  if (!Number.isFinite(auditDays) || auditDays <= 0) {
+    throw new Error("TODO_AUDIT_RETENTION_DAYS must be a positive number of days");
+  }
+
+  switch (selected) {
+    case "cosmos":
+      if (!endpoint) {
+        throw new Error("TODO_STORE_BACKEND=cosmos requires AZURE_COSMOSDB_ENDPOINT");
+      }
+      return new CosmosTodoRepository(endpoint, retentionDays, auditDays);
+    case "file":
+      return new FileTodoRepository(
+        process.env.TODO_STORE_FILE || ".data/todos.json",
+        retentionDays,
+        auditDays
+      );
+    case "memory":
+      if (!backend) {
+        console.warn("AZURE_COSMOSDB_ENDPOINT not set — using in-memory store");
+      }
+      return new InMemoryTodoRepository(retentionDays, auditDays);
+    default:
+      throw new Error(
+        `Unknown TODO_STORE_BACKEND '${backend}' (expected memory, file, or cosmos)`
+      );
+  }
+}
+
+/**
+ * Thrown when the caller lacks the role a list operation needs. Tools turn
+ * this into a "forbidden" tool result.
+ */
+export class ListAccessError extends Error {
+  constructor(
+    public readonly listId: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "ListAccessError";
+  }
+}
+
+/** Thrown when a request is well-formed but breaks a store rule or limit. */
+export class TodoValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TodoValidationError";
+  }
+}
+
+/** A list as seen by one user — what `list_lists` returns. */
+export interface ListSummary {
+  id: string;
+  name: string;
+  role: ListRole;
+  shared: boolean;
+  members: ListMember[];
+}
+
+/**
+ * "overdue" = active and due before now; "today" = due on the current day in
+ * the listing's `timeZone` (UTC when none is given).
+ */
+export type DueFilter = "overdue" | "today";
+
+export interface ListTodosOptions {
+  filter?: TodoFilter;
+  due?: DueFilter;
+  priority?: TodoPriority[];
+  tags?: string[];
+  tagMatch?: TagMatch;
+  /** Hide recurring todos due after today — upcoming occurrences. */
+  hideFuture?: boolean;
+  /**
+   * IANA time zone (e.g. "Europe/Berlin") whose calendar day "today" means
+   * for `due` and `hideFuture`. Defaults to UTC.
+   */
+  timeZone?: string;
+  sort?: TodoSort;
+  /** Page size; omit to get every matching todo. */
+  limit?: number;
+  /** `next_cursor` from the previous page of the same listing. */
+  cursor?: string;
+}
+
+export interface ListTodosPage {
+  todos: TodoItem[];
+  /** Pass back as `cursor` to get the next page; absent on the last page. */
+  next_cursor?: string;
+}
+
+/** Optional fields accepted on create/update; `null` clears a field. */
+export interface TodoDetails {
+  due_at?: string | null;
+  priority?: TodoPriority | null;
+  reminder_at?: string | null;
+  tags?: string[] | null;
+  /** RRULE such as "FREQ=WEEKLY;BYDAY=MO"; null stops the todo repeating. */
+  recurrence?: string | null;
+}
+
+export interface ToggleResult {
+  todo: TodoItem;
+  /** The next occurrence, when completing a recurring todo created one. */
+  next_occurrence?: TodoItem;
+}
+
+/** A todo in the trash, with when it will be purged. */
+export type TrashedTodo = TodoItem & { deleted_at: string; purge_at: string };
+
+export type BulkOperationType =
+  | "complete"
+  | "uncomplete"
+  | "delete"
+  | "add_tag"
+  | "remove_tag"
+  | "set_priority";
+
+export interface BulkOperation {
+  type: BulkOperationType;
+  /** For add_tag and remove_tag. */
+  tag?: string;
+  /** For set_priority; null clears it. */
+  priority?: TodoPriority | null;
+}
+
+/** Which todos a bulk update touches: explicit ids, or everything matching a filter. */
+export type BulkTarget =
+  | { ids: string[] }
+  | { match: Omit<ListTodosOptions, "sort" | "limit" | "cursor"> };
+
+export interface BulkItemResult {
+  todo_id: string;
+  status: "updated" | "unchanged" | "not_found" | "failed";
+  /** The todo after the update (absent for not_found and failed). */
+  todo?: TodoItem;
+  error?: string;
+}
+
+export interface BulkResult {
+  results: BulkItemResult[];
+  /** Occurrences created by completing recurring todos. */
+  next_occurrences: TodoItem[];
+}
+
+/**
+ * Where a change came from, recorded in the audit log along with the
+ * caller's oid. Tools fill it from the request's auth info and session.
+ */
+export interface AuditContext {
+  client_id?: string;
+  session_id?: string;
+  tool?: string;
+}
+
+/** Emitted on `TodoStore.changes` after todos are written. */
+export interface TodoChangeEvent {
+  /** Position in this server's change feed; one higher than the last event. */
+  seq: number;
+  list_id: string;
+  /** Todos created, changed, trashed, restored or purged. */
+  todo_ids: string[];
+  /** Those todos as they are now (trashed ones included); purged ones are missing. */
+  todos: TodoItem[];
+  /** oid of the user who made the change. */
+  actor: string;
+  /** MCP session the change came through, if known. */
+  session_id?: string;
+  at: string;
+}
+
+/** Changes to one list since a cursor, from `getChanges`. */
+export interface TodoChanges {
+  /** Pass back as `cursor` to get later changes. */
+  cursor: number;
+  /**
+   * Changes were missed — the cursor is older than the feed keeps, or from
+   * before a restart — so the list should be reloaded.
+   */
+  reset: boolean;
+  changes: TodoChangeEvent[];
+}
+
+/** A write to record: the todo before (null when created) and after (null when purged). */
+interface AuditRecord {
+  action: AuditAction;
+  before: TodoItem | null;
+  after: TodoItem | null;
+}
+
+/** A list exported as a file. */
+export interface TodoExport {
+  format: TodoFormat;
+  mime_type: string;
+  filename: string;
+  count: number;
+  content: string;
+}
+
+export interface ImportItemResult {
+  /** 1-based position of the record in the file. */
+  index: number;
+  external_id?: string;
+  title?: string;
+  status: "created" | "updated" | "unchanged" | "skipped" | "invalid" | "failed";
+  /** The matched or created todo (absent for created todos in a dry run). */
+  todo_id?: string;
+  /** Fields set on a created todo or changed on an updated one. */
+  changes?: FieldChange[];
+  error?: string;
+}
+
+export interface ImportResult {
+  dry_run: boolean;
+  /** One result per record, in file order. */
+  results: ImportItemResult[];
+}
+
+export interface SearchOptions {
+  filter?: TodoFilter;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SearchPage {
+  hits: SearchHit[];
+  total: number;
+  /** Pass back as `cursor` to get the next page; absent on the last page. */
+  next_cursor?: string;
+}
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SUBTASKS = 50;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_RECURRENCE_HISTORY = 100;
+const MAX_BULK_TODOS = 500;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_IMPORT_TODOS = 500;
+/** Change events kept for `getChanges`, newest last. */
+const CHANGE_FEED_CAPACITY = 1000;
+
+export interface TodoStats {
+  total: number;
+  active: number;
+  completed: number;
+  overdue: number;
+}
+
+const ROLE_RANK: Record<ListRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+/**
+ * Todo operations used by the MCP tools, on top of a pluggable backend.
+ *
+ * Every operation takes the caller's oid and a list id, and checks the
+ * caller's role on that list first: viewers can read, editors can also
+ * change todos, owners can also share. A user's personal list has the same
+ * id as their oid and only they can access it.
+ */
+export class TodoStore {
+  private repo: TodoRepository;
+  private initPromise?: Promise<void>;
+
+  /**
+   * Emits "change" with a TodoChangeEvent after every write, so MCP
+   * sessions can tell subscribed clients to re-read.
+   */
+  readonly changes = new EventEmitter<{ change: [TodoChangeEvent] }>();
+  private feed: TodoChangeEvent[] = [];
+  private feedSeq = 0;
+  /** Audit entries appended here, so followAudit echoes aren't emitted twice. */
+  private localAuditIds = new Set<string>();
+
+  constructor(repo: TodoRepository) {
+    this.repo = repo;
+    // One listener per open MCP session
+    this.changes.setMaxListeners(0);
+  }
+
+  get backend(): string {
+    return this.repo.kind;
+  }
+
+  private ensureInitialized(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.repo
+        .init()
+        .then(() => {
+          // Pick up writes made through other server instances
+          this.repo.followAudit((entries) => void this.relayAudit(entries));
+        })
+        .catch((err) => {
+          // Allow a retry on the next call instead of caching the failure
+          this.initPromise = undefined;
+          throw err;
+        });
+    }
+    return this.initPromise;
+  }
+
+  // ── Lists & access control ───────────────────────────────────────────
+
+  private personalList(userId: string): ListSummary {
+    return {
+      id: userId,
+      name: "My Todos",
+      role: "owner",
+      shared: false,
+      members: [],
+    };
+  }
+
+  private summarize(list: TodoList, userId: string): ListSummary | null {
+    const member = list.members.find((m) => m.user_id === userId);
+    if (!member) return null;
+    return {
+      id: list.id,
+      name: list.name,
+      role: member.role,
+      shared: true,
+      members: list.members,
+    };
+  }
+
+  /**
+   * Resolve the caller's view of a list, throwing ListAccessError if they
+   * aren't a member or their role is below `minRole`.
+   */
+  async requireAccess(userId: string, listId: string, minRole: ListRole): Promise<ListSummary> {
+    await this.ensureInitialized();
+
+    let summary: ListSummary | null = null;
+    if (listId === userId) {
+      summary = this.personalList(userId);
+    } else {
+      const list = await this.repo.getList(listId);
+      summary = list ? this.summarize(list, userId) : null;
+    }
+
+    // Don't reveal whether a list the caller can't see exists
+    if (!summary) {
+      throw new ListAccessError(listId, `List not found: ${listId}`);
+    }
+    if (ROLE_RANK[summary.role] < ROLE_RANK[minRole]) {
+      throw new ListAccessError(
+        listId,
+        `Your role on "${summary.name}" is ${summary.role}; this needs ${minRole} access`
+      );
+    }
+    return summary;
+  }
+
+  async listLists(userId: string): Promise<ListSummary[]> {
+    await this.ensureInitialized();
+    const shared = await this.repo.listListsForMember(userId);
+    return [
+      this.personalList(userId),
+      ...shared
+        .map((l) => this.summarize(l, userId))
+        .filter((l): l is ListSummary => l !== null),
+    ];
+  }
+
+  async createList(userId: string, name: string): Promise<ListSummary> {
+    await this.ensureInitialized();
+
+    const now = new Date().toISOString();
+    const list = await this.repo.createList({
+      id: crypto.randomUUID(),
+      name,
+      owner_id: userId,
+      members: [{ user_id: userId, role: "owner", added_at: now }],
+      created_at: now,
+      updated_at: now,
+    });
+    return this.summarize(list, userId)!;
+  }
+
+  /**
+   * Add, change or remove (`role: "none"`) a member of a shared list.
+   * Owners only. The last owner can't be demoted or removed.
+   */
+  async shareList(
+    userId: string,
+    listId: string,
+    memberId: string,
+    role: ListRole | "none"
+  ): Promise<ListSummary> {
+    if (listId === userId) {
+      throw new ListAccessError(
+        listId,
+        "Your personal list can't be shared. Create a shared list with create_list first."
+      );
+    }
+    await this.requireAccess(userId, listId, "owner");
+
+    const list = (await this.repo.getList(listId))!;
+    const now = new Date().toISOString();
+    const others = list.members.filter((m) => m.user_id !== memberId);
+    const members: ListMember[] =
+      role === "none" ? others : [...others, { user_id: memberId, role, added_at: now }];
+
+    if (!members.some((m) => m.role === "owner")) {
+      throw new ListAccessError(listId, "A list must keep at least one owner");
+    }
+
+    const updated = await this.repo.replaceList({ ...list, members, updated_at: now });
+    return this.summarize(updated, userId) ?? { ...this.summarize(list, userId)!, members };
+  }
+
+  // ── CRUD Operations ──────────────────────────────────────────────────
+
+  /** Read a todo, treating trashed ones as missing. */
+  private async getTodo(listId: string, todoId: string): Promise<TodoItem | null> {
+    const todo = await this.repo.get(listId, todoId);
+    return todo && !todo.deleted_at ? todo : null;
+  }
+
+  /** Read one todo in a list the caller can read; null if it's missing or trashed. */
+  async readTodo(userId: string, listId: string, todoId: string): Promise<TodoItem | null> {
+    await this.requireAccess(userId, listId, "viewer");
+    return this.getTodo(listId, todoId);
+  }
+
+  /**
+   * Find a todo by id in any list the caller can read — the personal list
+   * first, then shared lists. Null if it's in none of them (or trashed).
+   */
+  async findTodo(
+    userId: string,
+    todoId: string
+  ): Promise<{ list: ListSummary; todo: TodoItem } | null> {
+    for (const list of await this.listLists(userId)) {
+      const todo = await this.getTodo(list.id, todoId);
+      if (todo) return { list, todo };
+    }
+    return null;
+  }
+
+  /**
+   * List todos, optionally one page at a time. Cursors wrap the backend's
+   * own cursor (a Cosmos continuation token, or an offset) together with a
+   * fingerprint of the listing, so a cursor can't be replayed against a
+   * different list, filter or sort.
+   */
+  async listTodos(
+    userId: string,
+    listId: string,
+    options: ListTodosOptions = {}
+  ): Promise<ListTodosPage> {
+    await this.requireAccess(userId, listId, "viewer");
+
+    const { limit, cursor, ...filters } = options;
+    const fingerprint = listingFingerprint(listId, filters);
+
+    // Keep "now" fixed across pages so overdue/today bounds don't shift
+    let now = new Date();
+    let backendCursor: string | undefined;
+    if (cursor) {
+      const decoded = decodeCursor<ListCursor>(cursor);
+      now = new Date(decoded.n);
+      if (decoded.f !== fingerprint || typeof decoded.c !== "string" || isNaN(now.getTime())) {
+        throw new InvalidCursorError();
+      }
+      backendCursor = decoded.c;
+    }
+
+    const query = buildQuery(filters, now);
+    if (limit === undefined) {
+      const { todos } = await this.repo.list(listId, query);
+      return { todos };
+    }
+
+    const page = await this.repo.list(listId, query, { limit, cursor: backendCursor });
+    const result: ListTodosPage = { todos: page.todos };
+    if (page.nextCursor) {
+      result.next_cursor = encodeCursor<ListCursor>({
+        f: fingerprint,
+        n: now.toISOString(),
+        c: page.nextCursor,
+      });
+    }
+    return result;
+  }
+
+  async createTodo(
+    userId: string,
+    listId: string,
+    title: string,
+    description: string = "",
+    details: TodoDetails = {},
+    audit: AuditContext = {}
+  ): Promise<TodoItem> {
+    await this.requireAccess(userId, listId, "editor");
+
+    const now = new Date().toISOString();
+    const todo: TodoItem = {
+      id: crypto.randomUUID(),
+      user_id: listId,
+      title,
+      description,
+      completed: false,
+      // New todos go to the top of the manual order
+      position: keyBetween(null, await this.repo.positionAfter(listId, null)),
+      created_by: userId,
+      created_at: now,
+      updated_at: now,
+    };
+    applyDetails(todo, details);
+
+    const created = await this.repo.create(todo);
+    await this.recordChanges(userId, listId, audit, [{ action: "create", before: null, after: created }]);
+    return created;
+  }
+
+  /**
+   * Update fields of a todo. With `expectedEtag` (the `_etag` the caller
+   * last saw), throws TodoConflictError if the todo has changed since, so
+   * concurrent editors don't silently overwrite each other.
+   */
+  async updateTodo(
+    userId: string,
+    listId: string,
+    todoId: string,
+    updates: { title?: string; description?: string } & TodoDetails,
+    expectedEtag?: string,
+    audit: AuditContext = {}
+  ): Promise<TodoItem | null> {
+    await this.requireAccess(userId, listId, "editor");
+
+    const existing = await this.getTodo(listId, todoId);
+    if (!existing) return null;
+    checkEtag(existing, expectedEtag);
+
+    const updated: TodoItem = { ...existing, updated_at: new Date().toISOString() };
+    if (updates.title !== undefined) updated.title = updates.title;
+    if (updates.description !== undefined) updated.description = updates.description;
+    applyDetails(updated, updates);
+
+    const saved = await this.repo.replace(updated);
+    await this.recordChanges(userId, listId, audit, [{ action: "update", before: existing, after: saved }]);
+    return saved;
+  }
+
+  /**
+   * Flip a todo's completion. Completing an occurrence of a recurring todo
+   * also creates the next occurrence (once — reopening and completing again
+   * doesn't create another). `expectedEtag` works as in `updateTodo()`, so
+   * two stale toggles can't cancel each other out.
+   */
+  async toggleTodo(
+    userId: string,
+    listId: string,
+    todoId: string,
+    expectedEtag?: string,
+    audit: AuditContext = {}
+  ): Promise<ToggleResult | null> {
+    await this.requireAccess(userId, listId, "editor");
+
+    const existing = await this.getTodo(listId, todoId);
+    if (!existing) return null;
+    checkEtag(existing, expectedEtag);
+
+    const now = new Date();
+    const todo: TodoItem = {
+      ...existing,
+      completed: !existing.completed,
+      updated_at: now.toISOString(),
+    };
+    return this.saveToggle(userId, listId, audit, existing, todo, now);
+  }
+
+  /**
+   * Write a todo whose completion has flipped, plus its next occurrence when
+   * completing a recurring todo that doesn't have one yet. Shared by every
+   * path that completes or reopens a todo, so they all audit a "toggle".
+   */
+  private async saveToggle(
+    userId: string,
+    listId: string,
+    audit: AuditContext,
+    existing: TodoItem,
+    todo: TodoItem,
+    now: Date
+  ): Promise<ToggleResult> {
+    const next =
+      todo.completed && todo.recurrence && !todo.recurrence.next_id
+        ? await this.buildNextOccurrence(todo, now)
+        : null;
+    if (next) todo.recurrence = { ...todo.recurrence!, next_id: next.id };
+
+    const result: ToggleResult = { todo: await this.repo.replace(todo) };
+    const records: AuditRecord[] = [{ action: "toggle", before: existing, after: result.todo }];
+    if (next) {
+      result.next_occurrence = await this.repo.create(next);
+      records.push({ action: "create", before: null, after: result.next_occurrence });
+    }
+    await this.recordChanges(userId, listId, audit, records);
+    return result;
+  }
+
+  /**
+   * The occurrence after `todo`, due on the rule's next date after its due
+   * date (or after now if it had none), or null when the series has ended.
+   * Occurrences already in the past are skipped so the new todo isn't born
+   * overdue. It goes right below the completed one in the manual order.
+   */
+  private async buildNextOccurrence(todo: TodoItem, now: Date): Promise<TodoItem | null> {
+    const recurrence = todo.recurrence!;
+    const rule = parseRRule(recurrence.rule);
+
+    let occurrence = recurrence.occurrence;
+    let dueAt: Date | null = todo.due_at ? new Date(todo.due_at) : now;
+    do {
+      dueAt = nextOccurrence(rule, dueAt, occurrence++);
+    } while (dueAt && dueAt <= now);
+    if (!dueAt) return null;
+
+    const history = [
+      ...recurrence.history,
+      { todo_id: todo.id, due_at: todo.due_at, completed_at: now.toISOString() },
+    ].slice(-MAX_RECURRENCE_HISTORY);
+
+    const lower = todo.position ?? null;
+    const next: TodoItem = {
+      id: crypto.randomUUID(),
+      user_id: todo.user_id,
+      title: todo.title,
+      description: todo.description,
+      completed: false,
+      due_at: dueAt.toISOString(),
+      position: keyBetween(lower, await this.repo.positionAfter(todo.user_id, lower)),
+      recurrence: { rule: recurrence.rule, series_id: recurrence.series_id, occurrence, history },
+      created_by: todo.created_by,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    };
+    if (todo.priority) next.priority = todo.priority;
+    if (todo.tags) next.tags = [...todo.tags];
+    if (todo.subtasks) {
+      next.subtasks = todo.subtasks.map((st) => ({ ...st, id: crypto.randomUUID(), completed: false }));
+    }
+    if (todo.reminder_at && todo.due_at) {
+      // Keep the reminder the same distance before the due date
+      const lead = Date.parse(todo.due_at) - Date.parse(todo.reminder_at);
+      next.reminder_at = new Date(dueAt.getTime() - lead).toISOString();
+    }
+    return next;
+  }
+
+  /** Move a todo to the trash. Returns false if it doesn't exist (or is already trashed). */
+  async deleteTodo(
+    userId: string,
+    listId: string,
+    todoId: string,
+    audit: AuditContext = {}
+  ): Promise<boolean> {
+    await this.requireAccess(userId, listId, "editor");
+
+    const existing = await this.getTodo(listId, todoId);
+    if (!existing) return false;
+
+    const now = new Date().toISOString();
+    const trashed = await this.repo.replace({ ...existing, deleted_at: now, updated_at: now });
+    await this.recordChanges(userId, listId, audit, [{ action: "delete", before: existing, after: trashed }]);
+    return true;
+  }
+
+  /**
+   * Move a todo directly after `afterId` in the manual order, or to the top
+   * when `afterId` is null. Only the moved todo is rewritten — except the
+   * first time a todo from before manual ordering is used as an anchor,
+   * when the list's unpositioned todos get positions once.
+   */
+  async reorderTodo(
+    userId: string,
+    listId: string,
+    todoId: string,
+    afterId: string | null,
+    audit: AuditContext = {}
+  ): Promise<TodoItem | null> {
+    await this.requireAccess(userId, listId, "editor");
+    if (afterId === todoId) throw new TodoValidationError("A todo can't be moved after itself");
+
+    let todo = await this.getTodo(listId, todoId);
+    if (!todo) return null;
+
+    let lower: string | null = null;
+    if (afterId !== null) {
+      let anchor = await this.getTodo(listId, afterId);
+      if (!anchor) return null;
+      if (!anchor.position) {
+        await this.assignMissingPositions(userId, listId, audit);
+        anchor = (await this.getTodo(listId, afterId))!;
+        todo = (await this.getTodo(listId, todoId))!;
+      }
+      lower = anchor.position!;
+    }
+
+    const upper = await this.repo.positionAfter(listId, lower);
+    if (upper !== null && upper === todo.position) return todo; // already there
+
+    const moved = await this.repo.replace({
+      ...todo,
+      position: keyBetween(lower, upper),
+      updated_at: new Date().toISOString(),
+    });
+    await this.recordChanges(userId, listId, audit, [{ action: "update", before: todo, after: moved }]);
+    return moved;
+  }
+
+  /**
+   * One-off migration: give unpositioned todos positions after the rest.
+   * Recorded like any other update, so other sessions see the new order.
+   */
+  private async assignMissingPositions(
+    userId: string,
+    listId: string,
+    audit: AuditContext
+  ): Promise<void> {
+    const { todos } = await this.repo.list(listId, { status: "all", sort: "manual" });
+    const records: AuditRecord[] = [];
+    let last: string | null = null;
+    for (const todo of todos) {
+      if (todo.position) {
+        last = todo.position;
+        continue;
+      }
+      last = keyBetween(last, null);
+      const saved = await this.repo.replace({ ...todo, position: last });
+      records.push({ action: "update", before: todo, after: saved });
+    }
+    await this.recordChanges(userId, listId, audit, records);
+  }
+
+  // ── Bulk updates ─────────────────────────────────────────────────────
+
+  /**
+   * Apply one operation to many todos. Writes go to the backend in
+   * transactional batches of up to MAX_BATCH_WRITES (the Cosmos limit), so
+   * each batch lands whole or not at all; a rejected batch marks its todos
+   * "failed" and later batches still run. Completing a recurring todo
+   * creates its next occurrence in the same batch.
+   */
+  async bulkUpdateTodos(
+    userId: string,
+    listId: string,
+    target: BulkTarget,
+    operation: BulkOperation,
+    audit: AuditContext = {}
+  ): Promise<BulkResult> {
+    await this.requireAccess(userId, listId, "editor");
+    if ((operation.type === "add_tag" || operation.type === "remove_tag") && !operation.tag?.trim()) {
+      throw new TodoValidationError(`${operation.type} needs a tag`);
+    }
+    if (operation.type === "set_priority" && operation.priority === undefined) {
+      throw new TodoValidationError("set_priority needs a priority (or null to clear it)");
+    }
+
+    const results: BulkItemResult[] = [];
+    const targets: TodoItem[] = [];
+    if ("ids" in target) {
+      for (const id of new Set(target.ids)) {
+        const todo = await this.getTodo(listId, id);
+        if (todo) targets.push(todo);
+        else results.push({ todo_id: id, status: "not_found" });
+      }
+    } else {
+      const { todos } = await this.repo.list(listId, buildQuery(target.match, new Date()));
+      targets.push(...todos);
+    }
+    if (targets.length > MAX_BULK_TODOS) {
+      throw new TodoValidationError(
+        `That selects ${targets.length} todos; bulk updates are limited to ${MAX_BULK_TODOS}`
+      );
+    }
+
+    // One group of writes per changed todo, so a todo and its next occurrence share a batch
+    const now = new Date();
+    const groups: { before: TodoItem; writes: TodoWrite[] }[] = [];
+    for (const todo of targets) {
+      const updated = applyBulkOperation(todo, operation, now.toISOString());
+      if (!updated) {
+        results.push({ todo_id: todo.id, status: "unchanged", todo });
+        continue;
+      }
+      const writes: TodoWrite[] = [{ op: "replace", todo: updated }];
+      if (operation.type === "complete" && updated.recurrence && !updated.recurrence.next_id) {
+        const next = await this.buildNextOccurrence(updated, now);
+        if (next) {
+          updated.recurrence = { ...updated.recurrence, next_id: next.id };
+          writes.push({ op: "create", todo: next });
+        }
+      }
+      groups.push({ before: todo, writes });
+    }
+
+    const action: AuditAction =
+      operation.type === "complete" || operation.type === "uncomplete"
+        ? "toggle"
+        : operation.type === "delete"
+          ? "delete"
+          : "update";
+    const nextOccurrences: TodoItem[] = [];
+    let batch: typeof groups = [];
+    const flush = async () => {
+      if (!batch.length) return;
+      const writes = batch.flatMap((g) => g.writes);
+      const befores = batch.flatMap((g) =>
+        g.writes.map((w) => (w.op === "replace" ? g.before : null))
+      );
+      try {
+        const written = await this.repo.writeBatch(listId, writes);
+        for (const [i, write] of writes.entries()) {
+          if (write.op === "create") nextOccurrences.push(written[i]);
+          else results.push({ todo_id: write.todo.id, status: "updated", todo: written[i] });
+        }
+        await this.recordChanges(
+          userId,
+          listId,
+          audit,
+          written.map((after, i) => ({
+            action: befores[i] ? action : "create",
+            before: befores[i],
+            after,
+          }))
+        );
+      } catch (err) {
+        if (!(err instanceof BatchWriteError)) throw err;
+        for (const g of batch) {
+          results.push({ todo_id: g.before.id, status: "failed", error: err.message });
+        }
+      }
+      batch = [];
+    };
+    for (const group of groups) {
+      if (batch.reduce((n, g) => n + g.writes.length, 0) + group.writes.length > MAX_BATCH_WRITES) {
+        await flush();
+      }
+      batch.push(group);
+    }
+    await flush();
+
+    // Report in the order the todos were given (or listed)
+    const order = new Map(
+      ("ids" in target ? [...new Set(target.ids)] : targets.map((t) => t.id)).map((id, i) => [id, i])
+    );
+    results.sort((a, b) => order.get(a.todo_id)! - order.get(b.todo_id)!);
+    return { results, next_occurrences: nextOccurrences };
+  }
+
+  // ── Trash ────────────────────────────────────────────────────────────
+  //
+  // Deleted todos keep their document with a `deleted_at` stamp until the
+  // backend purges them after `trashRetentionDays` (Cosmos TTL, or a sweep
+  // in the in-memory and file stores).
+
+  get trashRetentionDays(): number {
+    return this.repo.trashRetentionDays;
+  }
+
+  async listTrash(userId: string, listId: string): Promise<TrashedTodo[]> {
+    await this.requireAccess(userId, listId, "viewer");
+    const retentionMs = this.repo.trashRetentionDays * 24 * 60 * 60 * 1000;
+    return (await this.repo.listTrash(listId)).map((t) => ({
+      ...t,
+      deleted_at: t.deleted_at!,
+      purge_at: new Date(Date.parse(t.deleted_at!) + retentionMs).toISOString(),
+    }));
+  }
+
+  /** Take a todo out of the trash. Returns null if it isn't in the trash. */
+  async restoreTodo(
+    userId: string,
+    listId: string,
+    todoId: string,
+    audit: AuditContext = {}
+  ): Promise<TodoItem | null> {
+    await this.requireAccess(userId, listId, "editor");
+
+    const trashed = await this.repo.get(listId, todoId);
+    if (!trashed?.deleted_at) return null;
+
+    const restored: TodoItem = { ...trashed, updated_at: new Date().toISOString() };
+    delete restored.deleted_at;
+    const saved = await this.repo.replace(restored);
+    await this.recordChanges(userId, listId, audit, [{ action: "restore", before: trashed, after: saved }]);
+    return saved;
+  }
+
+  /** Permanently delete everything in a list's trash. Returns how many were purged. */
+  async emptyTrash(userId: string, listId: string, audit: AuditContext = {}): Promise<number> {
+    await this.requireAccess(userId, listId, "editor");
+
+    const records: AuditRecord[] = [];
+    for (const todo of await this.repo.listTrash(listId)) {
+      if (await this.repo.delete(listId, todo.id)) {
+        records.push({ action: "purge", before: todo, after: null });
+      }
+    }
+    await this.recordChanges(userId, listId, audit, records);
+    return records.length;
+  }
+
+  // ── Import & export ──────────────────────────────────────────────────
+
+  /** A list's todos, in manual order, as a file in `format`. */
+  async exportTodos(
+    userId: string,
+    listId: string,
+    format: TodoFormat,
+    filter: TodoFilter = "all"
+  ): Promise<TodoExport> {
+    const list = await this.requireAccess(userId, listId, "viewer");
+    const { todos } = await this.repo.list(listId, { status: filter, sort: "manual" });
+    const slug = list.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return {
+      format,
+      mime_type: FORMAT_MIME_TYPES[format],
+      filename: `${slug || "todos"}.${FORMAT_EXTENSIONS[format]}`,
+      count: todos.length,
+      content: formatTodos(todos, format, list.name, new Date().toISOString()),
+    };
+  }
+
+  /**
+   * Import todos from a file. Records are matched to existing todos by
+   * external id (or by id, for an export of this list): matches are
+   * updated in place and the rest created at the top of the list, in file
+   * order, so importing the same file again changes nothing. Records
+   * matching a trashed todo are skipped. With `dryRun`, reports what would
+   * happen without writing anything.
+   */
+  async importTodos(
+    userId: string,
+    listId: string,
+    format: TodoFormat,
+    content: string,
+    options: { dryRun?: boolean } = {},
+    audit: AuditContext = {}
+  ): Promise<ImportResult> {
+    await this.requireAccess(userId, listId, "editor");
+
+    let parsed: ParsedImport;
+    try {
+      parsed = parseTodos(content, format);
+    } catch (err) {
+      if (err instanceof ImportFormatError) throw new TodoValidationError(err.message);
+      throw err;
+    }
+    const total = parsed.todos.length + parsed.issues.length;
+    if (total > MAX_IMPORT_TODOS) {
+      throw new TodoValidationError(
+        `That file has ${total} todos; imports are limited to ${MAX_IMPORT_TODOS}`
+      );
+    }
+
+    const existing = new Map<string, TodoItem>();
+    const { todos: live } = await this.repo.list(listId, { status: "all" });
+    for (const todo of [...live, ...(await this.repo.listTrash(listId))]) {
+      existing.set(todo.id, todo);
+      if (todo.external_id) existing.set(todo.external_id, todo);
+    }
+
+    const results: ImportItemResult[] = parsed.issues.map((issue) => ({ ...issue, status: "invalid" }));
+    const pending: { result: ImportItemResult; before: TodoItem | null; write: TodoWrite }[] = [];
+    const seen = new Set<string>();
+    const now = new Date().toISOString();
+    const top = await this.repo.positionAfter(listId, null);
+    let position: string | null = null;
+
+    for (const item of parsed.todos) {
+      const result: ImportItemResult = {
+        index: item.index,
+        external_id: item.external_id,
+        title: item.title,
+        status: "created",
+      };
+      results.push(result);
+
+      const match = existing.get(item.external_id);
+      if (seen.has(item.external_id)) {
+        result.status = "skipped";
+        result.error = "Same id as an earlier record in the file";
+        continue;
+      }
+      seen.add(item.external_id);
+      if (match?.deleted_at) {
+        result.status = "skipped";
+        result.todo_id = match.id;
+        result.error = "The matching todo is in the trash; restore it first";
+        continue;
+      }
+
+      try {
+        if (match) {
+          const updated = applyImport({ ...match, updated_at: now }, item, now);
+          result.todo_id = match.id;
+          result.changes = diffTodos(match, updated);
+          if (!result.changes.length) {
+            result.status = "unchanged";
+            delete result.changes;
+            continue;
+          }
+          result.status = "updated";
+          pending.push({ result, before: match, write: { op: "replace", todo: updated } });
+        } else {
+          const todo = applyImport(
+            {
+              id: crypto.randomUUID(),
+              user_id: listId,
+              title: item.title,
+              description: "",
+              completed: false,
+              external_id: item.external_id,
+              created_by: userId,
+              created_at: now,
+              updated_at: now,
+            },
+            item,
+            now
+          );
+          position = keyBetween(position, top);
+          todo.position = position;
+          result.changes = diffTodos(null, todo);
+          pending.push({ result, before: null, write: { op: "create", todo } });
+        }
+      } catch (err) {
+        if (!(err instanceof TodoValidationError)) throw err;
+        result.status = "invalid";
+        result.error = err.message;
+      }
+    }
+    results.sort((a, b) => a.index - b.index);
+    if (options.dryRun) return { dry_run: true, results };
+
+    for (let i = 0; i < pending.length; i += MAX_BATCH_WRITES) {
+      const chunk = pending.slice(i, i + MAX_BATCH_WRITES);
+      try {
+        const written = await this.repo.writeBatch(listId, chunk.map((p) => p.write));
+        chunk.forEach((p, j) => (p.result.todo_id = written[j].id));
+        await this.recordChanges(
+          userId,
+          listId,
+          audit,
+          chunk.map((p, j) => ({
+            action: p.before ? "update" : "create",
+            before: p.before,
+            after: written[j],
+          }))
+        );
+      } catch (err) {
+        if (!(err instanceof BatchWriteError)) throw err;
+        for (const { result } of chunk) {
+          result.status = "failed";
+          result.error = err.message;
+        }
+      }
+    }
+    return { dry_run: false, results };
+  }
+
+  // ── Subtasks ─────────────────────────────────────────────────────────
+  //
+  // Subtasks are embedded in the parent document, so each operation is a
+  // read-modify-replace of the todo. All return null if the todo or the
+  // subtask doesn't exist.
+
+  private async mutateSubtasks(
+    userId: string,
+    listId: string,
+    todoId: string,
+    audit: AuditContext,
+    mutate: (subtasks: Subtask[]) => boolean
+  ): Promise<TodoItem | null> {
+    await this.requireAccess(userId, listId, "editor");
+
+    const existing = await this.getTodo(listId, todoId);
+    if (!existing) return null;
+
+    const todo: TodoItem = { ...existing, subtasks: [...(existing.subtasks ?? [])] };
+    if (!mutate(todo.subtasks!)) return null;
+    if (todo.subtasks!.length === 0) delete todo.subtasks;
+    todo.updated_at = new Date().toISOString();
+
+    const saved = await this.repo.replace(todo);
+    await this.recordChanges(userId, listId, audit, [{ action: "update", before: existing, after: saved }]);
+    return saved;
+  }
+
+  async addSubtask(
+    userId: string,
+    listId: string,
+    todoId: string,
+    title: string,
+    audit: AuditContext = {}
+  ): Promise<TodoItem | null> {
+    return this.addSubtasks(userId, listId, todoId, [title], audit);
+  }
+
+  /** Append several subtasks in one write (e.g. accepted breakdown suggestions). */
+  async addSubtasks(
+    userId: string,
+    listId: string,
+    todoId: string,
+    titles: string[],
+    audit: AuditContext = {}
+  ): Promise<TodoItem | null> {
+    return this.mutateSubtasks(userId, listId, todoId, audit, (subtasks) => {
+      if (subtasks.length + titles.length > MAX_SUBTASKS) {
+        throw new TodoValidationError(`A todo can have at most ${MAX_SUBTASKS} subtasks`);
+      }
+      const now = new Date().toISOString();
+      for (const title of titles) {
+        subtasks.push({ id: crypto.randomUUID(), title, completed: false, created_at: now });
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Toggle a subtask. With `completeParent`, checking off the last open
+   * subtask completes the todo — as a toggle like `toggleTodo()`, so a
+   * recurring todo gets its next occurrence. It never reopens the todo:
+   * a completed todo stays completed whichever steps are (un)checked.
+   */
+  async toggleSubtask(
+    userId: string,
+    listId: string,
+    todoId: string,
+    subtaskId: string,
+    completeParent = false,
+    audit: AuditContext = {}
+  ): Promise<ToggleResult | null> {
+    if (!completeParent) {
+      const todo = await this.mutateSubtasks(userId, listId, todoId, audit, (subtasks) =>
+        flipSubtask(subtasks, subtaskId)
+      );
+      return todo && { todo };
+    }
+
+    await this.requireAccess(userId, listId, "editor");
+    const existing = await this.getTodo(listId, todoId);
+    if (!existing) return null;
+
+    const subtasks = [...(existing.subtasks ?? [])];
+    if (!flipSubtask(subtasks, subtaskId)) return null;
+    const now = new Date();
+    const todo: TodoItem = {
+      ...existing,
+      subtasks,
+      completed: existing.completed || subtasks.every((st) => st.completed),
+      updated_at: now.toISOString(),
+    };
+    if (todo.completed !== existing.completed) {
+      return this.saveToggle(userId, listId, audit, existing, todo, now);
+    }
+
+    const saved = await this.repo.replace(todo);
+    await this.recordChanges(userId, listId, audit, [{ action: "update", before: existing, after: saved }]);
+    return { todo: saved };
+  }
+
+  /** Move a subtask to `position` (0-based, clamped to the list). */
+  async reorderSubtask(
+    userId: string,
+    listId: string,
+    todoId: string,
+    subtaskId: string,
+    position: number,
+    audit: AuditContext = {}
+  ): Promise<TodoItem | null> {
+    return this.mutateSubtasks(userId, listId, todoId, audit, (subtasks) => {
+      const idx = subtasks.findIndex((st) => st.id === subtaskId);
+      if (idx === -1) return false;
+      const [moved] = subtasks.splice(idx, 1);
+      subtasks.splice(Math.max(0, Math.min(position, subtasks.length)), 0, moved);
+      return true;
+    });
+  }
+
+  async removeSubtask(
+    userId: string,
+    listId: string,
+    todoId: string,
+    subtaskId: string,
+    audit: AuditContext = {}
+  ): Promise<TodoItem | null> {
+    return this.mutateSubtasks(userId, listId, todoId, audit, (subtasks) => {
+      const idx = subtasks.findIndex((st) => st.id === subtaskId);
+      if (idx === -1) return false;
+      subtasks.splice(idx, 1);
+      return true;
+    });
+  }
+
+  /**
+   * Case-insensitive search over titles and descriptions, best matches
+   * first. The backend narrows to todos containing any term; ranking and
+   * paging happen here so every backend orders results the same way.
+   */
+  async searchTodos(
+    userId: string,
+    listId: string,
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchPage> {
+    await this.requireAccess(userId, listId, "viewer");
+
+    const terms = tokenize(query);
+    if (terms.length === 0) return { hits: [], total: 0 };
+
+    const candidates = await this.repo.search(listId, terms, options.filter ?? "all");
+    const ranked = rankTodos(candidates, query, terms);
+
+    const fingerprint = searchFingerprint(listId, query, options.filter ?? "all");
+    let offset = 0;
+    if (options.cursor) {
+      const decoded = decodeCursor<SearchCursor>(options.cursor);
+      if (decoded.f !== fingerprint || !Number.isInteger(decoded.o) || decoded.o < 0) {
+        throw new InvalidCursorError();
+      }
+      offset = decoded.o;
+    }
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const page: SearchPage = {
+      hits: ranked.slice(offset, offset + limit),
+      total: ranked.length,
+    };
+    if (offset + limit < ranked.length) {
+      page.next_cursor = encodeCursor<SearchCursor>({ f: fingerprint, o: offset + limit });
+    }
+    return page;
+  }
+
+  async listTags(userId: string, listId: string): Promise<TagCount[]> {
+    await this.requireAccess(userId, listId, "viewer");
+    return this.repo.countTags(listId);
+  }
+
+  async getStats(userId: string, listId: string): Promise<TodoStats> {
+    await this.requireAccess(userId, listId, "viewer");
+    const { total, completed, overdue } = await this.repo.count(listId, new Date().toISOString());
+    return { total, active: total - completed, completed, overdue };
+  }
+
+  // ── Microsoft To Do links ────────────────────────────────────────────
+  //
+  // Each user can link a list they can edit to one of their own Microsoft
+  // To Do lists (see graph/todo-sync.ts). Links belong to the user, so
+  // members of a shared list never see each other's.
+
+  async getGraphLink(userId: string, listId: string): Promise<GraphListLink | null> {
+    await this.requireAccess(userId, listId, "editor");
+    return this.repo.getGraphLink(listId, userId);
+  }
+
+  /** Save the caller's link; its `list_id` must be a list they can edit. */
+  async saveGraphLink(userId: string, link: GraphListLink): Promise<GraphListLink> {
+    await this.requireAccess(userId, link.list_id, "editor");
+    return this.repo.saveGraphLink({ ...link, user_id: userId });
+  }
+
+  async deleteGraphLink(userId: string, listId: string): Promise<boolean> {
+    await this.requireAccess(userId, listId, "editor");
+    return this.repo.deleteGraphLink(listId, userId);
+  }
+
+  // ── History ──────────────────────────────────────────────────────────
+  //
+  // Every write above appends one audit entry per changed todo: who made
+  // it (oid, OAuth client, MCP session, tool) and a field-level diff, then
+  // emits a change event. The write itself isn't rolled back if appending
+  // fails, so a lost entry is logged rather than surfaced as a failed write.
+
+  private async recordChanges(
+    userId: string,
+    listId: string,
+    context: AuditContext,
+    records: AuditRecord[]
+  ): Promise<void> {
+    const at = new Date().toISOString();
+    const entries: AuditEntry[] = [];
+    for (const { action, before, after } of records) {
+      const changes = after ? diffTodos(before, after) : [];
+      if (action === "update" && changes.length === 0) continue;
+      entries.push({
+        id: crypto.randomUUID(),
+        list_id: listId,
+        todo_id: (after ?? before)!.id,
+        action,
+        actor: userId,
+        ...context,
+        changes,
+        at,
+      });
+    }
+    if (!entries.length) return;
+
+    for (const entry of entries) this.localAuditIds.add(entry.id);
+    for (const id of this.localAuditIds) {
+      if (this.localAuditIds.size <= CHANGE_FEED_CAPACITY) break;
+      this.localAuditIds.delete(id);
+    }
+    try {
+      await this.repo.appendAudit(entries);
+    } catch (err) {
+      console.error(`Failed to record ${entries.length} audit entries for list ${listId}:`, err);
+    }
+
+    const todoIds = new Set(entries.map((e) => e.todo_id));
+    const latest = new Map<string, TodoItem>();
+    for (const { after } of records) {
+      if (after && todoIds.has(after.id)) latest.set(after.id, after);
+    }
+    this.emitChange({
+      list_id: listId,
+      todo_ids: [...todoIds],
+      todos: [...latest.values()],
+      actor: userId,
+      session_id: context.session_id,
+      at,
+    });
+  }
+
+  /**
+   * A todo's change history, newest first. Works for trashed and purged
+   * todos too; returns null if the todo has no history and doesn't exist.
+   */
+  async getTodoHistory(
+    userId: string,
+    listId: string,
+    todoId: string,
+    limit = DEFAULT_HISTORY_LIMIT
+  ): Promise<AuditEntry[] | null> {
+    await this.requireAccess(userId, listId, "viewer");
+
+    const entries = await this.repo.listAudit(listId, todoId, limit);
+    if (!entries.length && !(await this.repo.get(listId, todoId))) return null;
+    return entries;
+  }
+
+  // ── Change feed ──────────────────────────────────────────────────────
+  //
+  // Every change event is numbered and kept in a bounded buffer, so a
+  // client can ask for what changed in a list since the last event it saw
+  // and wait for the next one (the UI long-polls this to stay in sync with
+  // other sessions). Writes made through other server instances arrive via
+  // the repository's audit feed and are emitted the same way.
+
+  /** Position of the latest change in the feed, as a cursor for `getChanges`. */
+  get changeCursor(): number {
+    return this.feedSeq;
+  }
+
+  private emitChange(event: Omit<TodoChangeEvent, "seq">): void {
+    const numbered = { seq: ++this.feedSeq, ...event };
+    this.feed.push(numbered);
+    if (this.feed.length > CHANGE_FEED_CAPACITY) this.feed.shift();
+    this.changes.emit("change", numbered);
+  }
+
+  /** Emit change events for audit entries appended by other server instances. */
+  private async relayAudit(entries: AuditEntry[]): Promise<void> {
+    // One event per list, actor and session, like a local write
+    const groups = new Map<string, AuditEntry[]>();
+    for (const entry of entries) {
+      if (this.localAuditIds.has(entry.id)) continue;
+      const key = JSON.stringify([entry.list_id, entry.actor, entry.session_id ?? null]);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(entry);
+    }
+
+    for (const group of groups.values()) {
+      const { list_id, actor, session_id } = group[0];
+      const todoIds = [...new Set(group.map((e) => e.todo_id))];
+      try {
+        const todos = await Promise.all(todoIds.map((id) => this.repo.get(list_id, id)));
+        this.emitChange({
+          list_id,
+          todo_ids: todoIds,
+          todos: todos.filter((t): t is TodoItem => t !== null),
+          actor,
+          session_id,
+          at: group[group.length - 1].at,
+        });
+      } catch (err) {
+        console.error(`Failed to relay ${group.length} changes to list ${list_id}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Changes to a list after `cursor`, oldest first. Without a cursor, just
+   * returns the current one to start from. With `waitMs`, waits up to that
+   * long for a change if there are none yet (or until `signal` aborts).
+   */
+  async getChanges(
+    userId: string,
+    listId: string,
+    cursor?: number,
+    waitMs = 0,
+    signal?: AbortSignal
+  ): Promise<TodoChanges> {
+    await this.requireAccess(userId, listId, "viewer");
+    if (cursor === undefined) return { cursor: this.feedSeq, reset: false, changes: [] };
+
+    const result = this.readFeed(listId, cursor);
+    if (result.reset || result.changes.length || waitMs <= 0) return result;
+    await this.waitForChange(listId, waitMs, signal);
+    return this.readFeed(listId, cursor);
+  }
+
+  private readFeed(listId: string, cursor: number): TodoChanges {
+    const oldest = this.feed.length ? this.feed[0].seq : this.feedSeq + 1;
+    if (cursor > this.feedSeq || cursor < oldest - 1) {
+      return { cursor: this.feedSeq, reset: true, changes: [] };
+    }
+    const changes = this.feed.filter((e) => e.seq > cursor && e.list_id === listId);
+    return { cursor: this.feedSeq, reset: false, changes };
+  }
+
+  private waitForChange(listId: string, waitMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) return resolve();
+      const done = () => {
+        clearTimeout(timer);
+        this.changes.off("change", onChange);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const onChange = (event: TodoChangeEvent) => {
+        if (event.list_id === listId) done();
+      };
+      const timer = setTimeout(done, waitMs);
+      this.changes.on("change", onChange);
+      signal?.addEventListener("abort", done);
+    });
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+/** Flip one subtask in place; false if there's no subtask with that id. */
+function flipSubtask(subtasks: Subtask[], subtaskId: string): boolean {
+  const idx = subtasks.findIndex((st) => st.id === subtaskId);
+  if (idx === -1) return false;
+  subtasks[idx] = { ...subtasks[idx], completed: !subtasks[idx].completed };
+  return true;
+}
+
+/** Fail fast when the caller's copy of a todo is already out of date. */
+function checkEtag(todo: TodoItem, expectedEtag: string | undefined): void {
+  if (expectedEtag !== undefined && todo._etag !== expectedEtag) throw new TodoConflictError(todo);
+}
+
+function buildQuery(options: ListTodosOptions, now: Date): TodoQuery {
+  const query: TodoQuery = {
+    status: options.filter ?? "all",
+    priorities: options.priority?.length ? options.priority : undefined,
+    tags: options.tags?.length ? normalizeTags(options.tags) : undefined,
+    tagMatch: options.tagMatch,
+    sort: options.sort,
+  };
+
+  const { startOfToday, startOfTomorrow } = dayBounds(now, options.timeZone ?? "UTC");
+  if (options.due === "overdue") {
+    // Completed todos are never overdue, so this overrides `filter`
+    query.status = "active";
+    query.dueBefore = now.toISOString();
+  } else if (options.due === "today") {
+    query.dueAfter = startOfToday.toISOString();
+    query.dueBefore = startOfTomorrow.toISOString();
+  }
+  if (options.hideFuture) query.hideRecurringFrom = startOfTomorrow.toISOString();
+  return query;
+}
+
+/**
+ * Start of the calendar day containing `now` in `timeZone`, and of the next
+ * one. Days around DST changes are 23 or 25 hours long, so the next day is
+ * found by date, not by adding 24 hours.
+ */
+function dayBounds(now: Date, timeZone: string): { startOfToday: Date; startOfTomorrow: Date } {
+  const { year, month, day } = zonedDate(now, timeZone);
+  return {
+    startOfToday: zonedMidnight(year, month, day, timeZone),
+    startOfTomorrow: zonedMidnight(year, month, day + 1, timeZone),
+  };
+}
+
+/** The calendar date (month 0-based) it is at `now` in `timeZone`. */
+export function zonedDate(
+  now: Date,
+  timeZone: string
+): { year: number; month: number; day: number } {
+  let local: Date;
+  try {
+    local = new Date(now.getTime() + zoneOffsetMs(now, timeZone));
+  } catch {
+    throw new TodoValidationError(
+      `Unknown time zone "${timeZone}". Use an IANA name like "Europe/Berlin".`
+    );
+  }
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+}
+
+/**
+ * The instant local midnight starts a date in `timeZone`. Days past the
+ * end of the month roll over, as with `Date.UTC`.
+ */
+export function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month, day);
+  // The offset at midnight can differ from the offset now; one correction settles it
+  const guess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffsetMs(new Date(guess), timeZone));
+}
+
+/** How far `timeZone`'s wall clock is ahead of UTC at `at`, in ms. */
+function zoneOffsetMs(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return wallClock - (at.getTime() - at.getUTCMilliseconds());
+}
+
+/** list_todos cursor: listing fingerprint, pinned "now", backend cursor. */
+interface ListCursor {
+  f: string;
+  n: string;
+  c: string;
+}
+
+/** search_todos cursor: search fingerprint, offset into the ranked results. */
+interface SearchCursor {
+  f: string;
+  o: number;
+}
+
+function listingFingerprint(listId: string, filters: ListTodosOptions): string {
+  const key = JSON.stringify([
+    listId,
+    filters.filter ?? "all",
+    filters.due ?? null,
+    [...(filters.priority ?? [])].sort(),
+    normalizeTags(filters.tags ?? []).sort(),
+    filters.tagMatch ?? "any",
+    filters.hideFuture ?? false,
+    filters.timeZone ?? "UTC",
+    filters.sort ?? "manual",
+  ]);
+  return crypto.createHash("sha256").update(key).digest("base64url").slice(0, 16);
+}
+
+/** Ranking depends on the whole query (see search.ts), not just its terms. */
+function searchFingerprint(listId: string, query: string, filter: TodoFilter): string {
+  const key = JSON.stringify([listId, query.trim().toLowerCase(), filter]);
+  return crypto.createHash("sha256").update(key).digest("base64url").slice(0, 16);
+}
+
+function encodeCursor<T>(payload: T): string {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+function decodeCursor<T>(cursor: string): T {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (decoded && typeof decoded === "object") return decoded as T;
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError();
+}
+
+/** Trim, lowercase and de-duplicate tags, dropping empty ones. */
+function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((t) => t.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter((t) => t.length > 0);
+  return [...new Set(normalized)].slice(0, MAX_TAGS);
+}
+
+/**
+ * The todo with a bulk operation applied, or null if it wouldn't change.
+ * Deleting moves the todo to the trash, as `deleteTodo()` does.
+ */
+function applyBulkOperation(todo: TodoItem, operation: BulkOperation, now: string): TodoItem | null {
+  const updated: TodoItem = { ...todo, updated_at: now };
+  switch (operation.type) {
+    case "complete":
+    case "uncomplete": {
+      const completed = operation.type === "complete";
+      if (todo.completed === completed) return null;
+      updated.completed = completed;
+      return updated;
+    }
+    case "delete":
+      updated.deleted_at = now;
+      return updated;
+    case "add_tag":
+    case "remove_tag": {
+      const [tag] = normalizeTags([operation.tag!]);
+      const has = todo.tags?.includes(tag) ?? false;
+      if (has === (operation.type === "add_tag")) return null;
+      const tags = has ? todo.tags!.filter((t) => t !== tag) : normalizeTags([...(todo.tags ?? []), tag]);
+      if (tags.length === (todo.tags?.length ?? 0)) return null; // already at MAX_TAGS
+      applyDetails(updated, { tags });
+      return updated;
+    }
+    case "set_priority":
+      if ((todo.priority ?? null) === operation.priority) return null;
+      applyDetails(updated, { priority: operation.priority });
+      return updated;
+  }
+}
+
+/**
+ * Apply an imported record to a todo. Subtasks are replaced by the
+ * record's, keeping the ids of steps whose titles are unchanged.
+ */
+function applyImport(todo: TodoItem, item: ImportedTodo, now: string): TodoItem {
+  todo.title = item.title;
+  if (item.description !== undefined) todo.description = item.description;
+  if (item.completed !== undefined) todo.completed = item.completed;
+  applyDetails(todo, item);
+
+  if (item.subtasks) {
+    if (item.subtasks.length > MAX_SUBTASKS) {
+      throw new TodoValidationError(`A todo can have at most ${MAX_SUBTASKS} subtasks`);
+    }
+    const unused = [...(todo.subtasks ?? [])];
+    const subtasks = item.subtasks.map(({ title, completed }): Subtask => {
+      const idx = unused.findIndex((st) => st.title === title);
+      if (idx === -1) return { id: crypto.randomUUID(), title, completed, created_at: now };
+      const [kept] = unused.splice(idx, 1);
+      return { ...kept, completed };
+    });
+    if (subtasks.length) todo.subtasks = subtasks;
+    else delete todo.subtasks;
+  }
+  return todo;
+}
+
+/**
+ * Apply optional fields, normalizing dates, tags and recurrence rules and
+ * dropping nulls. Changing the rule of a recurring todo keeps its series
+ * and history.
+ */
+function applyDetails(todo: TodoItem, details: TodoDetails): void {
+  for (const field of ["due_at", "reminder_at"] as const) {
+    const value = details[field];
+    if (value === null) delete todo[field];
+    else if (value !== undefined) todo[field] = new Date(value).toISOString();
+  }
+  if (details.priority === null) delete todo.priority;
+  else if (details.priority !== undefined) todo.priority = details.priority;
+
+  if (details.tags !== undefined) {
+    const tags = normalizeTags(details.tags ?? []);
+    if (tags.length) todo.tags = tags;
+    else delete todo.tags;
+  }
+
+  if (details.recurrence === null) delete todo.recurrence;
+  else if (details.recurrence !== undefined) {
+    let rule: string;
+    try {
+      rule = normalizeRRule(details.recurrence);
+    } catch (err) {
+      if (err instanceof RecurrenceError) throw new TodoValidationError(err.message);
+      throw err;
+    }
+    todo.recurrence = todo.recurrence
+      ? { ...todo.recurrence, rule }
+      : { rule, series_id: todo.id, occurrence: 1, history: [] };
+  }
+}
@@ -1,20 +1,112 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
   registerAppTool,
   registerAppResource,
   RESOURCE_MIME_TYPE,
 } from "@modelcontextprotocol/ext-apps/server";
-import { TodoStore, TodoFilter } from "./store/cosmos-store.js";
+import {
+  TodoStore,
+  TodoFilter,
+  TodoItem,
+  ListAccessError,
+  InvalidCursorError,
+  TodoValidationError,
+  TodoConflictError,
+  AuditContext,
+  AuditEntry,
+  ImportItemResult,
+  TodoFormat,
+  TODO_FORMATS,
+  TodoChangeEvent,
+  ListTodosOptions,
+  GraphListLink,
+} from "./store/todo-store.js";
 import { getUserProfile } from "./auth/obo-helper.js";
+import { GraphRequestError, GraphTaskList, GraphTasksClient } from "./graph/graph-tasks.js";
+import { GraphSyncInProgressError, GraphSyncResult, syncWithGraph } from "./graph/todo-sync.js";
+import { Confirmation, ConfirmationGate, isPanelCall } from "./confirmation.js";
 import { todoAppHtml } from "./ui/todo-app.js";
 
 const UI_RESOURCE_URI = "ui://todo-app/view.html";
 
+const listIdParam = z
+  .string()
+  .optional()
+  .describe("ID of the list (from list_lists). Defaults to your personal list.");
+
+const priorityEnum = z.enum(["low", "medium", "high", "urgent"]);
+
+const tagsParam = z.array(z.string()).max(20);
+
+const recurrenceParam = z
+  .string()
+  .max(200)
+  .describe(
+    "Repeat schedule as an iCalendar RRULE, e.g. FREQ=DAILY, FREQ=WEEKLY;BYDAY=MO,TH, " +
+      "FREQ=MONTHLY;BYDAY=-1FR or FREQ=WEEKLY;INTERVAL=2;COUNT=10"
+  );
+
+const timeZoneParam = z
+  .string()
+  .max(64)
+  .optional()
+  .describe(
+    "The user's IANA time zone, e.g. Europe/Berlin, for what counts as today. Defaults to UTC."
+  );
+
+const etagParam = z
+  .string()
+  .optional()
+  .describe(
+    "_etag of the todo as you last saw it. If the todo has changed since, nothing is " +
+      "written and a conflict error with the current todo is returned."
+  );
+
+const formatEnum = z.enum(["json", "csv", "markdown", "ical"]);
+
+const confirmationTokenParam = z
+  .string()
+  .optional()
+  .describe(
+    "confirmation_token from an earlier \"are you sure\" result. Only pass it once the " +
+      "user has agreed, with the same arguments as before."
+  );
+
+/** Largest import accepted, in characters. */
+const MAX_IMPORT_LENGTH = 1_000_000;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Longest a watch_todos call waits for a change, in seconds. */
+const MAX_WATCH_SECONDS = 25;
+
+const DEFAULT_SUGGESTED_STEPS = 6;
+const MAX_SUGGESTED_STEPS = 10;
+const MAX_STEP_LENGTH = 200;
+/** How long decompose_todo waits for the client's model. */
+const SAMPLING_TIMEOUT_MS = 60_000;
+
+/** Views of a list served as `todo://lists/{filter}` resources. */
+const TODO_VIEWS = ["all", "active", "completed", "overdue", "today"] as const;
+type TodoView = (typeof TODO_VIEWS)[number];
+
+function viewOptions(view: TodoView): ListTodosOptions {
+  return view === "overdue" || view === "today" ? { due: view } : { filter: view };
+}
+
+const isoDate = z
+  .string()
+  .refine((v) => !Number.isNaN(Date.parse(v)), "Expected an ISO 8601 date or date-time");
+
 /**
  * Register all MCP tools and resources on the given server instance.
  */
 export function registerTools(server: McpServer, store: TodoStore): void {
+  // Asks the user before the model deletes anything (see confirmation.ts)
+  const confirmations = new ConfirmationGate(server);
+
   // ══════════════════════════════════════════════════════════════════════
   // UI Resource — the interactive Todo app panel
   // ══════════════════════════════════════════════════════════════════════
@@ -42,22 +134,1596 @@ export function registerTools(server: McpServer, store: TodoStore): void {
   );
 
   // ══════════════════════════════════════════════════════════════════════
-  // list_todos — visible to both model and app UI
+  // Export resources — a list as a file clients can attach as context
+  // ══════════════════════════════════════════════════════════════════════
+
+  const readExport = async (uri: URL, format: string, listId: string | null, extra: unknown) => {
+    const userId = extractUserId(extra);
+    if (!userId) throw new Error("Authentication required");
+    if (!TODO_FORMATS.includes(format as TodoFormat)) {
+      throw new Error(`Unknown export format '${format}' (expected ${TODO_FORMATS.join(", ")})`);
+    }
+    const file = await store.exportTodos(userId, listId ?? userId, format as TodoFormat);
+    return { contents: [{ uri: uri.href, mimeType: file.mime_type, text: file.content }] };
+  };
+  const completeFormat = (value: string) => TODO_FORMATS.filter((f) => f.startsWith(value));
+
+  server.registerResource(
+    "Todo export",
+    new ResourceTemplate("todos://export/{format}", {
+      list: async () => ({
+        resources: TODO_FORMATS.map((format) => ({
+          uri: `todos://export/${format}`,
+          name: `My Todos (${format})`,
+        })),
+      }),
+      complete: { format: completeFormat },
+    }),
+    {
+      title: "Todo export",
+      description: "Your personal todo list as JSON, CSV, Markdown or iCalendar (VTODO)",
+    },
+    (uri, { format }, extra) => readExport(uri, String(format), null, extra)
+  );
+
+  server.registerResource(
+    "Shared list export",
+    new ResourceTemplate("todos://export/{format}/{list_id}", {
+      list: async (extra) => {
+        const userId = extractUserId(extra);
+        const lists = userId ? (await store.listLists(userId)).filter((l) => l.shared) : [];
+        return {
+          resources: lists.flatMap((list) =>
+            TODO_FORMATS.map((format) => ({
+              uri: `todos://export/${format}/${list.id}`,
+              name: `${list.name} (${format})`,
+            }))
+          ),
+        };
+      },
+      complete: { format: completeFormat },
+    }),
+    {
+      title: "Shared list export",
+      description: "A shared todo list as JSON, CSV, Markdown or iCalendar (VTODO)",
+    },
+    (uri, { format, list_id }, extra) => readExport(uri, String(format), String(list_id), extra)
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // Todo resources — single todos and list views clients can subscribe to
+  // ══════════════════════════════════════════════════════════════════════
+
+  const itemTemplate = new ResourceTemplate("todo://items/{id}", { list: undefined });
+
+  const viewTemplate = new ResourceTemplate("todo://lists/{filter}", {
+    list: async () => ({
+      resources: TODO_VIEWS.map((view) => ({
+        uri: `todo://lists/${view}`,
+        name: `My Todos (${view})`,
+      })),
+    }),
+    complete: { filter: (value) => TODO_VIEWS.filter((v) => v.startsWith(value)) },
+  });
+
+  const sharedViewTemplate = new ResourceTemplate("todo://lists/{filter}/{list_id}", {
+    list: async (extra) => {
+      const userId = extractUserId(extra);
+      const lists = userId ? (await store.listLists(userId)).filter((l) => l.shared) : [];
+      return {
+        resources: lists.flatMap((list) =>
+          TODO_VIEWS.map((view) => ({
+            uri: `todo://lists/${view}/${list.id}`,
+            name: `${list.name} (${view})`,
+          }))
+        ),
+      };
+    },
+    complete: { filter: (value) => TODO_VIEWS.filter((v) => v.startsWith(value)) },
+  });
+
+  const findItem = async (todoId: string, extra: unknown) => {
+    const userId = extractUserId(extra);
+    if (!userId) throw new Error("Authentication required");
+    const found = await store.findTodo(userId, todoId);
+    if (!found) throw new Error(`Todo not found: ${todoId}`);
+    return found;
+  };
+
+  /** Resolve a view URI's filter and list, checking the caller can read the list. */
+  const resolveView = async (filter: string, listId: string | null, extra: unknown) => {
+    const userId = extractUserId(extra);
+    if (!userId) throw new Error("Authentication required");
+    if (!TODO_VIEWS.includes(filter as TodoView)) {
+      throw new Error(`Unknown filter '${filter}' (expected ${TODO_VIEWS.join(", ")})`);
+    }
+    const stats = await store.getStats(userId, listId ?? userId);
+    return { userId, view: filter as TodoView, listId: listId ?? userId, stats };
+  };
+
+  const readView = async (uri: URL, filter: string, listId: string | null, extra: unknown) => {
+    const resolved = await resolveView(filter, listId, extra);
+    const { todos } = await store.listTodos(resolved.userId, resolved.listId, viewOptions(resolved.view));
+    const body = {
+      list_id: resolved.listId,
+      filter: resolved.view,
+      todos: todos.map(withProgress),
+      stats: resolved.stats,
+    };
+    return {
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(body, null, 2) }],
+    };
+  };
+
+  server.registerResource(
+    "Todo",
+    itemTemplate,
+    {
+      title: "Todo",
+      description: "A single todo, with its subtask progress, from any list you can read",
+      mimeType: "application/json",
+    },
+    async (uri, { id }, extra) => {
+      const { list, todo } = await findItem(String(id), extra);
+      const body = { list_id: list.id, todo: withProgress(todo) };
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(body, null, 2) }],
+      };
+    }
+  );
+
+  server.registerResource(
+    "Todo view",
+    viewTemplate,
+    {
+      title: "Todo view",
+      description:
+        "Your personal list filtered to all, active, completed, overdue or today (UTC day), with stats",
+      mimeType: "application/json",
+    },
+    (uri, { filter }, extra) => readView(uri, String(filter), null, extra)
+  );
+
+  server.registerResource(
+    "Shared list view",
+    sharedViewTemplate,
+    {
+      title: "Shared list view",
+      description:
+        "A shared list filtered to all, active, completed, overdue or today (UTC day), with stats",
+      mimeType: "application/json",
+    },
+    (uri, { filter, list_id }, extra) => readView(uri, String(filter), String(list_id), extra)
+  );
+
+  // ── Subscriptions ──────────────────────────────────────────────────
+  // Subscribed URIs are kept per session, keyed to the list (and todo)
+  // they show. Any write to that list — from this session or another —
+  // sends notifications/resources/updated on the session's GET /mcp stream.
+
+  const subscriptions = new Map<string, { list_id: string; todo_id?: string }>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const item = itemTemplate.uriTemplate.match(uri);
+    if (item) {
+      const { list, todo } = await findItem(String(item.id), extra);
+      subscriptions.set(uri, { list_id: list.id, todo_id: todo.id });
+      return {};
+    }
+
+    const view =
+      sharedViewTemplate.uriTemplate.match(uri) ?? viewTemplate.uriTemplate.match(uri);
+    if (!view) throw new Error(`Not a subscribable resource: ${uri}`);
+    const listId = view.list_id === undefined ? null : String(view.list_id);
+    const resolved = await resolveView(String(view.filter), listId, extra);
+    subscriptions.set(uri, { list_id: resolved.listId });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const onChange = (event: TodoChangeEvent) => {
+    for (const [uri, sub] of subscriptions) {
+      if (sub.list_id !== event.list_id) continue;
+      if (sub.todo_id && !event.todo_ids.includes(sub.todo_id)) continue;
+      server.server.sendResourceUpdated({ uri }).catch((err) => {
+        console.error(`Failed to notify subscribers of ${uri}:`, err);
+      });
+    }
+  };
+  store.changes.on("change", onChange);
+  server.server.onclose = () => {
+    store.changes.off("change", onChange);
+  };
+
+  // ══════════════════════════════════════════════════════════════════════
+  // list_todos — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "list_todos",
+    {
+      title: "List Todos",
+      description:
+        "List the todo items in a list (the authenticated user's personal list by " +
+        "default). Returns todos with stats. Filter by 'all', 'active', or 'completed', " +
+        "by due date (overdue, today), priority and tags, optionally hiding upcoming " +
+        "occurrences of recurring todos, and sort manually (the user's " +
+        "own order), by creation, due date or priority. Returns up to `limit` todos (default 50); pass `next_cursor` back " +
+        "as `cursor` for the next page.",
+      inputSchema: {
+        filter: z
+          .enum(["all", "active", "completed"])
+          .optional()
+          .describe("Filter: all, active, or completed"),
+        due: z
+          .enum(["overdue", "today"])
+          .optional()
+          .describe(
+            "Only overdue todos (active, due before now) or todos due today (in time_zone)"
+          ),
+        priority: z
+          .array(priorityEnum)
+          .optional()
+          .describe("Only todos with one of these priorities"),
+        tags: tagsParam.optional().describe("Only todos with these tags"),
+        tag_match: z
+          .enum(["any", "all"])
+          .optional()
+          .describe("Match todos with any of the tags (default) or all of them"),
+        hide_future: z
+          .boolean()
+          .optional()
+          .describe("Hide recurring todos whose next occurrence is due after today (in time_zone)"),
+        time_zone: timeZoneParam,
+        sort: z
+          .enum(["manual", "created", "due", "priority"])
+          .optional()
+          .describe(
+            "Sort: manual (user's order, default), created (newest first), due (soonest first), priority (urgent first)"
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(200)
+          .optional()
+          .describe("Page size (default 50)"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("next_cursor from the previous page, with the same filters and sort"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async (
+      {
+        filter,
+        due,
+        priority,
+        tags,
+        tag_match,
+        hide_future,
+        time_zone,
+        sort,
+        limit,
+        cursor,
+        list_id,
+      },
+      extra
+    ) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const list = await store.requireAccess(userId, listId, "viewer");
+        // Taken before reading, so watch_todos replays anything written meanwhile
+        const changesCursor = store.changeCursor;
+        const filterVal: TodoFilter = (filter as TodoFilter) || "all";
+        const { todos, next_cursor } = await store.listTodos(userId, listId, {
+          filter: filterVal,
+          due,
+          priority,
+          tags,
+          tagMatch: tag_match,
+          hideFuture: hide_future,
+          timeZone: time_zone,
+          sort,
+          limit: limit ?? DEFAULT_PAGE_SIZE,
+          cursor,
+        });
+        const stats = await store.getStats(userId, listId);
+        const userName = extractUserName(extra);
+
+        const structured = {
+          action: "list",
+          todos: todos.map(withProgress),
+          stats,
+          user_name: userName || "User",
+          user_id: userId,
+          list_id: listId,
+          list_name: list.name,
+          role: list.role,
+          filter: filterVal,
+          due: due ?? null,
+          tags: tags ?? [],
+          hide_future: hide_future ?? false,
+          sort: sort ?? "manual",
+          cursor: cursor ?? null,
+          next_cursor: next_cursor ?? null,
+          changes_cursor: changesCursor,
+        };
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `Found ${todos.length} ${due ?? filterVal} todo(s) in "${list.name}". ` +
+                `Active: ${stats.active}, Completed: ${stats.completed}, Overdue: ${stats.overdue}` +
+                (next_cursor ? `\nMore todos: pass cursor "${next_cursor}".` : ""),
+            },
+          ],
+          structuredContent: structured,
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // watch_todos — app-only: long-poll for changes made in other sessions
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "watch_todos",
+    {
+      title: "Watch Todos",
+      description:
+        "Wait for changes to a list made anywhere — by the model, another window or " +
+        "another member — and return the changed todos as they are now.",
+      inputSchema: {
+        cursor: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("`changes_cursor` from list_todos, or `cursor` from the previous call"),
+        wait_seconds: z
+          .number()
+          .int()
+          .min(0)
+          .max(MAX_WATCH_SECONDS)
+          .optional()
+          .describe(`How long to wait for a change if there are none yet (default ${MAX_WATCH_SECONDS})`),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ cursor, wait_seconds, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const waitMs = (wait_seconds ?? MAX_WATCH_SECONDS) * 1000;
+        const feed = await store.getChanges(userId, listId, cursor, waitMs, extra.signal);
+        const { todos, removed } = latestTodos(feed.changes);
+        const stats = feed.changes.length ? await store.getStats(userId, listId) : undefined;
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: feed.reset
+                ? "Missed some changes; reload the list."
+                : `${todos.length + removed.length} todo(s) changed.`,
+            },
+          ],
+          structuredContent: {
+            action: "sync",
+            list_id: listId,
+            cursor: feed.cursor,
+            reset: feed.reset,
+            todos: todos.map(withProgress),
+            removed,
+            ...(stats && { stats }),
+          },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // add_todo — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "add_todo",
+    {
+      title: "Add Todo",
+      description:
+        "Add a new todo item to a list (the authenticated user's personal list by default). " +
+        "Give it a recurrence rule to make it repeat: completing it creates the next occurrence. " +
+        "Requires editor access on shared lists.",
+      inputSchema: {
+        title: z.string().describe("Title of the todo item"),
+        description: z
+          .string()
+          .optional()
+          .describe("Optional description"),
+        due_at: isoDate.optional().describe("When the todo is due (ISO 8601)"),
+        priority: priorityEnum.optional().describe("Priority: low, medium, high, or urgent"),
+        reminder_at: isoDate.optional().describe("When to remind the user (ISO 8601)"),
+        tags: tagsParam.optional().describe("Free-form tags, e.g. [\"work\", \"errands\"]"),
+        recurrence: recurrenceParam.optional(),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ title, description, due_at, priority, reminder_at, tags, recurrence, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.createTodo(
+          userId,
+          listId,
+          title,
+          description || "",
+          {
+            due_at,
+            priority,
+            reminder_at,
+            tags,
+            recurrence,
+          },
+          auditContext(extra, "add_todo")
+        );
+        const stats = await store.getStats(userId, listId);
+
+        return {
+          content: [
+            { type: "text" as const, text: `Created todo: "${todo.title}"` },
+          ],
+          structuredContent: { action: "created", list_id: listId, todo, stats },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // toggle_todo — app-only (callable from UI, hidden from LLM)
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "toggle_todo",
+    {
+      title: "Toggle Todo",
+      description:
+        "Mark a todo as complete or incomplete. Completing a recurring todo creates its " +
+        "next occurrence.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the todo to toggle"),
+        etag: etagParam,
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ todo_id, etag, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const result = await store.toggleTodo(
+          userId,
+          listId,
+          todo_id,
+          etag,
+          auditContext(extra, "toggle_todo")
+        );
+        if (!result) return notFoundError(todo_id);
+
+        const { todo, next_occurrence } = result;
+        const stats = await store.getStats(userId, listId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `Toggled "${todo.title}" → ${todo.completed ? "completed" : "active"}` +
+                (next_occurrence?.due_at ? `\nNext occurrence due ${next_occurrence.due_at}` : ""),
+            },
+          ],
+          structuredContent: {
+            action: "toggled",
+            list_id: listId,
+            todo,
+            next_occurrence: next_occurrence ?? null,
+            stats,
+          },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // edit_todo — app-only
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "edit_todo",
+    {
+      title: "Edit Todo",
+      description:
+        "Update the title, description, due date, priority, reminder, tags or recurrence of a " +
+        "todo. Pass null to clear a due date, priority, reminder or tags, or to stop repeating.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the todo to edit"),
+        title: z.string().describe("New title"),
+        description: z
+          .string()
+          .optional()
+          .describe("New description"),
+        due_at: isoDate.nullable().optional().describe("New due date (ISO 8601), or null to clear"),
+        priority: priorityEnum.nullable().optional().describe("New priority, or null to clear"),
+        reminder_at: isoDate.nullable().optional().describe("New reminder (ISO 8601), or null to clear"),
+        tags: tagsParam.nullable().optional().describe("Replacement tags, or null to clear"),
+        recurrence: recurrenceParam.nullable().optional(),
+        etag: etagParam,
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async (
+      { todo_id, title, description, due_at, priority, reminder_at, tags, recurrence, etag, list_id },
+      extra
+    ) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.updateTodo(
+          userId,
+          listId,
+          todo_id,
+          { title, description, due_at, priority, reminder_at, tags, recurrence },
+          etag,
+          auditContext(extra, "edit_todo")
+        );
+        if (!todo) return notFoundError(todo_id);
+
+        const stats = await store.getStats(userId, listId);
+        return {
+          content: [
+            { type: "text" as const, text: `Updated todo: "${todo.title}"` },
+          ],
+          structuredContent: { action: "updated", list_id: listId, todo, stats },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // delete_todo — visible to both model and app UI (the model's calls
+  // need the user's confirmation)
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "delete_todo",
+    {
+      title: "Delete Todo",
+      description:
+        "Move a todo item to the trash. It can be restored with restore_todo until it's " +
+        "purged after the retention period. The user is asked to confirm first.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the todo to delete"),
+        list_id: listIdParam,
+        confirmation_token: confirmationTokenParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: destructiveVisibility(confirmations, "delete_todo"),
+        },
+      },
+    },
+    async ({ todo_id, list_id, confirmation_token }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+      if (!isPanelCall(extra) && !confirmations.covers("delete_todo")) {
+        return appOnlyError("delete_todo");
+      }
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        // The todo the user is asked about must be the one deleted: look it up in listId only
+        await store.requireAccess(userId, listId, "editor");
+        const todo = await store.readTodo(userId, listId, todo_id);
+        if (!todo) return notFoundError(todo_id);
+
+        const args = { todo_id, list_id: listId };
+        const message =
+          `Move "${todo.title}" to the trash? It can be restored for ` +
+          `${store.trashRetentionDays} days.`;
+        const confirmation = await confirmations.confirm(
+          "delete_todo",
+          args,
+          confirmation_token,
+          message,
+          extra
+        );
+        if (!isConfirmed(confirmation)) {
+          return unconfirmedResult("delete_todo", args, message, confirmation, listId);
+        }
+
+        const deleted = await store.deleteTodo(
+          userId,
+          listId,
+          todo_id,
+          auditContext(extra, "delete_todo")
+        );
+        if (!deleted) return notFoundError(todo_id);
+
+        const stats = await store.getStats(userId, listId);
+        return {
+          content: [{ type: "text" as const, text: `Moved todo ${todo_id} to the trash` }],
+          structuredContent: {
+            action: "deleted",
+            list_id: listId,
+            todoId: todo_id,
+            stats,
+            confirmation,
+          },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // list_trash — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "list_trash",
+    {
+      title: "List Trash",
+      description:
+        "List the deleted todos in a list's trash, most recently deleted first, with when " +
+        "each will be purged for good.",
+      inputSchema: {
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todos = await store.listTrash(userId, listId);
+        const lines = todos.map((t) => `- ${t.title} (id: ${t.id}, purged ${t.purge_at})`);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: todos.length
+                ? `${todos.length} todo(s) in the trash:\n${lines.join("\n")}`
+                : "The trash is empty.",
+            },
+          ],
+          structuredContent: {
+            action: "trash",
+            list_id: listId,
+            todos,
+            retention_days: store.trashRetentionDays,
+          },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // restore_todo — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "restore_todo",
+    {
+      title: "Restore Todo",
+      description: "Move a todo from the trash back into its list.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the trashed todo (from list_trash)"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ todo_id, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.restoreTodo(
+          userId,
+          listId,
+          todo_id,
+          auditContext(extra, "restore_todo")
+        );
+        if (!todo) return storeError(`Todo not found in the trash: ${todo_id}`);
+
+        const stats = await store.getStats(userId, listId);
+        return {
+          content: [{ type: "text" as const, text: `Restored todo: "${todo.title}"` }],
+          structuredContent: { action: "restored", list_id: listId, todo, stats },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // empty_trash — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "empty_trash",
+    {
+      title: "Empty Trash",
+      description:
+        "Permanently delete every todo in a list's trash. This can't be undone, so the " +
+        "user is asked to confirm first. Requires editor access on shared lists.",
+      inputSchema: {
+        list_id: listIdParam,
+        confirmation_token: confirmationTokenParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: destructiveVisibility(confirmations, "empty_trash"),
+        },
+      },
+    },
+    async ({ list_id, confirmation_token }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+      if (!isPanelCall(extra) && !confirmations.covers("empty_trash")) {
+        return appOnlyError("empty_trash");
+      }
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const list = await store.requireAccess(userId, listId, "editor");
+        const trashed = await store.listTrash(userId, listId);
+
+        const args = { list_id: listId };
+        const message =
+          `Permanently delete ${trashed.length} todo(s) from the trash of "${list.name}"? ` +
+          "This can't be undone.";
+        // Nothing to lose when the trash is already empty
+        const confirmation: Confirmation = trashed.length
+          ? await confirmations.confirm("empty_trash", args, confirmation_token, message, extra)
+          : { required: false, outcome: "not_required" };
+        if (!isConfirmed(confirmation)) {
+          return unconfirmedResult("empty_trash", args, message, confirmation, listId);
+        }
+
+        const purged = await store.emptyTrash(userId, listId, auditContext(extra, "empty_trash"));
+
+        return {
+          content: [
+            { type: "text" as const, text: `Permanently deleted ${purged} todo(s) from the trash` },
+          ],
+          structuredContent: { action: "trash_emptied", list_id: listId, purged, confirmation },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // bulk_update_todos — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "bulk_update_todos",
+    {
+      title: "Bulk Update Todos",
+      description:
+        "Apply one operation to many todos at once: complete, uncomplete, delete (to the trash), " +
+        "add_tag, remove_tag or set_priority. Pick the todos with `todo_ids` or with `match` " +
+        "(e.g. { status: \"completed\" } to clear completed todos, or { tags: [\"x\"] }). " +
+        "Returns a result per todo. Deletes need `todo_ids` and the user is asked to confirm " +
+        "them first. Requires editor access on shared lists.",
+      inputSchema: {
+        operation: z
+          .enum(["complete", "uncomplete", "delete", "add_tag", "remove_tag", "set_priority"])
+          .describe("What to do to each todo"),
+        todo_ids: z.array(z.string()).min(1).max(500).optional().describe("IDs of the todos"),
+        match: z
+          .object({
+            status: z.enum(["all", "active", "completed"]).optional(),
+            due: z.enum(["overdue", "today"]).optional(),
+            priority: z.array(priorityEnum).optional(),
+            tags: tagsParam.optional(),
+            tag_match: z.enum(["any", "all"]).optional(),
+            time_zone: timeZoneParam,
+          })
+          .optional()
+          .describe("Select todos by filter instead of IDs (same meaning as list_todos)"),
+        tag: z.string().max(50).optional().describe("Tag for add_tag / remove_tag"),
+        priority: priorityEnum
+          .nullable()
+          .optional()
+          .describe("Priority for set_priority, or null to clear it"),
+        list_id: listIdParam,
+        confirmation_token: confirmationTokenParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async (
+      { operation, todo_ids, match, tag, priority, list_id, confirmation_token },
+      extra
+    ) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+      if (!todo_ids && !match) return storeError("Pass todo_ids or match");
+      if (todo_ids && match) return storeError("Pass either todo_ids or match, not both");
+      // A broad match could trash a whole list, so the model has to name each todo
+      if (operation === "delete" && !isPanelCall(extra)) {
+        if (!confirmations.covers("bulk_update_todos")) return appOnlyError("bulk_update_todos");
+        if (match) {
+          return storeError(
+            "Deleting needs todo_ids: list the todos first and pass the IDs of those to delete"
+          );
+        }
+      }
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const matchOptions = match && {
+          filter: match.status,
+          due: match.due,
+          priority: match.priority,
+          tags: match.tags,
+          tagMatch: match.tag_match,
+          timeZone: match.time_zone,
+        };
+
+        const args = { operation, todo_ids, match, tag, priority, list_id: listId };
+        let confirmation: Confirmation = { required: false, outcome: "not_required" };
+        if (confirmations.requires("bulk_update_todos", args, extra)) {
+          const list = await store.requireAccess(userId, listId, "editor");
+          const count = todo_ids
+            ? todo_ids.length
+            : (await store.listTodos(userId, listId, matchOptions)).todos.length;
+          const message = `Move ${count} todo(s) from "${list.name}" to the trash?`;
+          confirmation = await confirmations.confirm(
+            "bulk_update_todos",
+            args,
+            confirmation_token,
+            message,
+            extra
+          );
+          if (!isConfirmed(confirmation)) {
+            return unconfirmedResult("bulk_update_todos", args, message, confirmation, listId);
+          }
+        }
+
+        const { results, next_occurrences } = await store.bulkUpdateTodos(
+          userId,
+          listId,
+          todo_ids ? { ids: todo_ids } : { match: matchOptions! },
+          { type: operation, tag, priority },
+          auditContext(extra, "bulk_update_todos")
+        );
+        const stats = await store.getStats(userId, listId);
+
+        const counts = { updated: 0, unchanged: 0, not_found: 0, failed: 0 };
+        for (const r of results) counts[r.status]++;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `${operation}: ${counts.updated} updated, ${counts.unchanged} unchanged, ` +
+                `${counts.not_found} not found, ${counts.failed} failed` +
+                (next_occurrences.length ? `; ${next_occurrences.length} next occurrence(s) created` : ""),
+            },
+          ],
+          structuredContent: {
+            action: "bulk",
+            list_id: listId,
+            operation,
+            results,
+            counts,
+            next_occurrences,
+            stats,
+            confirmation,
+          },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // reorder_todo — app-only (drag and drop)
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "reorder_todo",
+    {
+      title: "Reorder Todo",
+      description: "Move a todo in the list's manual order, directly after another todo or to the top.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the todo to move"),
+        after_id: z
+          .string()
+          .nullable()
+          .optional()
+          .describe("ID of the todo it should follow; omit or null to move it to the top"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ todo_id, after_id, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.reorderTodo(
+          userId,
+          listId,
+          todo_id,
+          after_id ?? null,
+          auditContext(extra, "reorder_todo")
+        );
+        if (!todo) return notFoundError(after_id ? `${todo_id} or ${after_id}` : todo_id);
+
+        return {
+          content: [{ type: "text" as const, text: `Moved "${todo.title}"` }],
+          structuredContent: { action: "updated", list_id: listId, todo: withProgress(todo) },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // Subtasks — app-only checklist steps under a todo
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "add_subtask",
+    {
+      title: "Add Subtask",
+      description: "Append a checklist step to a todo.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the parent todo"),
+        title: z.string().min(1).describe("Title of the step"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ todo_id, title, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.addSubtask(
+          userId,
+          listId,
+          todo_id,
+          title,
+          auditContext(extra, "add_subtask")
+        );
+        if (!todo) return notFoundError(todo_id);
+
+        return {
+          content: [{ type: "text" as const, text: `Added step "${title}" to "${todo.title}"` }],
+          structuredContent: { action: "updated", list_id: listId, todo: withProgress(todo) },
+        };
+      });
+    }
+  );
+
+  registerAppTool(
+    server,
+    "toggle_subtask",
+    {
+      title: "Toggle Subtask",
+      description:
+        "Check or uncheck a checklist step. With complete_parent, finishing the last " +
+        "open step completes the todo (unchecking a step leaves the todo as it is).",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the parent todo"),
+        subtask_id: z.string().describe("ID of the step"),
+        complete_parent: z
+          .boolean()
+          .optional()
+          .describe("Complete the todo once all its steps are done"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ todo_id, subtask_id, complete_parent, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const result = await store.toggleSubtask(
+          userId,
+          listId,
+          todo_id,
+          subtask_id,
+          complete_parent ?? false,
+          auditContext(extra, "toggle_subtask")
+        );
+        if (!result) return subtaskNotFoundError(todo_id, subtask_id);
+
+        const { todo, next_occurrence } = result;
+        const stats = await store.getStats(userId, listId);
+        const { done, total } = subtaskProgress(todo);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `"${todo.title}": ${done}/${total} steps done` +
+                (next_occurrence?.due_at ? `\nNext occurrence due ${next_occurrence.due_at}` : ""),
+            },
+          ],
+          structuredContent: {
+            // Completing a recurring todo created its next occurrence
+            action: next_occurrence ? "toggled" : "updated",
+            list_id: listId,
+            todo: withProgress(todo),
+            ...(next_occurrence ? { next_occurrence } : {}),
+            stats,
+          },
+        };
+      });
+    }
+  );
+
+  registerAppTool(
+    server,
+    "reorder_subtask",
+    {
+      title: "Reorder Subtask",
+      description: "Move a checklist step to a new position (0 = first).",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the parent todo"),
+        subtask_id: z.string().describe("ID of the step to move"),
+        position: z.number().int().min(0).describe("New 0-based position"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ todo_id, subtask_id, position, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.reorderSubtask(
+          userId,
+          listId,
+          todo_id,
+          subtask_id,
+          position,
+          auditContext(extra, "reorder_subtask")
+        );
+        if (!todo) return subtaskNotFoundError(todo_id, subtask_id);
+
+        return {
+          content: [{ type: "text" as const, text: `Reordered steps of "${todo.title}"` }],
+          structuredContent: { action: "updated", list_id: listId, todo: withProgress(todo) },
+        };
+      });
+    }
+  );
+
+  registerAppTool(
+    server,
+    "remove_subtask",
+    {
+      title: "Remove Subtask",
+      description: "Delete a checklist step from a todo.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the parent todo"),
+        subtask_id: z.string().describe("ID of the step to remove"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ todo_id, subtask_id, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.removeSubtask(
+          userId,
+          listId,
+          todo_id,
+          subtask_id,
+          auditContext(extra, "remove_subtask")
+        );
+        if (!todo) return subtaskNotFoundError(todo_id, subtask_id);
+
+        return {
+          content: [{ type: "text" as const, text: `Removed a step from "${todo.title}"` }],
+          structuredContent: { action: "updated", list_id: listId, todo: withProgress(todo) },
+        };
+      });
+    }
+  );
+
+  registerAppTool(
+    server,
+    "add_subtasks",
+    {
+      title: "Add Subtasks",
+      description: "Append several checklist steps to a todo at once (accepted breakdown suggestions).",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the parent todo"),
+        titles: z.array(z.string().min(1).max(MAX_STEP_LENGTH)).min(1).max(MAX_SUGGESTED_STEPS),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["app"],
+        },
+      },
+    },
+    async ({ todo_id, titles, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const todo = await store.addSubtasks(
+          userId,
+          listId,
+          todo_id,
+          titles,
+          auditContext(extra, "add_subtasks")
+        );
+        if (!todo) return notFoundError(todo_id);
+
+        return {
+          content: [
+            { type: "text" as const, text: `Added ${titles.length} step(s) to "${todo.title}"` },
+          ],
+          structuredContent: { action: "updated", list_id: listId, todo: withProgress(todo) },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // decompose_todo — suggest subtasks with the client's model (sampling)
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "decompose_todo",
+    {
+      title: "Suggest Subtasks",
+      description:
+        "Ask the client's model (via MCP sampling) to split a todo into subtasks. Nothing " +
+        "is added: the user accepts or rejects the suggestions in the todo panel. If the " +
+        "client doesn't support sampling, no steps are returned — suggest some yourself.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the todo to break down"),
+        max_steps: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_SUGGESTED_STEPS)
+          .optional()
+          .describe(`Most steps to suggest (default ${DEFAULT_SUGGESTED_STEPS})`),
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ todo_id, max_steps }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      const found = await store.findTodo(userId, todo_id);
+      if (!found) return notFoundError(todo_id);
+      const { list, todo } = found;
+      if (list.role === "viewer") {
+        return storeError(`Your role on "${list.name}" is viewer; adding steps needs editor access`);
+      }
+
+      const noSteps = (message: string) => ({
+        content: [{ type: "text" as const, text: message }],
+        structuredContent: { action: "decompose", list_id: list.id, todo, steps: [], message },
+      });
+      if (!server.server.getClientCapabilities()?.sampling) {
+        return noSteps(
+          "This client doesn't support MCP sampling, so no steps were generated. " +
+            "Suggest steps yourself (the break_down_task prompt helps); the user can add " +
+            "them in the todo panel."
+        );
+      }
+
+      const existing = (todo.subtasks ?? []).map((st) => st.title);
+      const request = [
+        `Task: ${todo.title}`,
+        todo.description ? `Details: ${todo.description}` : null,
+        todo.due_at ? `Due: ${todo.due_at}` : null,
+        existing.length ? `Steps it already has:\n${existing.map((t) => `- ${t}`).join("\n")}` : null,
+        "",
+        `Split the task into at most ${max_steps ?? DEFAULT_SUGGESTED_STEPS} further concrete ` +
+          "steps, in order, each small enough to finish in one sitting and starting with a verb.",
+      ]
+        .filter((line) => line !== null)
+        .join("\n");
+
+      let reply: string;
+      try {
+        // JSON responses can't carry server requests, so this goes out on
+        // the session's GET /mcp stream rather than alongside the tool call
+        const result = await server.server.createMessage(
+          {
+            messages: [{ role: "user", content: { type: "text", text: request } }],
+            systemPrompt:
+              "You break tasks down into small, concrete steps. Reply with the steps " +
+              "only, one per line, with no numbering, bullets or commentary.",
+            maxTokens: 500,
+          },
+          { timeout: SAMPLING_TIMEOUT_MS, signal: extra.signal }
+        );
+        reply = result.content.type === "text" ? result.content.text : "";
+      } catch (err) {
+        console.error(`Sampling for todo ${todo.id} failed:`, err);
+        return noSteps(
+          `The client's model couldn't suggest steps (${err instanceof Error ? err.message : err}). ` +
+            "Suggest steps yourself; the user can add them in the todo panel."
+        );
+      }
+
+      const steps = parseSuggestedSteps(reply, existing, max_steps ?? DEFAULT_SUGGESTED_STEPS);
+      if (!steps.length) return noSteps("The client's model didn't suggest any new steps.");
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text:
+              `Suggested ${steps.length} step(s) for "${todo.title}":\n` +
+              steps.map((step) => `- ${step}`).join("\n") +
+              "\nThe user can accept or reject them in the todo panel.",
+          },
+        ],
+        structuredContent: { action: "decompose", list_id: list.id, todo, steps },
+      };
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // get_todo_history — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "get_todo_history",
+    {
+      title: "Get Todo History",
+      description:
+        "Show who changed a todo and how, newest first: each entry has the action, the " +
+        "user's oid, the client and session it came from, the tool used and the fields " +
+        "that changed. Also works for trashed and purged todos.",
+      inputSchema: {
+        todo_id: z.string().describe("ID of the todo"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(200)
+          .optional()
+          .describe("Most entries to return (default 50)"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ todo_id, limit, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const entries = await store.getTodoHistory(userId, listId, todo_id, limit);
+        if (!entries) return notFoundError(todo_id);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: entries.length
+                ? `${entries.length} change(s) to todo ${todo_id}, newest first:\n` +
+                  entries.map(describeAuditEntry).join("\n")
+                : `No recorded changes to todo ${todo_id}.`,
+            },
+          ],
+          structuredContent: { action: "history", list_id: listId, todoId: todo_id, entries },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // export_todos — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "export_todos",
+    {
+      title: "Export Todos",
+      description:
+        "Export a list's todos, in manual order, as JSON, CSV, a Markdown task list or " +
+        "iCalendar VTODOs. Each todo carries its id, so importing the file again with " +
+        "import_todos updates the same todos instead of duplicating them. The same export " +
+        "is available as the resource todos://export/{format} (todos://export/{format}/{list_id} " +
+        "for shared lists).",
+      inputSchema: {
+        format: formatEnum.describe("json, csv, markdown or ical"),
+        filter: z
+          .enum(["all", "active", "completed"])
+          .optional()
+          .describe("Which todos to export (default all)"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ format, filter, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const file = await store.exportTodos(userId, listId, format, filter);
+        const uri = `todos://export/${format}` + (listId === userId ? "" : `/${listId}`);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Exported ${file.count} todo(s) as ${file.filename}`,
+            },
+            {
+              type: "resource" as const,
+              resource: { uri, mimeType: file.mime_type, text: file.content },
+            },
+          ],
+          structuredContent: { action: "export", list_id: listId, ...file },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // import_todos — visible to both model and app UI
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "import_todos",
+    {
+      title: "Import Todos",
+      description:
+        "Import todos from JSON, CSV (with a header row including \"title\"), a Markdown " +
+        "task list (- [ ] / - [x]) or iCalendar VTODOs. Records are matched to existing " +
+        "todos by their id (or, without one, by title), so re-importing the same file " +
+        "updates instead of duplicating. Use dry_run to preview what would be created and " +
+        "changed. Requires editor access on shared lists.",
+      inputSchema: {
+        format: formatEnum.describe("json, csv, markdown or ical"),
+        content: z.string().max(MAX_IMPORT_LENGTH).describe("The file's contents"),
+        dry_run: z
+          .boolean()
+          .optional()
+          .describe("Report what would be created, updated or skipped without writing anything"),
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ format, content, dry_run, list_id }, extra) => {
+      const userId = extractUserId(extra);
+      if (!userId) return authError();
+
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const { results } = await store.importTodos(
+          userId,
+          listId,
+          format,
+          content,
+          { dryRun: dry_run },
+          auditContext(extra, "import_todos")
+        );
+        const stats = await store.getStats(userId, listId);
+
+        const counts: Record<ImportItemResult["status"], number> = {
+          created: 0,
+          updated: 0,
+          unchanged: 0,
+          skipped: 0,
+          invalid: 0,
+          failed: 0,
+        };
+        for (const r of results) counts[r.status]++;
+        const summary = Object.entries(counts)
+          .filter(([, n]) => n > 0)
+          .map(([status, n]) => `${n} ${status}`)
+          .join(", ");
+        const problems = results
+          .filter((r) => r.error)
+          .map((r) => `- #${r.index} ${r.title ?? ""} (${r.status}): ${r.error}`);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                (dry_run ? "Dry run — nothing was written. Would import: " : "Imported: ") +
+                (summary || "nothing") +
+                (problems.length ? `\n${problems.join("\n")}` : ""),
+            },
+          ],
+          structuredContent: {
+            action: "import",
+            list_id: listId,
+            dry_run: !!dry_run,
+            results,
+            counts,
+            stats,
+          },
+        };
+      });
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // search_todos — visible to both model and app UI
   // ══════════════════════════════════════════════════════════════════════
 
   registerAppTool(
     server,
-    "list_todos",
+    "search_todos",
     {
-      title: "List Todos",
+      title: "Search Todos",
       description:
-        "List all todo items for the authenticated user. Returns todos with stats. " +
-        "Filter by 'all', 'active', or 'completed'.",
+        "Search todo titles and descriptions in a list (the authenticated user's personal " +
+        "list by default). Case-insensitive; matches any word of the query and ranks " +
+        "todos matching more words, and matching in the title, higher. Returns " +
+        "highlighted snippets and a cursor for the next page.",
       inputSchema: {
+        query: z.string().min(1).describe("Words to search for"),
         filter: z
           .enum(["all", "active", "completed"])
           .optional()
           .describe("Filter: all, active, or completed"),
+        limit: z.number().int().min(1).max(50).optional().describe("Results per page (default 20)"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("next_cursor from the previous page, with the same query and filter"),
+        list_id: listIdParam,
       },
       _meta: {
         ui: {
@@ -66,52 +1732,47 @@ export function registerTools(server: McpServer, store: TodoStore): void {
         },
       },
     },
-    async ({ filter }, extra) => {
+    async ({ query, filter, limit, cursor, list_id }, extra) => {
       const userId = extractUserId(extra);
       if (!userId) return authError();
 
-      const filterVal: TodoFilter = (filter as TodoFilter) || "all";
-      const todos = await store.listTodos(userId, filterVal);
-      const stats = await store.getStats(userId);
-      const userName = extractUserName(extra);
-
-      const structured = {
-        action: "list",
-        todos,
-        stats,
-        user_name: userName || "User",
-        user_id: userId,
-        filter: filterVal,
-      };
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const page = await store.searchTodos(userId, listId, query, { filter, limit, cursor });
 
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Found ${todos.length} ${filterVal} todo(s). Active: ${stats.active}, Completed: ${stats.completed}`,
-          },
-        ],
-        structuredContent: structured,
-      };
+        const lines = page.hits.map((h) => `- ${h.todo.title} (id ${h.todo.id})`);
+        const more = page.next_cursor ? `\nMore results: pass cursor "${page.next_cursor}".` : "";
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                page.total === 0
+                  ? `No todos match "${query}"`
+                  : `${page.total} todo(s) match "${query}":\n${lines.join("\n")}${more}`,
+            },
+          ],
+          structuredContent: { action: "search", list_id: listId, query, cursor: cursor ?? null, ...page },
+        };
+      });
     }
   );
 
   // ══════════════════════════════════════════════════════════════════════
-  // add_todo — visible to both model and app UI
+  // list_tags — visible to both model and app UI
   // ══════════════════════════════════════════════════════════════════════
 
   registerAppTool(
     server,
-    "add_todo",
+    "list_tags",
     {
-      title: "Add Todo",
-      description: "Add a new todo item for the authenticated user.",
+      title: "List Tags",
+      description:
+        "List the tags used in a list (the authenticated user's personal list by " +
+        "default) with how many todos carry each, most used first.",
       inputSchema: {
-        title: z.string().describe("Title of the todo item"),
-        description: z
-          .string()
-          .optional()
-          .describe("Optional description"),
+        list_id: listIdParam,
       },
       _meta: {
         ui: {
@@ -120,139 +1781,144 @@ export function registerTools(server: McpServer, store: TodoStore): void {
         },
       },
     },
-    async ({ title, description }, extra) => {
+    async ({ list_id }, extra) => {
       const userId = extractUserId(extra);
       if (!userId) return authError();
 
-      const todo = await store.createTodo(userId, title, description || "");
-      const stats = await store.getStats(userId);
+      return withStoreErrors(async () => {
+        const listId = list_id || userId;
+        const tags = await store.listTags(userId, listId);
+        const summary = tags.map((t) => `${t.tag} (${t.count})`).join(", ");
 
-      return {
-        content: [
-          { type: "text" as const, text: `Created todo: "${todo.title}"` },
-        ],
-        structuredContent: { action: "created", todo, stats },
-      };
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: tags.length ? `${tags.length} tag(s): ${summary}` : "No tags in this list",
+            },
+          ],
+          structuredContent: { action: "tags", list_id: listId, tags },
+        };
+      });
     }
   );
 
   // ══════════════════════════════════════════════════════════════════════
-  // toggle_todo — app-only (callable from UI, hidden from LLM)
+  // list_lists — visible to both model and app UI
   // ══════════════════════════════════════════════════════════════════════
 
   registerAppTool(
     server,
-    "toggle_todo",
+    "list_lists",
     {
-      title: "Toggle Todo",
-      description: "Mark a todo as complete or incomplete.",
-      inputSchema: {
-        todo_id: z.string().describe("ID of the todo to toggle"),
-      },
+      title: "List Todo Lists",
+      description:
+        "List the todo lists the authenticated user can access: their personal list " +
+        "plus any shared lists, with the user's role on each.",
+      inputSchema: {},
       _meta: {
         ui: {
           resourceUri: UI_RESOURCE_URI,
-          visibility: ["app"],
+          visibility: ["model", "app"],
         },
       },
     },
-    async ({ todo_id }, extra) => {
+    async (_args, extra) => {
       const userId = extractUserId(extra);
       if (!userId) return authError();
 
-      const todo = await store.toggleTodo(userId, todo_id);
-      if (!todo) return notFoundError(todo_id);
+      const lists = await store.listLists(userId);
+      const summary = lists.map((l) => `"${l.name}" (${l.role}, id ${l.id})`).join(", ");
 
-      const stats = await store.getStats(userId);
       return {
         content: [
-          {
-            type: "text" as const,
-            text: `Toggled "${todo.title}" → ${todo.completed ? "completed" : "active"}`,
-          },
+          { type: "text" as const, text: `${lists.length} list(s): ${summary}` },
         ],
-        structuredContent: { action: "toggled", todo, stats },
+        structuredContent: { action: "lists", lists },
       };
     }
   );
 
   // ══════════════════════════════════════════════════════════════════════
-  // edit_todo — app-only
+  // create_list — visible to both model and app UI
   // ══════════════════════════════════════════════════════════════════════
 
   registerAppTool(
     server,
-    "edit_todo",
+    "create_list",
     {
-      title: "Edit Todo",
-      description: "Update the title and/or description of a todo.",
+      title: "Create List",
+      description:
+        "Create a named todo list that can be shared with other users. " +
+        "The caller becomes its owner.",
       inputSchema: {
-        todo_id: z.string().describe("ID of the todo to edit"),
-        title: z.string().describe("New title"),
-        description: z
-          .string()
-          .optional()
-          .describe("New description"),
+        name: z.string().min(1).max(100).describe("Name of the list"),
       },
       _meta: {
         ui: {
           resourceUri: UI_RESOURCE_URI,
-          visibility: ["app"],
+          visibility: ["model", "app"],
         },
       },
     },
-    async ({ todo_id, title, description }, extra) => {
+    async ({ name }, extra) => {
       const userId = extractUserId(extra);
       if (!userId) return authError();
 
-      const todo = await store.updateTodo(userId, todo_id, {
-        title,
-        description,
-      });
-      if (!todo) return notFoundError(todo_id);
-
-      const stats = await store.getStats(userId);
+      const list = await store.createList(userId, name);
       return {
         content: [
-          { type: "text" as const, text: `Updated todo: "${todo.title}"` },
+          { type: "text" as const, text: `Created list "${list.name}" (id ${list.id})` },
         ],
-        structuredContent: { action: "updated", todo, stats },
+        structuredContent: { action: "list_created", list },
       };
     }
   );
 
   // ══════════════════════════════════════════════════════════════════════
-  // delete_todo — app-only
+  // share_list — visible to both model and app UI
   // ══════════════════════════════════════════════════════════════════════
 
   registerAppTool(
     server,
-    "delete_todo",
+    "share_list",
     {
-      title: "Delete Todo",
-      description: "Delete a todo item permanently.",
+      title: "Share List",
+      description:
+        "Give another user access to a shared list, change their role, or remove " +
+        "them (role 'none'). Only list owners can share.",
       inputSchema: {
-        todo_id: z.string().describe("ID of the todo to delete"),
+        list_id: z.string().describe("ID of the shared list"),
+        user_id: z
+          .string()
+          .describe("Entra object ID (oid) of the user to add, update, or remove"),
+        role: z
+          .enum(["owner", "editor", "viewer", "none"])
+          .describe("Role to grant: owner, editor, viewer, or none to remove access"),
       },
       _meta: {
         ui: {
           resourceUri: UI_RESOURCE_URI,
-          visibility: ["app"],
+          visibility: ["model", "app"],
         },
       },
     },
-    async ({ todo_id }, extra) => {
+    async ({ list_id, user_id, role }, extra) => {
       const userId = extractUserId(extra);
       if (!userId) return authError();
 
-      const deleted = await store.deleteTodo(userId, todo_id);
-      if (!deleted) return notFoundError(todo_id);
+      return withStoreErrors(async () => {
+        const list = await store.shareList(userId, list_id, user_id, role);
+        const text =
+          role === "none"
+            ? `Removed ${user_id} from "${list.name}"`
+            : `Granted ${role} access on "${list.name}" to ${user_id}`;
 
-      const stats = await store.getStats(userId);
-      return {
-        content: [{ type: "text" as const, text: `Deleted todo ${todo_id}` }],
-        structuredContent: { action: "deleted", todoId: todo_id, stats },
-      };
+        return {
+          content: [{ type: "text" as const, text }],
+          structuredContent: { action: "list_shared", list },
+        };
+      });
     }
   );
 
@@ -312,15 +1978,228 @@ export function registerTools(server: McpServer, store: TodoStore): void {
       }
     }
   );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // link_graph_task_list — link a list to Microsoft To Do (OBO to Graph)
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "link_graph_task_list",
+    {
+      title: "Link Microsoft To Do List",
+      description:
+        "Link a todo list to one of your Microsoft To Do lists, so sync_with_microsoft_todo " +
+        "can keep them in step. Without graph_list_id or create, returns your To Do lists " +
+        "and the current link. Requires editor access on shared lists.",
+      inputSchema: {
+        list_id: listIdParam,
+        graph_list_id: z
+          .string()
+          .optional()
+          .describe("ID of the Microsoft To Do list to link (from a call without it)"),
+        create: z
+          .boolean()
+          .optional()
+          .describe("Create a new Microsoft To Do list named after this list and link it"),
+        unlink: z.boolean().optional().describe("Remove the current link instead"),
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ list_id, graph_list_id, create, unlink }, extra) => {
+      const userId = extractUserId(extra);
+      const token = extractToken(extra);
+      if (!userId || !token) return authError();
+      if (unlink && (graph_list_id || create)) {
+        return storeError("Pass unlink on its own, without graph_list_id or create");
+      }
+      if (graph_list_id && create) return storeError("Pass either graph_list_id or create, not both");
+
+      return withStoreErrors(() =>
+        withGraphErrors(async () => {
+          const listId = list_id || userId;
+          const list = await store.requireAccess(userId, listId, "editor");
+          const current = await store.getGraphLink(userId, listId);
+
+          if (unlink) {
+            await store.deleteGraphLink(userId, listId);
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: current
+                    ? `Unlinked "${list.name}" from Microsoft To Do list "${current.graph_list_name}"`
+                    : `"${list.name}" wasn't linked to Microsoft To Do`,
+                },
+              ],
+              structuredContent: { action: "graph_link", list_id: listId, link: null },
+            };
+          }
+
+          const graph = await GraphTasksClient.onBehalfOf(token);
+          if (!graph_list_id && !create) {
+            const graphLists = await graph.listTaskLists();
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text:
+                    (current
+                      ? `"${list.name}" is linked to "${current.graph_list_name}".`
+                      : `"${list.name}" isn't linked to Microsoft To Do.`) +
+                    `\nYour Microsoft To Do lists:\n` +
+                    graphLists.map((l) => `- ${l.displayName} (id: ${l.id})`).join("\n"),
+                },
+              ],
+              structuredContent: {
+                action: "graph_lists",
+                list_id: listId,
+                link: current && describeGraphLink(current),
+                graph_lists: graphLists,
+              },
+            };
+          }
+
+          const target: GraphTaskList = create
+            ? await graph.createTaskList(list.name)
+            : await graph.getTaskList(graph_list_id!);
+          // Relinking to the same To Do list keeps the mapping; a new one starts afresh
+          const link = await store.saveGraphLink(userId, {
+            list_id: listId,
+            user_id: userId,
+            graph_list_id: target.id,
+            graph_list_name: target.displayName,
+            linked_at: new Date().toISOString(),
+            items: current?.graph_list_id === target.id ? current.items : {},
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `Linked "${list.name}" to Microsoft To Do list "${target.displayName}". ` +
+                  "Run sync_with_microsoft_todo to sync them.",
+              },
+            ],
+            structuredContent: {
+              action: "graph_link",
+              list_id: listId,
+              link: describeGraphLink(link),
+            },
+          };
+        })
+      );
+    }
+  );
+
+  // ══════════════════════════════════════════════════════════════════════
+  // sync_with_microsoft_todo — two-way sync with the linked To Do list
+  // ══════════════════════════════════════════════════════════════════════
+
+  registerAppTool(
+    server,
+    "sync_with_microsoft_todo",
+    {
+      title: "Sync with Microsoft To Do",
+      description:
+        "Two-way sync of a todo list with the Microsoft To Do list it's linked to (see " +
+        "link_graph_task_list). New, changed and deleted items are copied both ways; when " +
+        "an item changed on both sides, the one updated last wins. Syncs title, notes, " +
+        "completion, due date, priority, reminder and tags. Requires editor access on " +
+        "shared lists.",
+      inputSchema: {
+        list_id: listIdParam,
+      },
+      _meta: {
+        ui: {
+          resourceUri: UI_RESOURCE_URI,
+          visibility: ["model", "app"],
+        },
+      },
+    },
+    async ({ list_id }, extra) => {
+      const userId = extractUserId(extra);
+      const token = extractToken(extra);
+      if (!userId || !token) return authError();
+
+      return withStoreErrors(() =>
+        withGraphErrors(async () => {
+          const listId = list_id || userId;
+          const link = await store.getGraphLink(userId, listId);
+          if (!link) {
+            return storeError(
+              "This list isn't linked to Microsoft To Do yet. Link it with link_graph_task_list first."
+            );
+          }
+
+          const graph = await GraphTasksClient.onBehalfOf(token);
+          const result = await syncWithGraph(
+            store,
+            graph,
+            userId,
+            link,
+            auditContext(extra, "sync_with_microsoft_todo")
+          );
+          const stats = await store.getStats(userId, listId);
+
+          return {
+            content: [{ type: "text" as const, text: describeGraphSync(result) }],
+            structuredContent: { action: "graph_sync", ...result, stats },
+          };
+        })
+      );
+    }
+  );
 }
 
 // ── Helpers ────────────────────────────────────────────────────────────
 
+/**
+ * Method of the notification server.ts pushes to every live session that
+ * can read a changed list. Its params are a watch_todos "sync" result for
+ * that one change, so the panel applies both the same way.
+ */
+export const TODOS_CHANGED_NOTIFICATION = "notifications/todos/changed";
+
+export function changeNotificationParams(event: TodoChangeEvent) {
+  const { todos, removed } = latestTodos([event]);
+  return {
+    action: "sync",
+    list_id: event.list_id,
+    cursor: event.seq,
+    reset: false,
+    todos: todos.map(withProgress),
+    removed,
+    actor: event.actor,
+    session_id: event.session_id ?? null,
+  };
+}
+
+/** The latest version of each todo changed in `changes`; purged ones are `removed`. */
+function latestTodos(changes: TodoChangeEvent[]): { todos: TodoItem[]; removed: string[] } {
+  const latest = new Map<string, TodoItem | null>();
+  for (const change of changes) {
+    for (const todoId of change.todo_ids) {
+      latest.set(todoId, change.todos.find((t) => t.id === todoId) ?? null);
+    }
+  }
+  return {
+    todos: [...latest.values()].filter((t): t is TodoItem => t !== null),
+    removed: [...latest].filter(([, t]) => !t).map(([id]) => id),
+  };
+}
+
 /**
  * Extract user ID from the tool's extra context.
  * The auth middleware sets `req.auth` which flows through as `authInfo` on the transport.
  */
-function extractUserId(extra: unknown): string | null {
+export function extractUserId(extra: unknown): string | null {
   const e = extra as {
     authInfo?: { token: string; claims?: { oid?: string } };
     _meta?: { authInfo?: { token: string; claims?: { oid?: string } } };
@@ -346,12 +2225,54 @@ function extractUserName(extra: unknown): string | null {
   );
 }
 
+/**
+ * Extract the Entra access token to use for OBO. With proxy-issued tokens
+ * this is the upstream token held server-side, not the client's bearer.
+ */
 function extractToken(extra: unknown): string | null {
   const e = extra as {
-    authInfo?: { token?: string };
-    _meta?: { authInfo?: { token?: string } };
+    authInfo?: { token?: string; upstreamToken?: string };
+    _meta?: { authInfo?: { token?: string; upstreamToken?: string } };
+  };
+  return (
+    e?.authInfo?.upstreamToken ??
+    e?._meta?.authInfo?.upstreamToken ??
+    e?.authInfo?.token ??
+    e?._meta?.authInfo?.token ??
+    null
+  );
+}
+
+/**
+ * Where a store write came from, for the audit log: the OAuth client and
+ * MCP session of the request, and the tool being called.
+ */
+function auditContext(extra: unknown, tool: string): AuditContext {
+  const e = extra as {
+    sessionId?: string;
+    authInfo?: { clientId?: string };
+    _meta?: { authInfo?: { clientId?: string } };
+  };
+  return {
+    client_id: e?.authInfo?.clientId ?? e?._meta?.authInfo?.clientId,
+    session_id: e?.sessionId,
+    tool,
   };
-  return e?.authInfo?.token ?? e?._meta?.authInfo?.token ?? null;
+}
+
+/** One line per audit entry, e.g. `- 2026-… update by <oid> via edit_todo: title "a" → "b"`. */
+function describeAuditEntry(entry: AuditEntry): string {
+  const source = [entry.tool && `via ${entry.tool}`, entry.client_id && `client ${entry.client_id}`]
+    .filter(Boolean)
+    .join(", ");
+  const changes = entry.changes
+    .map((c) => `${c.field} ${JSON.stringify(c.from) ?? "(unset)"} → ${JSON.stringify(c.to) ?? "(unset)"}`)
+    .join("; ");
+  return (
+    `- ${entry.at} ${entry.action} by ${entry.actor}` +
+    (source ? ` (${source})` : "") +
+    (changes ? `: ${changes}` : "")
+  );
 }
 
 function authError() {
@@ -370,6 +2291,216 @@ function authError() {
   };
 }
 
+function storeError(message: string) {
+  return {
+    content: [{ type: "text" as const, text: message }],
+    structuredContent: {
+      action: "error",
+      message,
+    },
+    isError: true,
+  };
+}
+
+/**
+ * Run a tool body that calls the store, turning expected failures
+ * (authorization, bad cursors, limits) into a tool error instead of a protocol error.
+ */
+async function withStoreErrors<T>(fn: () => Promise<T>) {
+  try {
+    return await fn();
+  } catch (err) {
+    if (
+      err instanceof ListAccessError ||
+      err instanceof InvalidCursorError ||
+      err instanceof TodoValidationError
+    ) {
+      return storeError(err.message);
+    }
+    if (err instanceof TodoConflictError) return conflictError(err);
+    throw err;
+  }
+}
+
+/**
+ * A write lost an optimistic-concurrency race. Carries the todo as it is
+ * now so the caller can merge and retry with its `_etag`.
+ */
+function conflictError(err: TodoConflictError) {
+  if (!err.current) return storeError("This todo was deleted by someone else");
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text:
+          `${err.message}. Nothing was changed. Current todo:\n` +
+          JSON.stringify(err.current, null, 2),
+      },
+    ],
+    structuredContent: {
+      action: "conflict",
+      message: err.message,
+      todo: err.current,
+    },
+    isError: true,
+  };
+}
+
+function subtaskProgress(todo: TodoItem): { done: number; total: number } {
+  const subtasks = todo.subtasks ?? [];
+  return { done: subtasks.filter((st) => st.completed).length, total: subtasks.length };
+}
+
+/** Add `progress` (done/total) to todos that have subtasks. */
+function withProgress(todo: TodoItem) {
+  return todo.subtasks?.length ? { ...todo, progress: subtaskProgress(todo) } : todo;
+}
+
+/**
+ * Steps from a sampled reply: one per line, with any bullets or numbering
+ * stripped, leaving out duplicates and steps the todo already has.
+ */
+function parseSuggestedSteps(reply: string, existing: string[], max: number): string[] {
+  const seen = new Set(existing.map((t) => t.toLowerCase()));
+  const steps: string[] = [];
+  for (const line of reply.split("\n")) {
+    const step = line.replace(/^\s*(?:(?:[-*•]|\d+[.)]|\[[ xX]?\])\s*)+/, "").trim();
+    if (!step || step.length > MAX_STEP_LENGTH || seen.has(step.toLowerCase())) continue;
+    seen.add(step.toLowerCase());
+    steps.push(step);
+    if (steps.length === max) break;
+  }
+  return steps;
+}
+
+/**
+ * Tools that destroy data are only offered to the model while its calls to
+ * them are confirmed (see TODO_CONFIRM_TOOLS); otherwise they're app-only.
+ */
+function destructiveVisibility(
+  confirmations: ConfirmationGate,
+  tool: string
+): ("model" | "app")[] {
+  return confirmations.covers(tool) ? ["model", "app"] : ["app"];
+}
+
+/** A destructive call from outside the panel that the model isn't allowed to make. */
+function appOnlyError(tool: string) {
+  return storeError(
+    `This ${tool} call can only be made from the todo panel while confirmation for it is ` +
+      "turned off"
+  );
+}
+
+function isConfirmed(confirmation: Confirmation): boolean {
+  return confirmation.outcome === "accepted" || confirmation.outcome === "not_required";
+}
+
+/**
+ * A destructive call that didn't run: the user declined or cancelled, or
+ * (without elicitation) it's waiting for them to answer "are you sure".
+ * `args` let the panel retry the call with the token.
+ */
+function unconfirmedResult(
+  tool: string,
+  args: Record<string, unknown>,
+  message: string,
+  confirmation: Confirmation,
+  listId: string
+) {
+  if (confirmation.outcome === "pending") {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text:
+            `Nothing was changed yet. This needs the user's confirmation: ${message}\n` +
+            `Ask the user. Only if they agree, call ${tool} again with the same arguments ` +
+            `and confirmation_token "${confirmation.confirmation_token}" ` +
+            `(valid until ${confirmation.expires_at}).`,
+        },
+      ],
+      structuredContent: {
+        action: "confirm",
+        list_id: listId,
+        tool,
+        arguments: args,
+        message,
+        confirmation,
+      },
+    };
+  }
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Nothing was changed: the user ${confirmation.outcome} the confirmation (${message})`,
+      },
+    ],
+    structuredContent: { action: "cancelled", list_id: listId, tool, message, confirmation },
+  };
+}
+
+/**
+ * Run a tool body that calls Microsoft Graph, turning Graph failures (no
+ * OBO token, throttling, a deleted To Do list) into a tool error.
+ */
+async function withGraphErrors<T>(fn: () => Promise<T>) {
+  try {
+    return await fn();
+  } catch (err) {
+    if (err instanceof GraphSyncInProgressError) return storeError(err.message);
+    if (err instanceof GraphRequestError) {
+      return storeError(
+        err.status === 404
+          ? "The Microsoft To Do list wasn't found. It may have been deleted; link another " +
+              `one with link_graph_task_list. (${err.message})`
+          : err.message
+      );
+    }
+    throw err;
+  }
+}
+
+/** A link without its per-todo mapping, which can be long. */
+function describeGraphLink(link: GraphListLink) {
+  return {
+    graph_list_id: link.graph_list_id,
+    graph_list_name: link.graph_list_name,
+    linked_at: link.linked_at,
+    last_synced_at: link.last_synced_at,
+    synced_todos: Object.keys(link.items).length,
+  };
+}
+
+function describeGraphSync(result: GraphSyncResult): string {
+  const counts = (c: GraphSyncResult["pushed"]) =>
+    `${c.created} created, ${c.updated} updated, ${c.deleted} deleted`;
+  const lines = [
+    `Synced with Microsoft To Do list "${result.graph_list_name}".`,
+    `To Do: ${counts(result.pushed)}. This list: ${counts(result.pulled)}.`,
+  ];
+  for (const c of result.conflicts) {
+    lines.push(
+      `Changed on both sides: "${c.title}" — kept the ${c.winner === "local" ? "local" : "To Do"} ` +
+        "version, which was updated last."
+    );
+  }
+  for (const f of result.failures) {
+    lines.push(`Not synced: "${f.title}" — ${f.error}`);
+  }
+  return lines.join("\n");
+}
+
+function subtaskNotFoundError(todoId: string, subtaskId: string) {
+  const message = `Todo ${todoId} or its subtask ${subtaskId} was not found`;
+  return {
+    content: [{ type: "text" as const, text: message }],
+    structuredContent: { action: "error", message },
+    isError: true,
+  };
+}
+
 function notFoundError(todoId: string) {
   return {
     content: [
@@ -92,6 +92,26 @@ export function todoAppHtml(): string {
       gap: 6px;
     }
 
+    .list-select {
+      padding: 2px 6px;
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      background: var(--input-bg);
+      color: var(--fg);
+      font-size: 14px;
+      font-weight: 600;
+    }
+
+    .role-badge {
+      background: var(--badge-bg);
+      color: var(--muted);
+      padding: 1px 6px;
+      border-radius: 10px;
+      font-size: 10px;
+      font-weight: 500;
+      text-transform: uppercase;
+    }
+
     .user-name {
       font-size: 12px;
       color: var(--muted);
@@ -113,6 +133,7 @@ export function todoAppHtml(): string {
 
     .stat-badge.active { color: var(--accent); }
     .stat-badge.done { color: var(--success); }
+    .stat-badge.overdue { color: var(--danger); }
 
     /* ── Add Form ── */
     .add-form {
@@ -134,6 +155,18 @@ export function todoAppHtml(): string {
 
     .add-form input:focus { border-color: var(--accent); }
 
+    .add-form select,
+    .add-form input[type="date"],
+    .edit-form select,
+    .sort-select {
+      padding: 4px 6px;
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      background: var(--input-bg);
+      color: var(--fg);
+      font-size: 12px;
+    }
+
     .btn {
       padding: 6px 12px;
       border: none;
@@ -183,6 +216,43 @@ export function todoAppHtml(): string {
       border-color: var(--accent);
     }
 
+    .sort-select { margin-left: auto; }
+
+    /* ── Infinite scroll ── */
+    .todo-scroll {
+      max-height: 480px;
+      overflow-y: auto;
+    }
+
+    .load-more-sentinel {
+      height: 1px;
+    }
+
+    .tag-bar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+      margin-bottom: 10px;
+    }
+
+    .tag-chip {
+      padding: 1px 8px;
+      border: 1px solid var(--border);
+      border-radius: 10px;
+      background: transparent;
+      color: var(--muted);
+      cursor: pointer;
+      font-size: 11px;
+    }
+
+    .tag-chip.active {
+      background: var(--accent);
+      color: #fff;
+      border-color: var(--accent);
+    }
+
+    .todo-meta .tag-chip { cursor: default; }
+
     /* ── Todo List ── */
     .todo-list {
       list-style: none;
@@ -227,6 +297,105 @@ export function todoAppHtml(): string {
       word-break: break-word;
     }
 
+    .todo-meta {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+      margin-top: 4px;
+    }
+
+    .meta-badge {
+      background: var(--badge-bg);
+      padding: 1px 6px;
+      border-radius: 10px;
+      font-size: 10px;
+      font-weight: 500;
+      color: var(--muted);
+    }
+
+    .meta-badge.priority-urgent { background: var(--danger); color: #fff; }
+    .meta-badge.priority-high { color: var(--danger); }
+    .meta-badge.priority-medium { color: var(--accent); }
+    .meta-badge.overdue { color: var(--danger); font-weight: 600; }
+
+    /* ── Subtasks ── */
+    .progress {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      cursor: pointer;
+    }
+
+    .progress-bar {
+      width: 40px;
+      height: 4px;
+      border-radius: 2px;
+      background: var(--border);
+      overflow: hidden;
+    }
+
+    .progress-fill {
+      height: 100%;
+      background: var(--success);
+    }
+
+    .subtask-list {
+      list-style: none;
+      margin-top: 6px;
+      padding-left: 4px;
+    }
+
+    .subtask-item {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 2px 0;
+      font-size: 12px;
+    }
+
+    .subtask-item.completed .subtask-title { text-decoration: line-through; color: var(--completed-fg); }
+    .subtask-title { flex: 1; word-break: break-word; }
+    .subtask-item .btn-icon { font-size: 11px; padding: 2px 4px; }
+
+    .proposal {
+      margin-top: 6px;
+      padding: 6px 8px;
+      border: 1px dashed var(--accent);
+      border-radius: 4px;
+      font-size: 12px;
+    }
+    .proposal-title { font-weight: 600; margin-bottom: 4px; }
+    .proposal label { display: flex; align-items: center; gap: 6px; padding: 2px 0; }
+    .proposal-actions { display: flex; gap: 6px; margin-top: 6px; }
+
+    .subtask-add {
+      width: 100%;
+      margin-top: 4px;
+      padding: 3px 8px;
+      border: 1px dashed var(--border);
+      border-radius: 3px;
+      background: transparent;
+      color: var(--fg);
+      font-size: 12px;
+      outline: none;
+    }
+
+    /* ── Drag and drop ── */
+    .drag-handle {
+      cursor: grab;
+      color: var(--muted);
+      opacity: 0;
+      user-select: none;
+      padding-top: 1px;
+    }
+
+    .todo-item:hover .drag-handle { opacity: 1; }
+    .todo-item.dragging { opacity: 0.4; }
+    .todo-item.drop-above { box-shadow: inset 0 2px 0 var(--accent); }
+    .todo-item.drop-below { box-shadow: inset 0 -2px 0 var(--accent); }
+
+    .todo-item.overdue { border-left: 3px solid var(--danger); }
+
     .todo-actions {
       display: flex;
       gap: 2px;
@@ -255,11 +424,27 @@ export function todoAppHtml(): string {
       outline: none;
     }
 
+    .edit-row {
+      display: flex;
+      gap: 4px;
+    }
+
     .edit-actions {
       display: flex;
       gap: 4px;
     }
 
+    .merge-title { font-size: 12px; color: var(--danger); }
+
+    .merge-row {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      font-size: 12px;
+    }
+
+    .merge-label { font-weight: 600; }
+
     .empty-state {
       text-align: center;
       padding: 24px;
@@ -287,6 +472,38 @@ export function todoAppHtml(): string {
 
     @keyframes spin { to { transform: rotate(360deg); }}
 
+    /* ── Search ── */
+    .search-bar {
+      display: flex;
+      gap: 6px;
+      margin-bottom: 10px;
+    }
+
+    .search-bar input {
+      flex: 1;
+      padding: 4px 10px;
+      border: 1px solid var(--border);
+      border-radius: 12px;
+      background: var(--input-bg);
+      color: var(--fg);
+      font-size: 12px;
+      outline: none;
+    }
+
+    .search-bar input:focus { border-color: var(--accent); }
+
+    .search-summary {
+      font-size: 11px;
+      color: var(--muted);
+      margin-bottom: 6px;
+    }
+
+    mark {
+      background: rgba(255, 200, 0, 0.35);
+      color: inherit;
+      border-radius: 2px;
+    }
+
     .error-msg {
       background: var(--danger);
       color: #fff;
@@ -296,6 +513,62 @@ export function todoAppHtml(): string {
       font-size: 12px;
     }
 
+    .confirm-bar {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 6px 8px;
+      border: 1px solid var(--danger);
+      border-radius: 4px;
+      margin-bottom: 8px;
+      font-size: 12px;
+    }
+    .confirm-bar span { flex: 1; }
+
+    /* ── Multi-select ── */
+    .bulk-bar {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 6px;
+      padding: 6px 8px;
+      margin-bottom: 10px;
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      background: var(--card-bg);
+      font-size: 12px;
+    }
+
+    .bulk-bar .bulk-count { margin-right: auto; color: var(--muted); }
+    .bulk-bar input { max-width: 90px; }
+    .select-box { margin-top: 2px; }
+
+    /* ── Undo toast ── */
+    .toast {
+      position: fixed;
+      left: 50%;
+      bottom: 12px;
+      transform: translateX(-50%);
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      background: var(--fg);
+      color: var(--bg);
+      padding: 6px 12px;
+      border-radius: 4px;
+      font-size: 12px;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.25);
+    }
+
+    .toast button {
+      background: none;
+      border: none;
+      color: inherit;
+      font-weight: 600;
+      text-decoration: underline;
+      cursor: pointer;
+    }
+
     .auth-required {
       text-align: center;
       padding: 32px 16px;
@@ -322,11 +595,41 @@ export function todoAppHtml(): string {
     // ── State ──
     let todos = [];
     let currentFilter = "all";
+    let currentSort = "manual";
+    let hideFuture = false;  // hide upcoming occurrences of recurring todos
+    let dragId = null;
+    let selectedTags = [];
+    let tagCounts = [];
+    let tagsListId = null;
+    let nextCursor = null;
+    let loadingMore = false;
+    let scrollObserver = null;
+    let expandedIds = new Set();  // todos whose checklist is open
+    let searchQuery = "";
+    let searchHits = null;  // null = not searching
+    let searchTotal = 0;
+    let searchCursor = null;
     let editingId = null;
+    let selecting = false;  // multi-select mode
+    let selectedIds = new Set();
+    let conflictTodo = null;  // server copy from the last conflict response
+    let conflict = null;  // { todoId, theirs, merged, fields } while a merge is offered
+    let undoDelete = null;  // { id, title } of the last deleted todo, while its toast shows
+    let undoTimer = null;
+    let proposal = null;  // { todoId, steps: [{ title, keep }] } suggested by decompose_todo
+    let pendingConfirm = null;  // { tool, message, arguments } the model wants confirmed
     let userName = "";
     let userId = null;
+    let lists = [];
+    let listsRequested = false;
+    let currentListId = null;
+    let currentListName = "My Todos";
+    let currentRole = "owner";
     let isLoading = false;
     let errorMsg = "";
+    let changesCursor = null;  // position in the server's change feed (see watchChanges)
+    let listLoadedAt = "";
+    let watching = false;
 
     // ── MCP App ──
     const app = new App(
@@ -352,6 +655,14 @@ export function todoAppHtml(): string {
       render();
     };
 
+    // Changes the server pushes to every session of this user (see server.ts).
+    // Hosts that don't pass them on still get them from watch_todos.
+    app.fallbackNotificationHandler = async (notification) => {
+      if (notification.method === "notifications/todos/changed" && notification.params) {
+        await applyPushedChange(notification.params);
+      }
+    };
+
     app.onhostcontextchanged = (ctx) => {
       if (ctx.theme) applyDocumentTheme(ctx.theme);
       if (ctx.styles?.variables) applyHostStyleVariables(ctx.styles.variables);
@@ -367,30 +678,160 @@ export function todoAppHtml(): string {
 
     function handleStructuredContent(data) {
       if (data.action === "list" && Array.isArray(data.todos)) {
-        todos = data.todos;
+        // A cursor means this is the next page of the current listing
+        todos = data.cursor ? todos.concat(data.todos) : data.todos;
+        nextCursor = data.next_cursor || null;
+        if (!data.cursor && typeof data.changes_cursor === "number") {
+          changesCursor = data.changes_cursor;
+          listLoadedAt = new Date().toISOString();
+          watchChanges();
+        }
         if (data.stats) updateStats(data.stats);
         if (data.user_name) userName = data.user_name;
         if (data.user_id) userId = data.user_id;
+        if (data.list_id) currentListId = data.list_id;
+        if (data.list_name) currentListName = data.list_name;
+        if (data.role) currentRole = data.role;
+        if (!listsRequested) {
+          listsRequested = true;
+          callTool("list_lists");
+        }
+        if (tagsListId !== currentListId) {
+          tagsListId = currentListId;
+          refreshTags();
+        }
+      } else if (data.action === "tags" && Array.isArray(data.tags)) {
+        tagCounts = data.tags;
+      } else if (data.action === "lists" && Array.isArray(data.lists)) {
+        lists = data.lists;
+      } else if (data.action === "list_created" && data.list) {
+        lists.push(data.list);
+      } else if (data.list_id && currentListId && data.list_id !== currentListId) {
+        // Change to a list that isn't on screen (e.g. the model added to another list)
+        return;
+      } else if (data.action === "sync" && Array.isArray(data.todos)) {
+        changesCursor = data.cursor;
+        if (data.reset) {
+          loadTodos();
+          return;
+        }
+        data.todos.forEach(applySyncedTodo);
+        (data.removed || []).forEach(dropTodo);
+      } else if (data.action === "confirm" && data.tool) {
+        // The model asked to delete something and the host can't ask the user itself
+        pendingConfirm = { tool: data.tool, message: data.message, arguments: data.arguments };
+      } else if (data.action === "decompose" && data.todo) {
+        if (data.steps?.length) {
+          proposal = { todoId: data.todo.id, steps: data.steps.map(title => ({ title, keep: true })) };
+          expandedIds.add(data.todo.id);
+        } else {
+          errorMsg = data.message || "No steps were suggested.";
+        }
+        // The model can ask for suggestions before this panel has loaded the list
+        if (!todos.some(t => t.id === data.todo.id)) {
+          currentListId = data.list_id;
+          loadTodos();
+        }
       } else if (data.action === "created" && data.todo) {
         todos.unshift(data.todo);
+      } else if (data.action === "search" && Array.isArray(data.hits)) {
+        // A cursor means this is the next page of the current search
+        searchHits = data.cursor && searchHits ? searchHits.concat(data.hits) : data.hits;
+        searchQuery = data.query || searchQuery;
+        searchTotal = data.total || 0;
+        searchCursor = data.next_cursor || null;
       } else if (data.action === "updated" && data.todo) {
         const idx = todos.findIndex(t => t.id === data.todo.id);
         if (idx !== -1) todos[idx] = data.todo;
+        syncSearchHit(data.todo);
       } else if (data.action === "toggled" && data.todo) {
         const idx = todos.findIndex(t => t.id === data.todo.id);
         if (idx !== -1) todos[idx] = data.todo;
+        syncSearchHit(data.todo);
+        // Completing a recurring todo creates its next occurrence
+        if (data.next_occurrence && !todos.some(t => t.id === data.next_occurrence.id)) {
+          todos.splice(idx + 1, 0, data.next_occurrence);
+        }
       } else if (data.action === "deleted" && data.todoId) {
+        const deleted = todos.find(t => t.id === data.todoId);
+        showUndoToast(data.todoId, deleted?.title || "Todo");
         todos = todos.filter(t => t.id !== data.todoId);
+        if (searchHits) searchHits = searchHits.filter(h => h.todo.id !== data.todoId);
+      } else if (data.action === "bulk" && Array.isArray(data.results)) {
+        data.results.forEach(r => {
+          if (r.status !== "updated" || !r.todo) return;
+          if (r.todo.deleted_at) {
+            todos = todos.filter(t => t.id !== r.todo.id);
+            if (searchHits) searchHits = searchHits.filter(h => h.todo.id !== r.todo.id);
+            selectedIds.delete(r.todo.id);
+          } else {
+            const idx = todos.findIndex(t => t.id === r.todo.id);
+            if (idx !== -1) todos[idx] = r.todo;
+            syncSearchHit(r.todo);
+          }
+        });
+        (data.next_occurrences || []).forEach(t => {
+          if (!todos.some(x => x.id === t.id)) todos.push(t);
+        });
+        const failed = data.results.filter(r => r.status === "failed").length;
+        if (failed) errorMsg = failed + " todo(s) couldn't be updated. Please try again.";
+      } else if (data.action === "import" && !data.dry_run) {
+        // Imported todos can land anywhere in the current order, so reload
+        if (data.counts.created || data.counts.updated) loadTodos();
+      } else if (data.action === "restored" && data.todo) {
+        if (!todos.some(t => t.id === data.todo.id)) todos.push(data.todo);
+        if (undoDelete?.id === data.todo.id) hideUndoToast();
       } else if (data.action === "user_info") {
         userName = data.displayName || "";
+      } else if (data.action === "conflict" && data.todo) {
+        // Someone else changed the todo first: show their version, maybe merge (see saveEdit)
+        const idx = todos.findIndex(t => t.id === data.todo.id);
+        if (idx !== -1) todos[idx] = data.todo;
+        syncSearchHit(data.todo);
+        conflictTodo = data.todo;
+        errorMsg = "This todo was changed elsewhere, so your change wasn't saved. It now shows the latest version.";
       } else if (data.action === "error") {
         errorMsg = data.message || "An error occurred";
       }
+      // Confirmed (or cancelled) some other way, e.g. in the chat
+      if (data.confirmation?.required && data.action !== "confirm") pendingConfirm = null;
       if (data.stats) updateStats(data.stats);
       render();
     }
 
-    let stats = { total: 0, active: 0, completed: 0 };
+    function showUndoToast(id, title) {
+      clearTimeout(undoTimer);
+      undoDelete = { id, title };
+      undoTimer = setTimeout(() => { hideUndoToast(); render(); }, 8000);
+    }
+
+    function hideUndoToast() {
+      clearTimeout(undoTimer);
+      undoDelete = null;
+    }
+
+    function syncSearchHit(todo) {
+      const hit = searchHits?.find(h => h.todo.id === todo.id);
+      if (hit) hit.todo = todo;
+    }
+
+    // A todo changed elsewhere: trashed ones leave the list, new ones go on top.
+    // Older ones not loaded yet turn up when paging.
+    function applySyncedTodo(todo) {
+      if (todo.deleted_at) return dropTodo(todo.id);
+      const idx = todos.findIndex(t => t.id === todo.id);
+      if (idx !== -1) todos[idx] = todo;
+      else if (!nextCursor || todo.created_at >= listLoadedAt) todos.unshift(todo);
+      syncSearchHit(todo);
+    }
+
+    function dropTodo(id) {
+      todos = todos.filter(t => t.id !== id);
+      if (searchHits) searchHits = searchHits.filter(h => h.todo.id !== id);
+      selectedIds.delete(id);
+    }
+
+    let stats = { total: 0, active: 0, completed: 0, overdue: 0 };
     function updateStats(s) { stats = s; }
 
     // ── Server Tool Calls ──
@@ -399,7 +840,13 @@ export function todoAppHtml(): string {
       errorMsg = "";
       render();
       try {
-        const result = await app.callServerTool({ name, arguments: args });
+        // Marks the call as the user's own click, so destructive tools don't ask
+        // again (PANEL_CALL_META in confirmation.ts)
+        const result = await app.callServerTool({
+          name,
+          arguments: args,
+          _meta: { "mcp-todo-app/panel": true },
+        });
         if (result.structuredContent) {
           handleStructuredContent(result.structuredContent);
         }
@@ -411,26 +858,269 @@ export function todoAppHtml(): string {
       render();
     }
 
+    // ── Live Sync ──
+    // Long-polls watch_todos so changes made by the model, other windows or
+    // other members show up without a reload. Polls skip callTool: one is
+    // always pending, and it shouldn't show as loading.
+    async function watchChanges() {
+      if (watching) return;
+      watching = true;
+      while (changesCursor !== null) {
+        try {
+          const result = await app.callServerTool({
+            name: "watch_todos",
+            arguments: listArgs({ cursor: changesCursor }),
+          });
+          const data = result.structuredContent;
+          if (data?.action !== "sync") {
+            await delay(5000);
+            continue;
+          }
+          // Re-rendering would wipe what's being typed, so apply it afterwards
+          while (editingId || conflict || isTyping()) await delay(1000);
+          handleStructuredContent(data);
+        } catch (err) {
+          console.error("watch_todos failed:", err);
+          await delay(5000);
+        }
+      }
+      watching = false;
+    }
+
+    async function applyPushedChange(data) {
+      // Already seen through watch_todos, or the list isn't loaded yet
+      if (changesCursor === null || data.cursor <= changesCursor) return;
+      while (editingId || conflict || isTyping()) await delay(1000);
+      if (data.cursor <= changesCursor) return;
+      handleStructuredContent(data);
+    }
+
+    function isTyping() {
+      const el = document.activeElement;
+      return !!el && el.matches("textarea, input:not([type=checkbox])") && !!el.value;
+    }
+
+    function delay(ms) {
+      return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    // Every todo call targets the list on screen; before the first
+    // list_todos result the server falls back to the personal list
+    function listArgs(args = {}) {
+      return currentListId ? { ...args, list_id: currentListId } : args;
+    }
+
+    // Filters, sort and tag chips are applied server-side so paging works
+    function listingArgs() {
+      const args = currentFilter === "overdue" ? { due: "overdue" } : { filter: currentFilter };
+      args.sort = currentSort;
+      if (hideFuture) args.hide_future = true;
+      args.time_zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      if (selectedTags.length) {
+        args.tags = selectedTags;
+        args.tag_match = "all";
+      }
+      return listArgs(args);
+    }
+
     async function loadTodos() {
-      await callTool("list_todos", { filter: currentFilter });
+      await callTool("list_todos", listingArgs());
+    }
+
+    async function loadMoreTodos() {
+      if (!nextCursor || loadingMore || isLoading) return;
+      loadingMore = true;
+      await callTool("list_todos", { ...listingArgs(), cursor: nextCursor });
+      loadingMore = false;
+      render();
     }
 
-    async function addTodo(title, description) {
+    async function moveTodo(todoId, targetId, below) {
+      // Work out the drop position in the order the user sees
+      const order = visibleTodos().map(t => t.id).filter(id => id !== todoId);
+      const idx = order.indexOf(targetId) + (below ? 1 : 0);
+      const afterId = idx > 0 ? order[idx - 1] : null;
+      await callTool("reorder_todo", listArgs({ todo_id: todoId, after_id: afterId }));
+    }
+
+    async function addSubtask(todoId, title) {
       if (!title.trim()) return;
-      await callTool("add_todo", { title: title.trim(), description: description?.trim() || "" });
+      await callTool("add_subtask", listArgs({ todo_id: todoId, title: title.trim() }));
+    }
+
+    async function decomposeTodo(todoId) {
+      proposal = null;
+      await callTool("decompose_todo", { todo_id: todoId });
+    }
+
+    async function acceptProposal() {
+      const { todoId, steps } = proposal;
+      const titles = steps.filter(s => s.keep).map(s => s.title);
+      proposal = null;
+      if (!titles.length) return render();
+      await callTool("add_subtasks", listArgs({ todo_id: todoId, titles }));
+    }
+
+    async function toggleSubtask(todoId, subtaskId) {
+      // Ticking the last step completes the todo
+      await callTool("toggle_subtask", listArgs({ todo_id: todoId, subtask_id: subtaskId, complete_parent: true }));
+    }
+
+    async function reorderSubtask(todoId, subtaskId, position) {
+      await callTool("reorder_subtask", listArgs({ todo_id: todoId, subtask_id: subtaskId, position }));
+    }
+
+    async function removeSubtask(todoId, subtaskId) {
+      await callTool("remove_subtask", listArgs({ todo_id: todoId, subtask_id: subtaskId }));
+    }
+
+    async function refreshTags() {
+      await callTool("list_tags", listArgs());
+    }
+
+    async function searchTodos(query, cursor) {
+      if (!query.trim()) return clearSearch();
+      const args = { query: query.trim() };
+      if (cursor) args.cursor = cursor;
+      await callTool("search_todos", listArgs(args));
+    }
+
+    function clearSearch() {
+      searchQuery = "";
+      searchHits = null;
+      searchCursor = null;
+      render();
+    }
+
+    async function switchList(listId) {
+      currentListId = listId;
+      editingId = null;
+      selectedTags = [];
+      nextCursor = null;
+      searchQuery = "";
+      searchHits = null;
+      todos = [];
+      await loadTodos();
+    }
+
+    async function addTodo(title, description, dueDate, priority, tagsText, recurrence) {
+      if (!title.trim()) return;
+      const args = { title: title.trim(), description: description?.trim() || "" };
+      if (dueDate) args.due_at = endOfLocalDay(dueDate);
+      if (priority) args.priority = priority;
+      if (recurrence) args.recurrence = recurrence;
+      const tags = parseTags(tagsText);
+      if (tags.length) args.tags = tags;
+      await callTool("add_todo", listArgs(args));
+      if (tags.length) await refreshTags();
+    }
+
+    function findTodo(todoId) {
+      return todos.find(t => t.id === todoId) || searchHits?.find(h => h.todo.id === todoId)?.todo;
     }
 
     async function toggleTodo(todoId) {
-      await callTool("toggle_todo", { todo_id: todoId });
+      // Send the version we're showing, so a stale toggle can't undo someone else's
+      await callTool("toggle_todo", listArgs({ todo_id: todoId, etag: findTodo(todoId)?._etag }));
     }
 
     async function deleteTodo(todoId) {
-      await callTool("delete_todo", { todo_id: todoId });
+      const hadTags = todos.find(t => t.id === todoId)?.tags?.length;
+      await callTool("delete_todo", listArgs({ todo_id: todoId }));
+      if (hadTags) await refreshTags();
+    }
+
+    async function bulkUpdate(args) {
+      await callTool("bulk_update_todos", listArgs(args));
+      if (args.operation === "delete" || args.tag) await refreshTags();
+    }
+
+    async function bulkUpdateSelected(args) {
+      if (selectedIds.size === 0) return;
+      await bulkUpdate({ ...args, todo_ids: [...selectedIds] });
+    }
+
+    async function confirmPending() {
+      const { tool, arguments: args } = pendingConfirm;
+      pendingConfirm = null;
+      await callTool(tool, args);
+      await refreshTags();
     }
 
-    async function editTodo(todoId, title, description) {
-      await callTool("edit_todo", { todo_id: todoId, title, description: description || "" });
+    async function undoLastDelete() {
+      if (!undoDelete) return;
+      const { id } = undoDelete;
+      hideUndoToast();
+      await callTool("restore_todo", listArgs({ todo_id: id }));
+      await refreshTags();
+    }
+
+    async function editTodo(todoId, title, description, dueDate, priority, tagsText, recurrence) {
+      await saveEdit(todoId, findTodo(todoId), {
+        title,
+        description: description || "",
+        // undefined = unchanged, so a precise due time set via chat survives an edit
+        due_at: dueDate === undefined ? undefined : dueDate ? endOfLocalDay(dueDate) : null,
+        priority: priority || null,
+        tags: parseTags(tagsText),
+        recurrence: recurrence || null,
+      });
+    }
+
+    // Save changes made to base. If someone else saved first, merge: fields
+    // only one side changed are combined automatically, and the user picks
+    // for fields both sides changed.
+    async function saveEdit(todoId, base, changes) {
+      conflictTodo = null;
+      await callTool("edit_todo", listArgs({ todo_id: todoId, etag: base?._etag, ...changes }));
+      const theirs = conflictTodo;
+      if (theirs && base) {
+        const { merged, fields } = mergeEdit(base, changes, theirs);
+        if (fields.length === 0) return saveEdit(todoId, theirs, merged);
+        conflict = { todoId, theirs, merged, fields };
+        errorMsg = "";
+        render();
+        return;
+      }
+      conflict = null;
       editingId = null;
+      await refreshTags();
+    }
+
+    const EDIT_FIELDS = [
+      ["title", "Title"], ["description", "Description"], ["due_at", "Due"],
+      ["priority", "Priority"], ["tags", "Tags"], ["recurrence", "Repeats"],
+    ];
+
+    // Comparable value of an editable field, from a todo or from edit_todo args
+    function fieldValue(source, field) {
+      let v = source[field];
+      if (field === "recurrence" && v && typeof v === "object") v = v.rule;
+      if (field === "tags") return (v || []).map(t => t.toLowerCase()).join(", ");
+      return v || "";
+    }
+
+    function formatFieldValue(field, v) {
+      if (!v) return "(none)";
+      if (field === "due_at") return new Date(v).toLocaleDateString();
+      if (field === "recurrence") return describeRecurrence(v);
+      return v;
+    }
+
+    // Three-way merge of our edit (changes to base) with the server's copy.
+    // merged holds our changed fields only, so the rest keep their values.
+    function mergeEdit(base, changes, theirs) {
+      const merged = { title: theirs.title };
+      const fields = [];
+      EDIT_FIELDS.forEach(([field, label]) => {
+        const mine = fieldValue(changes, field);
+        const original = fieldValue(base, field);
+        if (changes[field] === undefined || mine === original) return;
+        merged[field] = changes[field];
+        const current = fieldValue(theirs, field);
+        if (current !== original && current !== mine) fields.push({ field, label, mine, theirs: current });
+      });
+      return { merged, fields };
     }
 
     // ── Rendering ──
@@ -442,18 +1132,43 @@ export function todoAppHtml(): string {
         return;
       }
 
+      // Re-rendering replaces the scroll container, so keep its position
+      const scrollTop = document.getElementById("todo-scroll")?.scrollTop || 0;
+
       el.innerHTML = [
         renderHeader(),
         errorMsg ? '<div class="error-msg">' + escHtml(errorMsg) + '</div>' : '',
-        renderAddForm(),
-        renderFilterBar(),
-        isLoading ? '<div class="loading"><div class="spinner"></div>Loading...</div>' : '',
-        renderTodoList(),
+        pendingConfirm ? renderConfirmBar() : '',
+        currentRole !== "viewer" ? renderAddForm() : '',
+        renderSearchBar(),
+        searchHits ? '' : renderFilterBar(),
+        selecting && !searchHits ? renderBulkBar() : '',
+        isLoading && !loadingMore ? '<div class="loading"><div class="spinner"></div>Loading...</div>' : '',
+        searchHits ? renderSearchResults() : renderTodoList(),
+        undoDelete ? renderUndoToast() : '',
       ].join("");
 
+      const scroller = document.getElementById("todo-scroll");
+      if (scroller) scroller.scrollTop = scrollTop;
+
       attachEventListeners();
     }
 
+    function renderConfirmBar() {
+      return '<div class="confirm-bar" role="alertdialog">' +
+        '<span>' + escHtml(pendingConfirm.message || "Are you sure?") + '</span>' +
+        '<button class="btn btn-danger" id="confirm-yes">Yes</button>' +
+        '<button class="btn" id="confirm-no">No</button>' +
+      '</div>';
+    }
+
+    function renderUndoToast() {
+      return '<div class="toast" role="status">' +
+        '<span>Deleted "' + escHtml(undoDelete.title) + '"</span>' +
+        '<button id="undo-delete">Undo</button>' +
+      '</div>';
+    }
+
     function renderAuthRequired() {
       return '<div class="auth-required">' +
         '<h3>🔐 Sign in Required</h3>' +
@@ -461,15 +1176,27 @@ export function todoAppHtml(): string {
         '</div>';
     }
 
+    function renderListTitle() {
+      if (lists.length < 2) return escHtml(currentListName);
+      return '<select class="list-select" id="list-select">' +
+        lists.map(l =>
+          '<option value="' + escAttr(l.id) + '"' + (l.id === currentListId ? ' selected' : '') + '>' +
+          escHtml(l.name) + '</option>'
+        ).join("") +
+      '</select>';
+    }
+
     function renderHeader() {
       return '<div class="app-header">' +
         '<div class="app-title">' +
-          '📋 My Todos' +
+          '📋 ' + renderListTitle() +
+          (currentRole !== "owner" ? ' <span class="role-badge">' + escHtml(currentRole) + '</span>' : '') +
           (userName ? ' <span class="user-name">(' + escHtml(userName) + ')</span>' : '') +
         '</div>' +
         '<div class="stats">' +
           '<span class="stat-badge active">' + stats.active + ' active</span>' +
           '<span class="stat-badge done">' + stats.completed + ' done</span>' +
+          (stats.overdue ? '<span class="stat-badge overdue">' + stats.overdue + ' overdue</span>' : '') +
         '</div>' +
       '</div>';
     }
@@ -478,12 +1205,80 @@ export function todoAppHtml(): string {
       return '<div class="add-form">' +
         '<input type="text" id="new-title" placeholder="What needs to be done?" />' +
         '<input type="text" id="new-desc" placeholder="Description (optional)" style="max-width:160px" />' +
+        '<input type="text" id="new-tags" placeholder="Tags" title="Comma-separated tags" style="max-width:100px" />' +
+        '<input type="date" id="new-due" title="Due date" />' +
+        renderPrioritySelect("new-priority", "") +
+        renderRecurrenceSelect("new-recurrence", "") +
         '<button class="btn btn-primary" id="add-btn">Add</button>' +
       '</div>';
     }
 
+    function renderPrioritySelect(id, value) {
+      const options = [["", "No priority"], ["low", "Low"], ["medium", "Medium"], ["high", "High"], ["urgent", "Urgent"]];
+      return '<select id="' + id + '" title="Priority">' +
+        options.map(([v, label]) =>
+          '<option value="' + v + '"' + (v === value ? ' selected' : '') + '>' + label + '</option>'
+        ).join("") +
+      '</select>';
+    }
+
+    function renderRecurrenceSelect(id, value) {
+      const options = [
+        ["", "Doesn't repeat"],
+        ["FREQ=DAILY", "Daily"],
+        ["FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR", "Weekdays"],
+        ["FREQ=WEEKLY", "Weekly"],
+        ["FREQ=MONTHLY", "Monthly"],
+        ["FREQ=YEARLY", "Yearly"],
+      ];
+      // Keep a custom rule (e.g. set via chat) selectable so saving doesn't drop it
+      if (value && !options.some(([v]) => v === value)) options.push([value, describeRecurrence(value)]);
+      return '<select id="' + id + '" title="Repeat">' +
+        options.map(([v, label]) =>
+          '<option value="' + escAttr(v) + '"' + (v === value ? ' selected' : '') + '>' + escHtml(label) + '</option>'
+        ).join("") +
+      '</select>';
+    }
+
+    // Human-readable summary of the RRULE subset the server accepts
+    function describeRecurrence(rule) {
+      const parts = {};
+      rule.split(";").forEach(p => { const [k, v] = p.split("="); parts[k] = v; });
+      const units = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+      const adverbs = { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly" };
+      const unit = units[parts.FREQ];
+      if (!unit) return rule;
+      const interval = Number(parts.INTERVAL || 1);
+      let text = interval > 1 ? "Every " + interval + " " + unit + "s" : adverbs[parts.FREQ];
+
+      const dayNames = { MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun" };
+      const ordinals = { "1": "first", "2": "second", "3": "third", "4": "fourth", "5": "fifth", "-1": "last", "-2": "second to last" };
+      if (parts.BYDAY === "MO,TU,WE,TH,FR") {
+        text += " on weekdays";
+      } else if (parts.BYDAY) {
+        text += " on " + parts.BYDAY.split(",").map(d => {
+          const m = /^([+-]?[0-9]+)?([A-Z]{2})$/.exec(d);
+          if (!m) return d;
+          const ordinal = m[1] ? ordinals[String(Number(m[1]))] || m[1] : "";
+          return (ordinal ? "the " + ordinal + " " : "") + (dayNames[m[2]] || m[2]);
+        }).join(", ");
+      }
+      if (parts.BYMONTHDAY) {
+        text += " on " + parts.BYMONTHDAY.split(",").map(d =>
+          d === "-1" ? "the last day" : "day " + d
+        ).join(", ");
+      }
+      if (parts.COUNT) text += ", " + parts.COUNT + " times";
+      if (parts.UNTIL) {
+        const u = parts.UNTIL;
+        text += ", until " + new Date(Date.UTC(+u.slice(0, 4), +u.slice(4, 6) - 1, +u.slice(6, 8))).toLocaleDateString();
+      }
+      return text;
+    }
+
     function renderFilterBar() {
-      const filters = ["all", "active", "completed"];
+      const filters = ["all", "active", "completed", "overdue"];
+      const sorts = [["manual", "My order"], ["created", "Newest"], ["due", "Due date"], ["priority", "Priority"]];
       return '<div class="filter-bar">' +
         filters.map(f =>
           '<button class="filter-btn' + (currentFilter === f ? ' active' : '') +
@@ -491,45 +1286,280 @@ export function todoAppHtml(): string {
           f.charAt(0).toUpperCase() + f.slice(1) +
           '</button>'
         ).join("") +
+        '<button class="filter-btn' + (hideFuture ? ' active' : '') + '" id="hide-future-btn"' +
+          ' title="Hide recurring todos due after today">🔁 Hide upcoming</button>' +
+        (currentRole !== "viewer" ?
+          '<button class="filter-btn' + (selecting ? ' active' : '') + '" id="select-btn">Select</button>' +
+          (stats.completed ? '<button class="filter-btn" id="clear-completed-btn">Clear completed</button>' : '')
+        : '') +
+        '<select class="sort-select" id="sort-select" title="Sort">' +
+          sorts.map(([v, label]) =>
+            '<option value="' + v + '"' + (currentSort === v ? ' selected' : '') + '>' + label + '</option>'
+          ).join("") +
+        '</select>' +
+      '</div>' +
+      renderTagBar();
+    }
+
+    function renderBulkBar() {
+      const none = selectedIds.size === 0 ? ' disabled' : '';
+      return '<div class="bulk-bar">' +
+        '<span class="bulk-count">' + selectedIds.size + ' selected</span>' +
+        '<button class="btn" id="bulk-select-all">All</button>' +
+        '<button class="btn" data-bulk="complete"' + none + '>Complete</button>' +
+        '<button class="btn" data-bulk="uncomplete"' + none + '>Reopen</button>' +
+        '<button class="btn" data-bulk="delete"' + none + '>Delete</button>' +
+        '<select id="bulk-priority" title="Set the priority of the selected todos"' + none + '>' +
+          '<option value="" selected disabled>Priority…</option>' +
+          [["urgent", "Urgent"], ["high", "High"], ["medium", "Medium"], ["low", "Low"], ["none", "No priority"]]
+            .map(([v, label]) => '<option value="' + v + '">' + label + '</option>').join("") +
+        '</select>' +
+        '<input type="text" id="bulk-tag" placeholder="+ Tag" title="Add a tag to the selected todos"' + none + ' />' +
       '</div>';
     }
 
-    function renderTodoList() {
-      const filtered = currentFilter === "all" ? todos :
+    function renderSearchBar() {
+      return '<div class="search-bar">' +
+        '<input type="search" id="search-input" placeholder="🔍 Search todos" value="' + escAttr(searchQuery) + '" />' +
+        (searchHits ? '<button class="btn" id="search-clear">Clear</button>' : '') +
+      '</div>';
+    }
+
+    function renderSearchResults() {
+      const summary = '<div class="search-summary">' + searchTotal + ' result(s) for "' + escHtml(searchQuery) + '"</div>';
+      if (searchHits.length === 0) {
+        return summary + '<div class="empty-state">No matching todos.</div>';
+      }
+      return summary +
+        '<ul class="todo-list">' + searchHits.map(renderSearchHit).join("") + '</ul>' +
+        (searchCursor ? '<button class="btn" id="search-more">Load more</button>' : '');
+    }
+
+    function renderSearchHit(h) {
+      const t = h.todo;
+      return '<li class="todo-item' + (t.completed ? ' completed' : '') + '" data-id="' + t.id + '">' +
+        '<input type="checkbox" class="todo-checkbox" data-toggle="' + t.id + '"' +
+          (t.completed ? ' checked' : '') + (currentRole === "viewer" ? ' disabled' : '') + ' />' +
+        '<div class="todo-content">' +
+          '<div class="todo-title">' + highlight(t.title, h.title_highlights) + '</div>' +
+          (h.snippet ? '<div class="todo-desc">' + highlight(h.snippet.text, h.snippet.highlights) + '</div>' : '') +
+          renderTodoMeta(t) +
+        '</div>' +
+      '</li>';
+    }
+
+    // Escape text and wrap the [start, end) ranges in <mark>
+    function highlight(text, ranges) {
+      let html = "";
+      let pos = 0;
+      (ranges || []).forEach(([start, end]) => {
+        html += escHtml(text.slice(pos, start)) + '<mark>' + escHtml(text.slice(start, end)) + '</mark>';
+        pos = end;
+      });
+      return html + escHtml(text.slice(pos));
+    }
+
+    function renderTagBar() {
+      if (tagCounts.length === 0) return '';
+      return '<div class="tag-bar">' +
+        tagCounts.map(({ tag, count }) =>
+          '<button class="tag-chip' + (selectedTags.includes(tag) ? ' active' : '') +
+          '" data-tag="' + escAttr(tag) + '">#' + escHtml(tag) + ' ' + count + '</button>'
+        ).join("") +
+      '</div>';
+    }
+
+    function parseTags(text) {
+      return (text || "").split(",").map(t => t.trim()).filter(Boolean);
+    }
+
+    // ── Scheduling helpers ──
+    const PRIORITY_RANK = { low: 1, medium: 2, high: 3, urgent: 4 };
+
+    function isOverdue(t) {
+      return !t.completed && !!t.due_at && new Date(t.due_at) < new Date();
+    }
+
+    // A date picked in the UI means "by the end of that day" in the user's timezone
+    // Same rule as the server's hide_future: recurring and due after today (UTC)
+    function isUpcoming(t) {
+      if (!t.recurrence || !t.due_at) return false;
+      const now = new Date();
+      const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+      return new Date(t.due_at) >= tomorrow;
+    }
+
+    function endOfLocalDay(dateStr) {
+      return new Date(dateStr + "T23:59:59").toISOString();
+    }
+
+    function toDateInput(iso) {
+      if (!iso) return "";
+      const d = new Date(iso);
+      return d.getFullYear() + "-" + String(d.getMonth() + 1).padStart(2, "0") + "-" + String(d.getDate()).padStart(2, "0");
+    }
+
+    function sortTodos(list) {
+      const newestFirst = (a, b) => b.created_at.localeCompare(a.created_at);
+      if (currentSort === "manual") {
+        // Byte-wise position order, matching the server; unpositioned (older) todos last
+        return list.slice().sort((a, b) =>
+          a.position && b.position ? (a.position < b.position ? -1 : a.position > b.position ? 1 : 0) :
+          a.position ? -1 : b.position ? 1 : newestFirst(a, b));
+      }
+      if (currentSort === "due") {
+        return list.slice().sort((a, b) =>
+          a.due_at === b.due_at ? newestFirst(a, b) :
+          !a.due_at ? 1 : !b.due_at ? -1 : a.due_at.localeCompare(b.due_at));
+      }
+      if (currentSort === "priority") {
+        return list.slice().sort((a, b) =>
+          ((PRIORITY_RANK[b.priority] || 0) - (PRIORITY_RANK[a.priority] || 0)) || newestFirst(a, b));
+      }
+      return list.slice().sort(newestFirst);
+    }
+
+    function visibleTodos() {
+      const byStatus =
+        currentFilter === "all" ? todos :
         currentFilter === "active" ? todos.filter(t => !t.completed) :
+        currentFilter === "overdue" ? todos.filter(isOverdue) :
         todos.filter(t => t.completed);
+      // Selected tag chips narrow the list: a todo must carry all of them
+      return sortTodos(
+        byStatus.filter(t =>
+          selectedTags.every(tag => (t.tags || []).includes(tag)) && !(hideFuture && isUpcoming(t)))
+      );
+    }
+
+    // Drag and drop only makes sense when the list is shown in manual order
+    function canReorder() {
+      return currentSort === "manual" && currentRole !== "viewer" && !searchHits && !editingId && !selecting;
+    }
+
+    function renderTodoList() {
+      const filtered = visibleTodos();
 
       if (filtered.length === 0 && !isLoading) {
-        const msgs = { all: "No todos yet. Add one above!", active: "All done! 🎉", completed: "Nothing completed yet." };
+        const msgs = { all: "No todos yet. Add one above!", active: "All done! 🎉", completed: "Nothing completed yet.", overdue: "Nothing overdue. 👍" };
         return '<div class="empty-state">' + msgs[currentFilter] + '</div>';
       }
 
-      return '<ul class="todo-list">' +
-        filtered.map(t => editingId === t.id ? renderEditItem(t) : renderTodoItem(t)).join("") +
-      '</ul>';
+      return '<div class="todo-scroll" id="todo-scroll">' +
+        '<ul class="todo-list">' +
+          filtered.map(t =>
+            conflict?.todoId === t.id ? renderMergeItem(t) :
+            editingId === t.id ? renderEditItem(t) : renderTodoItem(t)
+          ).join("") +
+        '</ul>' +
+        (nextCursor ? '<div class="load-more-sentinel" id="load-more-sentinel"></div>' : '') +
+        (loadingMore ? '<div class="loading"><div class="spinner"></div>Loading more...</div>' : '') +
+      '</div>';
+    }
+
+    function renderTodoMeta(t) {
+      const badges = [];
+      if (t.subtasks?.length) {
+        const done = t.subtasks.filter(st => st.completed).length;
+        const pct = Math.round((done / t.subtasks.length) * 100);
+        badges.push('<span class="meta-badge progress" data-expand="' + t.id + '" title="Show steps">' +
+          '☑ ' + done + '/' + t.subtasks.length +
+          '<span class="progress-bar"><span class="progress-fill" style="width:' + pct + '%;display:block"></span></span>' +
+        '</span>');
+      }
+      if (t.priority) {
+        badges.push('<span class="meta-badge priority-' + escAttr(t.priority) + '">' + escHtml(t.priority) + '</span>');
+      }
+      if (t.due_at) {
+        badges.push('<span class="meta-badge' + (isOverdue(t) ? ' overdue' : '') + '" title="' + escAttr(new Date(t.due_at).toLocaleString()) + '">' +
+          (isOverdue(t) ? '⚠️ Overdue · ' : '📅 ') + escHtml(new Date(t.due_at).toLocaleDateString()) + '</span>');
+      }
+      if (t.recurrence) {
+        badges.push('<span class="meta-badge" title="' + escAttr(t.recurrence.rule) + '">🔁 ' +
+          escHtml(describeRecurrence(t.recurrence.rule)) + '</span>');
+      }
+      if (t.reminder_at) {
+        badges.push('<span class="meta-badge" title="Reminder">🔔 ' + escHtml(new Date(t.reminder_at).toLocaleString()) + '</span>');
+      }
+      (t.tags || []).forEach(tag => {
+        badges.push('<span class="tag-chip">#' + escHtml(tag) + '</span>');
+      });
+      return badges.length ? '<div class="todo-meta">' + badges.join("") + '</div>' : '';
     }
 
     function renderTodoItem(t) {
-      return '<li class="todo-item' + (t.completed ? ' completed' : '') + '" data-id="' + t.id + '">' +
+      const readOnly = currentRole === "viewer";
+      const draggable = canReorder();
+      return '<li class="todo-item' + (t.completed ? ' completed' : '') + (isOverdue(t) ? ' overdue' : '') + '" data-id="' + t.id + '"' +
+          (draggable ? ' draggable="true"' : '') + '>' +
+        (draggable ? '<span class="drag-handle" title="Drag to reorder">⠿</span>' : '') +
+        (selecting ? '<input type="checkbox" class="select-box" data-select="' + t.id + '"' +
+          (selectedIds.has(t.id) ? ' checked' : '') + ' title="Select" />' : '') +
         '<input type="checkbox" class="todo-checkbox" data-toggle="' + t.id + '"' +
-          (t.completed ? ' checked' : '') + ' />' +
+          (t.completed ? ' checked' : '') + (readOnly ? ' disabled' : '') + ' />' +
         '<div class="todo-content">' +
           '<div class="todo-title">' + escHtml(t.title) + '</div>' +
           (t.description ? '<div class="todo-desc">' + escHtml(t.description) + '</div>' : '') +
+          renderTodoMeta(t) +
+          (expandedIds.has(t.id) ? renderSubtasks(t, readOnly) : '') +
         '</div>' +
-        '<div class="todo-actions">' +
-          '<button class="btn-icon" data-edit="' + t.id + '" title="Edit">✏️</button>' +
-          '<button class="btn-icon" data-delete="' + t.id + '" title="Delete">🗑️</button>' +
-        '</div>' +
+        (readOnly ? '' :
+          '<div class="todo-actions">' +
+            '<button class="btn-icon" data-expand="' + t.id + '" title="Steps">☰</button>' +
+            '<button class="btn-icon" data-edit="' + t.id + '" title="Edit">✏️</button>' +
+            '<button class="btn-icon" data-delete="' + t.id + '" title="Delete">🗑️</button>' +
+          '</div>') +
       '</li>';
     }
 
+    function renderSubtasks(t, readOnly) {
+      const subtasks = t.subtasks || [];
+      return '<ul class="subtask-list">' +
+        subtasks.map((st, i) =>
+          '<li class="subtask-item' + (st.completed ? ' completed' : '') + '">' +
+            '<input type="checkbox" data-subtask-toggle="' + st.id + '" data-todo="' + t.id + '"' +
+              (st.completed ? ' checked' : '') + (readOnly ? ' disabled' : '') + ' />' +
+            '<span class="subtask-title">' + escHtml(st.title) + '</span>' +
+            (readOnly ? '' :
+              (i > 0 ? '<button class="btn-icon" data-subtask-move="' + st.id + '" data-todo="' + t.id + '" data-position="' + (i - 1) + '" title="Move up">↑</button>' : '') +
+              (i < subtasks.length - 1 ? '<button class="btn-icon" data-subtask-move="' + st.id + '" data-todo="' + t.id + '" data-position="' + (i + 1) + '" title="Move down">↓</button>' : '') +
+              '<button class="btn-icon" data-subtask-remove="' + st.id + '" data-todo="' + t.id + '" title="Remove">✕</button>') +
+          '</li>'
+        ).join("") +
+        (readOnly ? '' :
+          '<li><input type="text" class="subtask-add" data-subtask-add="' + t.id + '" placeholder="+ Add a step" /></li>' +
+          (proposal?.todoId === t.id ? '<li>' + renderProposal() + '</li>' :
+            '<li><button class="btn-icon" data-decompose="' + t.id + '" title="Ask the model to suggest steps">✨ Suggest steps</button></li>')) +
+      '</ul>';
+    }
+
+    function renderProposal() {
+      return '<div class="proposal">' +
+        '<div class="proposal-title">✨ Suggested steps — keep the ones you want:</div>' +
+        proposal.steps.map((s, i) =>
+          '<label><input type="checkbox" data-proposal-step="' + i + '"' + (s.keep ? ' checked' : '') + ' /> ' +
+            escHtml(s.title) + '</label>'
+        ).join("") +
+        '<div class="proposal-actions">' +
+          '<button class="btn btn-primary" id="proposal-accept">Add selected</button>' +
+          '<button class="btn" id="proposal-dismiss">Dismiss</button>' +
+        '</div>' +
+      '</div>';
+    }
+
     function renderEditItem(t) {
       return '<li class="todo-item" data-id="' + t.id + '">' +
         '<div class="edit-form">' +
           '<input type="text" id="edit-title-' + t.id + '" value="' + escAttr(t.title) + '" />' +
           '<input type="text" id="edit-desc-' + t.id + '" value="' + escAttr(t.description || '') +
             '" placeholder="Description" />' +
+          '<input type="text" id="edit-tags-' + t.id + '" value="' + escAttr((t.tags || []).join(", ")) +
+            '" placeholder="Tags (comma-separated)" />' +
+          '<div class="edit-row">' +
+            '<input type="date" id="edit-due-' + t.id + '" value="' + toDateInput(t.due_at) + '" title="Due date" />' +
+            renderPrioritySelect("edit-priority-" + t.id, t.priority || "") +
+            renderRecurrenceSelect("edit-recurrence-" + t.id, t.recurrence?.rule || "") +
+          '</div>' +
           '<div class="edit-actions">' +
             '<button class="btn btn-primary" data-save="' + t.id + '">Save</button>' +
             '<button class="btn" data-cancel="' + t.id + '">Cancel</button>' +
@@ -538,14 +1568,45 @@ export function todoAppHtml(): string {
       '</li>';
     }
 
+    function renderMergeItem(t) {
+      return '<li class="todo-item" data-id="' + t.id + '">' +
+        '<div class="edit-form">' +
+          '<div class="merge-title">⚠️ Someone else changed this todo while you were editing. Choose what to keep:</div>' +
+          conflict.fields.map(f =>
+            '<div class="merge-row">' +
+              '<span class="merge-label">' + f.label + '</span>' +
+              '<label><input type="radio" name="merge-' + f.field + '" value="mine" checked /> Yours: ' +
+                escHtml(formatFieldValue(f.field, f.mine)) + '</label>' +
+              '<label><input type="radio" name="merge-' + f.field + '" value="theirs" /> Theirs: ' +
+                escHtml(formatFieldValue(f.field, f.theirs)) + '</label>' +
+            '</div>'
+          ).join("") +
+          '<div class="edit-actions">' +
+            '<button class="btn btn-primary" id="merge-save">Save merged</button>' +
+            '<button class="btn" id="merge-discard">Keep theirs</button>' +
+          '</div>' +
+        '</div>' +
+      '</li>';
+    }
+
     function attachEventListeners() {
+      // List selector
+      const listSelect = document.getElementById("list-select");
+      if (listSelect) {
+        listSelect.addEventListener("change", () => switchList(listSelect.value));
+      }
+
       // Add button
       const addBtn = document.getElementById("add-btn");
       if (addBtn) {
         addBtn.addEventListener("click", () => {
           const title = document.getElementById("new-title")?.value;
           const desc = document.getElementById("new-desc")?.value;
-          addTodo(title, desc);
+          const due = document.getElementById("new-due")?.value;
+          const priority = document.getElementById("new-priority")?.value;
+          const tags = document.getElementById("new-tags")?.value;
+          const recurrence = document.getElementById("new-recurrence")?.value;
+          addTodo(title, desc, due, priority, tags, recurrence);
         });
       }
 
@@ -555,18 +1616,179 @@ export function todoAppHtml(): string {
         titleInput.addEventListener("keydown", (e) => {
           if (e.key === "Enter") {
             const desc = document.getElementById("new-desc")?.value;
-            addTodo(e.target.value, desc);
+            const due = document.getElementById("new-due")?.value;
+            const priority = document.getElementById("new-priority")?.value;
+            const tags = document.getElementById("new-tags")?.value;
+            const recurrence = document.getElementById("new-recurrence")?.value;
+            addTodo(e.target.value, desc, due, priority, tags, recurrence);
           }
         });
       }
 
+      // Infinite scroll: fetch the next page when the sentinel scrolls into view
+      if (scrollObserver) scrollObserver.disconnect();
+      const sentinel = document.getElementById("load-more-sentinel");
+      if (sentinel) {
+        scrollObserver = new IntersectionObserver((entries) => {
+          if (entries.some(e => e.isIntersecting)) loadMoreTodos();
+        }, { root: document.getElementById("todo-scroll") });
+        scrollObserver.observe(sentinel);
+      }
+
       // Filter buttons
-      document.querySelectorAll(".filter-btn").forEach(btn => {
+      document.querySelectorAll(".filter-btn[data-filter]").forEach(btn => {
         btn.addEventListener("click", () => {
           currentFilter = btn.dataset.filter;
+          loadTodos();
+        });
+      });
+      // Multi-select and bulk actions
+      document.getElementById("select-btn")?.addEventListener("click", () => {
+        selecting = !selecting;
+        selectedIds.clear();
+        render();
+      });
+      document.getElementById("clear-completed-btn")?.addEventListener("click", () =>
+        bulkUpdate({ operation: "delete", match: { status: "completed" } })
+      );
+      document.querySelectorAll("[data-select]").forEach(cb => {
+        cb.addEventListener("change", () => {
+          if (cb.checked) selectedIds.add(cb.dataset.select); else selectedIds.delete(cb.dataset.select);
+          render();
+        });
+      });
+      document.getElementById("bulk-select-all")?.addEventListener("click", () => {
+        visibleTodos().forEach(t => selectedIds.add(t.id));
+        render();
+      });
+      document.querySelectorAll("[data-bulk]").forEach(btn => {
+        btn.addEventListener("click", () => bulkUpdateSelected({ operation: btn.dataset.bulk }));
+      });
+      const bulkPriority = document.getElementById("bulk-priority");
+      if (bulkPriority) {
+        bulkPriority.addEventListener("change", () =>
+          bulkUpdateSelected({
+            operation: "set_priority",
+            priority: bulkPriority.value === "none" ? null : bulkPriority.value,
+          })
+        );
+      }
+      const bulkTag = document.getElementById("bulk-tag");
+      if (bulkTag) {
+        bulkTag.addEventListener("keydown", (e) => {
+          if (e.key === "Enter" && bulkTag.value.trim()) {
+            bulkUpdateSelected({ operation: "add_tag", tag: bulkTag.value.trim() });
+          }
+        });
+      }
+
+      document.getElementById("hide-future-btn")?.addEventListener("click", () => {
+        hideFuture = !hideFuture;
+        loadTodos();
+      });
+
+      // Sort selector
+      const sortSelect = document.getElementById("sort-select");
+      if (sortSelect) {
+        sortSelect.addEventListener("change", () => {
+          currentSort = sortSelect.value;
+          loadTodos();
+        });
+      }
+
+      // Search
+      const searchInput = document.getElementById("search-input");
+      if (searchInput) {
+        searchInput.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") searchTodos(e.target.value);
+          if (e.key === "Escape") clearSearch();
+        });
+      }
+      document.getElementById("search-clear")?.addEventListener("click", clearSearch);
+      document.getElementById("search-more")?.addEventListener("click", () => searchTodos(searchQuery, searchCursor));
+
+      // Tag chips
+      document.querySelectorAll(".tag-bar [data-tag]").forEach(chip => {
+        chip.addEventListener("click", () => {
+          const tag = chip.dataset.tag;
+          selectedTags = selectedTags.includes(tag)
+            ? selectedTags.filter(t => t !== tag)
+            : [...selectedTags, tag];
+          loadTodos();
+        });
+      });
+
+      // Drag and drop reordering
+      document.querySelectorAll(".todo-item[draggable]").forEach(li => {
+        li.addEventListener("dragstart", (e) => {
+          dragId = li.dataset.id;
+          li.classList.add("dragging");
+          e.dataTransfer.effectAllowed = "move";
+        });
+        li.addEventListener("dragend", () => {
+          dragId = null;
+          li.classList.remove("dragging");
+        });
+        li.addEventListener("dragover", (e) => {
+          if (!dragId || dragId === li.dataset.id) return;
+          e.preventDefault();
+          const rect = li.getBoundingClientRect();
+          const below = e.clientY - rect.top > rect.height / 2;
+          li.classList.toggle("drop-below", below);
+          li.classList.toggle("drop-above", !below);
+        });
+        li.addEventListener("dragleave", () => li.classList.remove("drop-above", "drop-below"));
+        li.addEventListener("drop", (e) => {
+          e.preventDefault();
+          const below = li.classList.contains("drop-below");
+          li.classList.remove("drop-above", "drop-below");
+          if (dragId && dragId !== li.dataset.id) moveTodo(dragId, li.dataset.id, below);
+        });
+      });
+
+      // Subtasks
+      document.querySelectorAll("[data-expand]").forEach(el => {
+        el.addEventListener("click", () => {
+          const id = el.dataset.expand;
+          if (expandedIds.has(id)) expandedIds.delete(id); else expandedIds.add(id);
           render();
         });
       });
+      document.querySelectorAll("[data-subtask-toggle]").forEach(cb => {
+        cb.addEventListener("change", () => toggleSubtask(cb.dataset.todo, cb.dataset.subtaskToggle));
+      });
+      document.querySelectorAll("[data-subtask-move]").forEach(btn => {
+        btn.addEventListener("click", () =>
+          reorderSubtask(btn.dataset.todo, btn.dataset.subtaskMove, Number(btn.dataset.position)));
+      });
+      document.querySelectorAll("[data-subtask-remove]").forEach(btn => {
+        btn.addEventListener("click", () => removeSubtask(btn.dataset.todo, btn.dataset.subtaskRemove));
+      });
+      document.querySelectorAll("[data-subtask-add]").forEach(input => {
+        input.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") addSubtask(input.dataset.subtaskAdd, input.value);
+        });
+      });
+
+      // Confirming something the model asked to delete
+      document.getElementById("confirm-yes")?.addEventListener("click", confirmPending);
+      document.getElementById("confirm-no")?.addEventListener("click", () => {
+        pendingConfirm = null;
+        render();
+      });
+
+      // Suggested steps (decompose_todo): accept some, or dismiss them all
+      document.querySelectorAll("[data-decompose]").forEach(btn => {
+        btn.addEventListener("click", () => decomposeTodo(btn.dataset.decompose));
+      });
+      document.querySelectorAll("[data-proposal-step]").forEach(cb => {
+        cb.addEventListener("change", () => { proposal.steps[Number(cb.dataset.proposalStep)].keep = cb.checked; });
+      });
+      document.getElementById("proposal-accept")?.addEventListener("click", acceptProposal);
+      document.getElementById("proposal-dismiss")?.addEventListener("click", () => {
+        proposal = null;
+        render();
+      });
 
       // Checkboxes (toggle)
       document.querySelectorAll("[data-toggle]").forEach(cb => {
@@ -585,6 +1807,7 @@ export function todoAppHtml(): string {
       document.querySelectorAll("[data-delete]").forEach(btn => {
         btn.addEventListener("click", () => deleteTodo(btn.dataset.delete));
       });
+      document.getElementById("undo-delete")?.addEventListener("click", undoLastDelete);
 
       // Save edit
       document.querySelectorAll("[data-save]").forEach(btn => {
@@ -592,7 +1815,13 @@ export function todoAppHtml(): string {
           const id = btn.dataset.save;
           const title = document.getElementById("edit-title-" + id)?.value;
           const desc = document.getElementById("edit-desc-" + id)?.value;
-          if (title?.trim()) editTodo(id, title.trim(), desc?.trim());
+          const due = document.getElementById("edit-due-" + id)?.value;
+          const priority = document.getElementById("edit-priority-" + id)?.value;
+          const tags = document.getElementById("edit-tags-" + id)?.value;
+          const recurrence = document.getElementById("edit-recurrence-" + id)?.value;
+          const existing = todos.find(t => t.id === id);
+          const dueChanged = due !== toDateInput(existing?.due_at);
+          if (title?.trim()) editTodo(id, title.trim(), desc?.trim(), dueChanged ? due : undefined, priority, tags, recurrence);
         });
       });
 
@@ -603,6 +1832,23 @@ export function todoAppHtml(): string {
           render();
         });
       });
+
+      // Merge after a conflicting edit
+      document.getElementById("merge-save")?.addEventListener("click", () => {
+        const { todoId, theirs, merged, fields } = conflict;
+        const changes = { ...merged };
+        fields.forEach(f => {
+          if (document.querySelector('input[name="merge-' + f.field + '"]:checked')?.value !== "theirs") return;
+          if (f.field === "title") changes.title = theirs.title; else delete changes[f.field];
+        });
+        conflict = null;
+        saveEdit(todoId, theirs, changes);
+      });
+      document.getElementById("merge-discard")?.addEventListener("click", () => {
+        conflict = null;
+        editingId = null;
+        render();
+      });
     }
 
     function escHtml(s) {
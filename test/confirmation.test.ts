@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Confirmation, PANEL_CALL_META, confirmToolsFromEnv } from "../src/confirmation.js";
+import { InMemoryTodoRepository } from "../src/store/memory-store.js";
+import { TodoItem, TodoStore } from "../src/store/todo-store.js";
+import { USER, callTool, connect } from "./helpers.js";
+
+interface ToolOutput {
+  action: string;
+  confirmation: Confirmation;
+}
+
+function output(result: CallToolResult): ToolOutput {
+  assert.notEqual(result.isError, true, JSON.stringify(result.content));
+  return result.structuredContent as unknown as ToolOutput;
+}
+
+describe("confirmToolsFromEnv", () => {
+  it("confirms the destructive tools by default", () => {
+    const defaults = ["bulk_update_todos", "delete_todo", "empty_trash"];
+    assert.deepEqual([...confirmToolsFromEnv(undefined)].sort(), defaults);
+    assert.deepEqual([...confirmToolsFromEnv("  ")].sort(), defaults);
+  });
+
+  it("reads a comma-separated list, or none", () => {
+    assert.deepEqual([...confirmToolsFromEnv(" delete_todo, ,empty_trash ")], [
+      "delete_todo",
+      "empty_trash",
+    ]);
+    assert.equal(confirmToolsFromEnv("None").size, 0);
+  });
+});
+
+describe("ConfirmationGate", () => {
+  let store: TodoStore;
+  let todo: TodoItem;
+  let other: TodoItem;
+
+  async function isLive(todoId: string): Promise<boolean> {
+    return (await store.readTodo(USER, USER, todoId)) !== null;
+  }
+
+  async function deleteTodo(
+    client: Client,
+    args: Record<string, unknown>,
+    meta?: Record<string, unknown>
+  ): Promise<ToolOutput> {
+    return output(await callTool(client, "delete_todo", args, meta));
+  }
+
+  beforeEach(async () => {
+    store = new TodoStore(new InMemoryTodoRepository());
+    todo = await store.createTodo(USER, USER, "Old receipts");
+    other = await store.createTodo(USER, USER, "Tax return");
+  });
+
+  afterEach(() => {
+    delete process.env.TODO_CONFIRM_TOOLS;
+  });
+
+  describe("without elicitation", () => {
+    it("holds the call until it's repeated with the one-time token", async () => {
+      const client = await connect(store);
+      const held = await deleteTodo(client, { todo_id: todo.id });
+      assert.equal(held.action, "confirm");
+      assert.equal(held.confirmation.method, "token");
+      assert.equal(held.confirmation.outcome, "pending");
+      assert.ok(await isLive(todo.id));
+
+      const { confirmation_token } = held.confirmation;
+      const done = await deleteTodo(client, { todo_id: todo.id, confirmation_token });
+      assert.equal(done.action, "deleted");
+      assert.deepEqual(done.confirmation, { required: true, method: "token", outcome: "accepted" });
+      assert.equal(await isLive(todo.id), false);
+    });
+
+    it("only accepts a token for the call it was issued for", async () => {
+      const client = await connect(store);
+      const { confirmation } = await deleteTodo(client, { todo_id: todo.id });
+      const token = confirmation.confirmation_token;
+
+      const elsewhere = await deleteTodo(client, { todo_id: other.id, confirmation_token: token });
+      assert.equal(elsewhere.confirmation.outcome, "pending");
+      assert.notEqual(elsewhere.confirmation.confirmation_token, token);
+      assert.ok(await isLive(other.id));
+
+      // Still good for the call it was issued for
+      const done = await deleteTodo(client, { todo_id: todo.id, confirmation_token: token });
+      assert.equal(done.action, "deleted");
+    });
+
+    it("accepts a token once", async () => {
+      const client = await connect(store);
+      const { confirmation } = await deleteTodo(client, { todo_id: todo.id });
+      const token = confirmation.confirmation_token;
+      await deleteTodo(client, { todo_id: todo.id, confirmation_token: token });
+      await store.restoreTodo(USER, USER, todo.id);
+
+      const again = await deleteTodo(client, { todo_id: todo.id, confirmation_token: token });
+      assert.equal(again.confirmation.outcome, "pending");
+      assert.ok(await isLive(todo.id));
+    });
+
+    it("doesn't accept an expired token", async (t) => {
+      const client = await connect(store);
+      const { confirmation } = await deleteTodo(client, { todo_id: todo.id });
+      const expiresAt = Date.parse(confirmation.expires_at!);
+
+      t.mock.method(Date, "now", () => expiresAt + 1);
+      const late = await deleteTodo(client, {
+        todo_id: todo.id,
+        confirmation_token: confirmation.confirmation_token,
+      });
+      assert.equal(late.confirmation.outcome, "pending");
+      assert.ok(await isLive(todo.id));
+    });
+  });
+
+  describe("with elicitation", () => {
+    it("asks the user and goes ahead when they accept", async () => {
+      let asked = "";
+      const client = await connect(store, {
+        elicit: (request) => {
+          asked = request.params.message;
+          return "accept";
+        },
+      });
+      const done = await deleteTodo(client, { todo_id: todo.id });
+      assert.equal(done.action, "deleted");
+      assert.equal(done.confirmation.method, "elicitation");
+      assert.match(asked, /^Move "Old receipts" to the trash\?/);
+    });
+
+    it("changes nothing when the user declines or cancels", async () => {
+      for (const action of ["decline", "cancel"] as const) {
+        const client = await connect(store, { elicit: () => action });
+        const held = await deleteTodo(client, { todo_id: todo.id });
+        assert.equal(held.confirmation.outcome, action === "decline" ? "declined" : "cancelled");
+        assert.ok(await isLive(todo.id));
+      }
+    });
+
+    it("falls back to a token when the elicitation fails", async (t) => {
+      t.mock.method(console, "error", () => {});
+      const client = await connect(store, {
+        elicit: () => {
+          throw new Error("no UI");
+        },
+      });
+      const held = await deleteTodo(client, { todo_id: todo.id });
+      assert.equal(held.confirmation.method, "token");
+      assert.equal(held.confirmation.outcome, "pending");
+      assert.ok(await isLive(todo.id));
+    });
+  });
+
+  it("never holds up the panel's own calls", async () => {
+    const client = await connect(store, { elicit: () => "decline" });
+    const done = await deleteTodo(client, { todo_id: todo.id }, { [PANEL_CALL_META]: true });
+    assert.equal(done.action, "deleted");
+    assert.deepEqual(done.confirmation, { required: false, outcome: "not_required" });
+  });
+
+  it("only confirms the destructive bulk operation", async () => {
+    const client = await connect(store);
+    const completed = output(
+      await callTool(client, "bulk_update_todos", { operation: "complete", todo_ids: [todo.id] })
+    );
+    assert.notEqual(completed.action, "confirm");
+
+    const held = output(
+      await callTool(client, "bulk_update_todos", { operation: "delete", todo_ids: [todo.id] })
+    );
+    assert.equal(held.action, "confirm");
+    assert.ok(await isLive(todo.id));
+  });
+
+  it("keeps tools the policy leaves out to the panel", async () => {
+    process.env.TODO_CONFIRM_TOOLS = "bulk_update_todos";
+    const client = await connect(store);
+
+    const refused = await callTool(client, "delete_todo", { todo_id: todo.id });
+    assert.equal(refused.isError, true);
+    assert.ok(await isLive(todo.id));
+
+    const done = await deleteTodo(client, { todo_id: todo.id }, { [PANEL_CALL_META]: true });
+    assert.equal(done.action, "deleted");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { comparePositions, keyBetween } from "../src/store/fractional-index.js";
+
+/** Keys must sort strictly between their neighbours, byte-wise. */
+function assertBetween(key: string, a: string | null, b: string | null): void {
+  if (a !== null) assert.ok(comparePositions(a, key) < 0, `${a} < ${key}`);
+  if (b !== null) assert.ok(comparePositions(key, b) < 0, `${key} < ${b}`);
+}
+
+describe("keyBetween", () => {
+  it("starts an empty list at a0", () => {
+    assert.equal(keyBetween(null, null), "a0");
+  });
+
+  it("moves the integer part for the top and bottom of the list", () => {
+    assert.equal(keyBetween(null, "a0"), "Zz");
+    assert.equal(keyBetween("a0", null), "a1");
+    assert.equal(keyBetween("az", null), "b00");
+    assert.equal(keyBetween(null, "b00"), "az");
+  });
+
+  it("finds a key between any two keys", () => {
+    const cases: [string, string][] = [
+      ["a0", "a1"],
+      ["a0", "a0V"],
+      ["a0V", "a1"],
+      ["Zz", "a0"],
+      ["a1", "a10001"],
+      ["a0zzz", "a1"],
+    ];
+    for (const [a, b] of cases) assertBetween(keyBetween(a, b), a, b);
+  });
+
+  it("keeps order through many inserts at the top", () => {
+    const keys = [keyBetween(null, null)];
+    for (let i = 0; i < 5000; i++) keys.unshift(keyBetween(null, keys[0]));
+    assert.deepEqual([...keys].sort(comparePositions), keys);
+    // Top inserts grow the key by a character per ~62^n inserts, not per insert
+    assert.ok(keys[0].length <= 4, keys[0]);
+  });
+
+  it("keeps order when repeatedly inserting between the same neighbours", () => {
+    const lower = "a0";
+    let upper = "a1";
+    for (let i = 0; i < 200; i++) {
+      const key = keyBetween(lower, upper);
+      assertBetween(key, lower, upper);
+      upper = key;
+    }
+  });
+
+  it("rejects keys in the wrong order or that couldn't have been generated", () => {
+    assert.throws(() => keyBetween("a1", "a0"), /is not before/);
+    assert.throws(() => keyBetween("a0", "a0"), /is not before/);
+    assert.throws(() => keyBetween("a10", null), /Invalid position key/);
+    assert.throws(() => keyBetween("!", null), /Invalid position key head/);
+  });
+});
@@ -0,0 +1,75 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  CallToolResult,
+  CreateMessageRequest,
+  CreateMessageRequestSchema,
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { registerTools } from "../src/tools.js";
+import { registerPrompts } from "../src/prompts.js";
+import { TodoStore } from "../src/store/todo-store.js";
+
+export const USER = "u1";
+
+/** What the HTTP transport attaches to requests once the bearer token is validated. */
+const AUTH_INFO = { token: "token", clientId: "test", scopes: [], claims: { oid: USER } };
+
+/** Client features to offer; each is declared as a capability only when given. */
+export interface ClientHandlers {
+  /** Answer sampling requests with this text. */
+  sample?: (request: CreateMessageRequest) => string;
+  /** Answer elicitation requests with this action. */
+  elicit?: (request: ElicitRequest) => ElicitResult["action"];
+}
+
+/** A client connected to the todo tools and prompts as USER. */
+export async function connect(store: TodoStore, handlers: ClientHandlers = {}): Promise<Client> {
+  const { sample, elicit } = handlers;
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerTools(server, store);
+  registerPrompts(server, store);
+
+  const client = new Client(
+    { name: "test-client", version: "0.0.0" },
+    {
+      capabilities: {
+        ...(sample ? { sampling: {} } : {}),
+        ...(elicit ? { elicitation: { form: {} } } : {}),
+      },
+    }
+  );
+  if (sample) {
+    client.setRequestHandler(CreateMessageRequestSchema, async (request) => ({
+      role: "assistant",
+      model: "test",
+      content: { type: "text", text: sample(request) },
+    }));
+  }
+  if (elicit) {
+    client.setRequestHandler(ElicitRequestSchema, async (request) => ({
+      action: elicit(request),
+    }));
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const send = clientTransport.send.bind(clientTransport);
+  clientTransport.send = (message, options) => send(message, { ...options, authInfo: AUTH_INFO });
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+/** Call a tool, with `_meta` if given, and return its result. */
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>,
+  meta?: Record<string, unknown>
+): Promise<CallToolResult> {
+  return (await client.callTool({ name, arguments: args, _meta: meta })) as CallToolResult;
+}
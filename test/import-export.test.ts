@@ -0,0 +1,238 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ImportFormatError,
+  ImportedTodo,
+  TODO_FORMATS,
+  TodoFormat,
+  formatTodos,
+  parseTodos,
+} from "../src/store/import-export.js";
+import { TodoItem } from "../src/store/todo-repository.js";
+
+const EXPORTED_AT = "2026-03-01T12:00:00.000Z";
+
+function todo(fields: Partial<TodoItem> & Pick<TodoItem, "id" | "title">): TodoItem {
+  return {
+    user_id: "u1",
+    description: "",
+    completed: false,
+    created_at: "2026-02-01T08:00:00.000Z",
+    updated_at: "2026-02-02T08:00:00.000Z",
+    ...fields,
+  };
+}
+
+const TODOS: TodoItem[] = [
+  todo({
+    id: "t1",
+    title: "Pay rent, on time",
+    description: "Landlord's account\nReference: flat 2",
+    due_at: "2026-03-31T00:00:00.000Z",
+    priority: "high",
+    tags: ["home", "money"],
+  }),
+  todo({
+    id: "t2",
+    external_id: "ext-2",
+    title: "Call the bank",
+    completed: true,
+    priority: "urgent",
+    due_at: "2026-03-05T14:30:00.000Z",
+  }),
+];
+
+/** Round-trip `todos` through `format` and check nothing was reported. */
+function roundTrip(todos: TodoItem[], format: TodoFormat): ImportedTodo[] {
+  const parsed = parseTodos(formatTodos(todos, format, "Home", EXPORTED_AT), format);
+  assert.deepEqual(parsed.issues, []);
+  return parsed.todos;
+}
+
+describe("formatTodos and parseTodos", () => {
+  for (const format of TODO_FORMATS) {
+    it(`round-trips the shared fields through ${format}`, () => {
+      const [first, second] = roundTrip(TODOS, format);
+      assert.equal(first.external_id, "t1");
+      assert.equal(first.title, "Pay rent, on time");
+      assert.equal(first.description, "Landlord's account\nReference: flat 2");
+      assert.equal(first.completed, false);
+      assert.equal(first.due_at, "2026-03-31T00:00:00.000Z");
+      assert.equal(first.priority, "high");
+      assert.deepEqual(first.tags, ["home", "money"]);
+
+      // Exports carry the external id the todo was imported with
+      assert.equal(second.external_id, "ext-2");
+      assert.equal(second.completed, true);
+      assert.equal(second.priority, "urgent");
+      assert.equal(second.due_at, "2026-03-05T14:30:00.000Z");
+    });
+  }
+
+  it("round-trips reminders and recurrence where the format has them", () => {
+    const recurring = todo({
+      id: "t3",
+      title: "Water plants",
+      reminder_at: "2026-03-02T07:45:00.000Z",
+      recurrence: { rule: "FREQ=WEEKLY;BYDAY=MO", series_id: "t3", occurrence: 1, history: [] },
+    });
+    for (const format of ["json", "csv", "ical"] as const) {
+      const [imported] = roundTrip([recurring], format);
+      assert.equal(imported.reminder_at, "2026-03-02T07:45:00.000Z", format);
+      assert.equal(imported.recurrence, "FREQ=WEEKLY;BYDAY=MO", format);
+    }
+  });
+
+  it("round-trips subtasks through JSON and Markdown", () => {
+    const withSteps = todo({
+      id: "t4",
+      title: "Pack",
+      subtasks: [
+        { id: "s1", title: "Clothes", completed: true, created_at: EXPORTED_AT },
+        { id: "s2", title: "Charger", completed: false, created_at: EXPORTED_AT },
+      ],
+    });
+    for (const format of ["json", "markdown"] as const) {
+      const [imported] = roundTrip([withSteps], format);
+      assert.deepEqual(
+        imported.subtasks,
+        [
+          { title: "Clothes", completed: true },
+          { title: "Charger", completed: false },
+        ],
+        format
+      );
+    }
+  });
+
+  it("guards CSV cells against formula injection and strips the guard on import", () => {
+    const csv = formatTodos([todo({ id: "t5", title: "=SUM(A1:A2)" })], "csv", "Home", EXPORTED_AT);
+    assert.match(csv, /,'=SUM\(A1:A2\),/);
+    assert.equal(parseTodos(csv, "csv").todos[0].title, "=SUM(A1:A2)");
+  });
+
+  it("folds long iCalendar lines and unfolds them on import", () => {
+    const title = "A very long title ".repeat(8).trim();
+    const ics = formatTodos([todo({ id: "t6", title })], "ical", "Home", EXPORTED_AT);
+    for (const line of ics.split("\r\n")) assert.ok(Buffer.byteLength(line) <= 75, line);
+    assert.equal(parseTodos(ics, "ical").todos[0].title, title);
+  });
+});
+
+describe("parseTodos", () => {
+  it("derives the same id from the same title when a record has none", () => {
+    const a = parseTodos('[{"title": "Buy milk"}]', "json").todos[0];
+    const b = parseTodos("title\n  buy MILK  \n", "csv").todos[0];
+    assert.match(a.external_id, /^title:[0-9a-f]{16}$/);
+    assert.equal(b.external_id, a.external_id);
+  });
+
+  it("leaves fields a record doesn't mention undefined and clears empty ones", () => {
+    const [imported] = parseTodos('[{"title": "Read", "due_at": "", "tags": null}]', "json").todos;
+    assert.equal(imported.description, undefined);
+    assert.equal(imported.priority, undefined);
+    assert.equal(imported.due_at, null);
+    assert.equal(imported.tags, null);
+  });
+
+  it("reports invalid records as issues and keeps the rest", () => {
+    const csv = [
+      "id,title,priority,due_at,completed",
+      "a,Fine,low,2026-04-01,no",
+      "b,,low,,",
+      "c,Bad priority,whenever,,",
+      "d,Bad date,,someday,",
+      "e,Bad flag,,,maybe",
+    ].join("\n");
+    const parsed = parseTodos(csv, "csv");
+    assert.deepEqual(parsed.todos.map((t) => t.external_id), ["a"]);
+    assert.deepEqual(
+      parsed.issues.map((i) => [i.index, i.external_id, i.error]),
+      [
+        [2, "b", "Missing title"],
+        [3, "c", "Invalid priority: whenever (expected low, medium, high or urgent)"],
+        [4, "d", "Invalid due_at: someday"],
+        [5, "e", "Invalid completed: maybe"],
+      ]
+    );
+  });
+
+  it("accepts CSV header aliases and quoted cells", () => {
+    const csv =
+      "External_ID,Title,Done,Due,RRULE\r\n" +
+      'x1,"Say ""hi"", then leave",yes,2026-05-01,FREQ=DAILY\r\n';
+    const [imported] = parseTodos(csv, "csv").todos;
+    assert.equal(imported.external_id, "x1");
+    assert.equal(imported.title, 'Say "hi", then leave');
+    assert.equal(imported.completed, true);
+    assert.equal(imported.due_at, "2026-05-01T00:00:00.000Z");
+    assert.equal(imported.recurrence, "FREQ=DAILY");
+  });
+
+  it("reads Obsidian-style Markdown metadata", () => {
+    const md = [
+      "# Work",
+      "",
+      "- [ ] Ship release 🔺 📅 2026-06-01 #work #q2 <!-- id: rel -->",
+      "  Notes line one",
+      "",
+      "  Notes line two",
+      "  - [x] Tag build",
+      "- [x] Write notes",
+      "Trailing paragraph",
+      "  not a description",
+    ].join("\n");
+    const { todos } = parseTodos(md, "markdown");
+    assert.equal(todos.length, 2);
+    assert.deepEqual(
+      { ...todos[0], index: undefined },
+      {
+        index: undefined,
+        external_id: "rel",
+        title: "Ship release",
+        completed: false,
+        priority: "urgent",
+        due_at: "2026-06-01T00:00:00.000Z",
+        tags: ["work", "q2"],
+        description: "Notes line one\n\nNotes line two",
+        subtasks: [{ title: "Tag build", completed: true }],
+      }
+    );
+    assert.equal(todos[1].title, "Write notes");
+    assert.equal(todos[1].description, undefined);
+  });
+
+  it("reads relative iCalendar alarms against the due date", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VTODO",
+      "UID:r1",
+      "SUMMARY:Dentist",
+      "DUE:20260710T090000Z",
+      "PRIORITY:7",
+      "CATEGORIES:health,errands",
+      "BEGIN:VALARM",
+      "TRIGGER;RELATED=END:-PT30M",
+      "END:VALARM",
+      "END:VTODO",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    const [imported] = parseTodos(ics, "ical").todos;
+    assert.equal(imported.reminder_at, "2026-07-10T08:30:00.000Z");
+    assert.equal(imported.priority, "low");
+    assert.deepEqual(imported.tags, ["health", "errands"]);
+  });
+
+  it("throws ImportFormatError for files it can't read at all", () => {
+    const unreadable: [string, TodoFormat][] = [
+      ["{not json", "json"],
+      ['{"items": []}', "json"],
+      ["name,done\nx,no\n", "csv"],
+      ['title\n"unterminated\n', "csv"],
+      ["BEGIN:VTODO\nEND:VTODO\n", "ical"],
+    ];
+    for (const [content, format] of unreadable) {
+      assert.throws(() => parseTodos(content, format), ImportFormatError, content);
+    }
+  });
+});
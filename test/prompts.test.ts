@@ -0,0 +1,65 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTodoRepository } from "../src/store/memory-store.js";
+import { TodoStore } from "../src/store/todo-store.js";
+import { USER, connect } from "./helpers.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+/** UTC+14 all year round, so its day boundaries never match UTC's. */
+const KIRITIMATI = "Pacific/Kiritimati";
+
+async function promptText(client: Client, name: string, args: Record<string, string>) {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  const { content } = messages[0];
+  assert.equal(content.type, "text");
+  return content.type === "text" ? content.text : "";
+}
+
+describe("plan_my_day", () => {
+  let store: TodoStore;
+  let client: Client;
+  let endOfDay: Date;
+
+  beforeEach(async () => {
+    store = new TodoStore(new InMemoryTodoRepository());
+    client = await connect(store);
+    // Midnight at the end of today in Kiritimati
+    const local = new Date(Date.now() + 14 * HOUR_MS);
+    const localMidnight = Date.UTC(
+      local.getUTCFullYear(),
+      local.getUTCMonth(),
+      local.getUTCDate() + 1
+    );
+    endOfDay = new Date(localMidnight - 14 * HOUR_MS);
+    const minute = 60 * 1000;
+    await store.createTodo(USER, USER, "Due tonight", "", {
+      due_at: new Date(endOfDay.getTime() - minute).toISOString(),
+    });
+    await store.createTodo(USER, USER, "Due tomorrow", "", {
+      due_at: new Date(endOfDay.getTime() + minute).toISOString(),
+    });
+  });
+
+  it("plans the day in the caller's time zone", async () => {
+    const text = await promptText(client, "plan_my_day", { time_zone: KIRITIMATI });
+    const dueToday = text.split(`Due before ${endOfDay.toISOString()} (1):\n`)[1];
+    assert.ok(dueToday, text);
+    assert.match(dueToday.split("\n")[0], /Due tonight/);
+    assert.match(text, /I'm in the Pacific\/Kiritimati time zone/);
+  });
+
+  it("defaults to UTC days", async () => {
+    const text = await promptText(client, "plan_my_day", {});
+    const now = new Date();
+    const utcEnd = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    assert.match(text, new RegExp(`Due before ${new Date(utcEnd).toISOString()}`));
+    assert.doesNotMatch(text, /time zone/);
+  });
+
+  it("rejects an unknown time zone", async () => {
+    await assert.rejects(
+      client.getPrompt({ name: "plan_my_day", arguments: { time_zone: "Mars/Base" } })
+    );
+  });
+});
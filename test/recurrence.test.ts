@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RecurrenceError,
+  nextOccurrence,
+  normalizeRRule,
+  parseRRule,
+} from "../src/store/recurrence.js";
+
+/** The occurrence after `after` for `rule`, as "YYYY-MM-DDTHH:MMZ", or null. */
+function next(rule: string, after: string, occurrence = 1): string | null {
+  const date = nextOccurrence(parseRRule(rule), new Date(after), occurrence);
+  return date ? date.toISOString().slice(0, 16) + "Z" : null;
+}
+
+describe("parseRRule", () => {
+  it("normalizes case, the RRULE: prefix and part order", () => {
+    assert.equal(normalizeRRule("RRULE:byday=th,mo;freq=weekly"), "FREQ=WEEKLY;BYDAY=TH,MO");
+    assert.equal(normalizeRRule("FREQ=DAILY;INTERVAL=1"), "FREQ=DAILY");
+    assert.equal(
+      normalizeRRule("freq=monthly;count=5;byday=-1fr"),
+      "FREQ=MONTHLY;BYDAY=-1FR;COUNT=5"
+    );
+    // A date-only UNTIL includes that whole day
+    assert.equal(normalizeRRule("FREQ=DAILY;UNTIL=20260131"), "FREQ=DAILY;UNTIL=20260131T235959Z");
+  });
+
+  it("rejects rules outside the supported subset", () => {
+    for (const rule of [
+      "INTERVAL=2",
+      "FREQ=HOURLY",
+      "FREQ=DAILY;BYHOUR=9",
+      "FREQ=DAILY;COUNT=3;UNTIL=20260101",
+      "FREQ=WEEKLY;BYDAY=1MO",
+      "FREQ=WEEKLY;BYMONTHDAY=1",
+      "FREQ=YEARLY;BYDAY=MO",
+      "FREQ=DAILY;INTERVAL=0",
+      "FREQ=DAILY;FREQ=WEEKLY",
+      "FREQ=WEEKLY;BYDAY=XX",
+    ]) {
+      assert.throws(() => parseRRule(rule), RecurrenceError, rule);
+    }
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("steps daily rules by their interval and keeps the time of day", () => {
+    assert.equal(next("FREQ=DAILY;INTERVAL=2", "2026-01-01T09:30Z"), "2026-01-03T09:30Z");
+  });
+
+  it("restricts daily rules to BYDAY weekdays", () => {
+    // 2026-01-02 is a Friday
+    assert.equal(next("FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR", "2026-01-02T08:00Z"), "2026-01-05T08:00Z");
+  });
+
+  it("finds the next BYDAY weekday of a weekly rule", () => {
+    // 2026-01-01 is a Thursday
+    assert.equal(next("FREQ=WEEKLY;BYDAY=MO,TH", "2026-01-01T07:00Z"), "2026-01-05T07:00Z");
+    assert.equal(next("FREQ=WEEKLY", "2026-01-01T07:00Z"), "2026-01-08T07:00Z");
+  });
+
+  it("skips the off weeks of a fortnightly rule", () => {
+    assert.equal(
+      next("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", "2026-01-05T10:00Z"),
+      "2026-01-07T10:00Z"
+    );
+    assert.equal(
+      next("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", "2026-01-07T10:00Z"),
+      "2026-01-19T10:00Z"
+    );
+  });
+
+  it("supports ordinal weekdays in monthly rules", () => {
+    // Last Friday of January, then of February 2026
+    assert.equal(next("FREQ=MONTHLY;BYDAY=-1FR", "2026-01-30T17:00Z"), "2026-02-27T17:00Z");
+    assert.equal(next("FREQ=MONTHLY;BYDAY=1MO", "2026-01-05T09:00Z"), "2026-02-02T09:00Z");
+  });
+
+  it("skips months without the day, and counts negative BYMONTHDAY from the end", () => {
+    assert.equal(next("FREQ=MONTHLY", "2026-01-31T12:00Z"), "2026-03-31T12:00Z");
+    assert.equal(next("FREQ=MONTHLY;BYMONTHDAY=-1", "2026-01-31T12:00Z"), "2026-02-28T12:00Z");
+    assert.equal(next("FREQ=MONTHLY;BYMONTHDAY=1,15", "2026-01-01T12:00Z"), "2026-01-15T12:00Z");
+  });
+
+  it("only repeats February 29 in leap years", () => {
+    assert.equal(next("FREQ=YEARLY", "2024-02-29T00:00Z"), "2028-02-29T00:00Z");
+    assert.equal(next("FREQ=YEARLY;INTERVAL=2", "2026-03-01T00:00Z"), "2028-03-01T00:00Z");
+  });
+
+  it("ends the series at COUNT or UNTIL", () => {
+    assert.equal(next("FREQ=DAILY;COUNT=3", "2026-01-01T09:00Z", 2), "2026-01-02T09:00Z");
+    assert.equal(next("FREQ=DAILY;COUNT=3", "2026-01-02T09:00Z", 3), null);
+    assert.equal(next("FREQ=DAILY;UNTIL=20260103", "2026-01-02T09:00Z"), "2026-01-03T09:00Z");
+    assert.equal(next("FREQ=DAILY;UNTIL=20260103", "2026-01-03T09:00Z"), null);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { rankTodos, scoreTodo, tokenize } from "../src/store/search.js";
+import { TodoItem } from "../src/store/todo-repository.js";
+
+function todo(
+  id: string,
+  title: string,
+  description = "",
+  updatedAt = "2026-01-01T00:00:00.000Z"
+): TodoItem {
+  return {
+    id,
+    user_id: "u1",
+    title,
+    description,
+    completed: false,
+    created_at: updatedAt,
+    updated_at: updatedAt,
+  };
+}
+
+function rank(todos: TodoItem[], query: string): string[] {
+  return rankTodos(todos, query, tokenize(query)).map((hit) => hit.todo.id);
+}
+
+describe("tokenize", () => {
+  it("lowercases, splits on whitespace and drops duplicates", () => {
+    assert.deepEqual(tokenize("  Buy  MILK buy\teggs "), ["buy", "milk", "eggs"]);
+  });
+
+  it("keeps at most ten terms", () => {
+    assert.equal(tokenize("a b c d e f g h i j k l").length, 10);
+  });
+});
+
+describe("rankTodos", () => {
+  it("ranks title matches above description matches", () => {
+    const todos = [todo("desc", "Errands", "pick up the milk"), todo("title", "Milk")];
+    assert.deepEqual(rank(todos, "milk"), ["title", "desc"]);
+  });
+
+  it("ranks word-start matches above mid-word ones", () => {
+    const todos = [todo("mid", "Buttermilk pancakes"), todo("start", "Milk run")];
+    assert.deepEqual(rank(todos, "milk"), ["start", "mid"]);
+  });
+
+  it("ranks todos matching more terms higher, and the exact phrase highest", () => {
+    const todos = [
+      todo("one", "Call mum"),
+      todo("both", "Back up the call notes"),
+      todo("phrase", "Call back the plumber"),
+    ];
+    assert.deepEqual(rank(todos, "call back"), ["phrase", "both", "one"]);
+  });
+
+  it("doesn't reward repeating a word", () => {
+    const once = scoreTodo(todo("a", "Milk"), "milk", ["milk"]);
+    const many = scoreTodo(todo("b", "Milk milk milk", "milk milk"), "milk", ["milk"]);
+    assert.ok(once && many);
+    assert.equal(many.score - once.score, 2); // only the description's word-start bonus
+  });
+
+  it("breaks ties by the most recent update and leaves out non-matches", () => {
+    const todos = [
+      todo("old", "Milk", "", "2026-01-01T00:00:00.000Z"),
+      todo("none", "Bread"),
+      todo("new", "Milk", "", "2026-02-01T00:00:00.000Z"),
+    ];
+    assert.deepEqual(rank(todos, "milk"), ["new", "old"]);
+  });
+});
+
+describe("scoreTodo", () => {
+  it("merges overlapping title highlights", () => {
+    const hit = scoreTodo(todo("a", "Milkshake and milk"), "milk milks", ["milk", "milks"]);
+    assert.deepEqual(hit?.title_highlights, [
+      [0, 5],
+      [14, 18],
+    ]);
+  });
+
+  it("cuts a snippet around the first description match", () => {
+    const description = "x".repeat(100) + " invoice " + "y".repeat(100);
+    const hit = scoreTodo(todo("a", "Admin", description), "invoice", ["invoice"]);
+    assert.ok(hit?.snippet);
+    const [[start, end]] = hit.snippet.highlights;
+    assert.ok(hit.snippet.text.startsWith("…") && hit.snippet.text.endsWith("…"));
+    assert.equal(hit.snippet.text.slice(start, end), "invoice");
+  });
+});
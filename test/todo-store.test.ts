@@ -0,0 +1,178 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { InMemoryTodoRepository } from "../src/store/memory-store.js";
+import {
+  InvalidCursorError,
+  ListTodosOptions,
+  TodoFilter,
+  TodoItem,
+  TodoPriority,
+  TodoStore,
+  ToggleResult,
+} from "../src/store/todo-store.js";
+
+const USER = "u1";
+
+describe("TodoStore.listTodos paging", () => {
+  let store: TodoStore;
+
+  /** Every todo of a listing, `limit` at a time. */
+  async function allPages(options: ListTodosOptions, limit: number): Promise<TodoItem[][]> {
+    const pages: TodoItem[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.listTodos(USER, USER, { ...options, limit, cursor });
+      pages.push(page.todos);
+      cursor = page.next_cursor;
+    } while (cursor);
+    return pages;
+  }
+
+  beforeEach(async () => {
+    store = new TodoStore(new InMemoryTodoRepository());
+    const priorities: (TodoPriority | undefined)[] = ["low", "urgent", undefined, "high", "medium"];
+    for (let i = 0; i < 7; i++) {
+      const todo = await store.createTodo(USER, USER, `Todo ${i}`, "", {
+        priority: priorities[i % priorities.length],
+      });
+      if (i % 3 === 0) await store.toggleTodo(USER, USER, todo.id);
+    }
+  });
+
+  for (const sort of ["manual", "created", "priority"] as const) {
+    it(`returns the same todos page by page as in one go (sort: ${sort})`, async () => {
+      const { todos, next_cursor } = await store.listTodos(USER, USER, { sort });
+      assert.equal(next_cursor, undefined);
+
+      const pages = await allPages({ sort }, 3);
+      assert.deepEqual(pages.map((p) => p.length), [3, 3, 1]);
+      assert.deepEqual(
+        pages.flat().map((t) => t.id),
+        todos.map((t) => t.id)
+      );
+    });
+  }
+
+  it("leaves next_cursor out when a page reaches the end", async () => {
+    const page = await store.listTodos(USER, USER, { filter: "completed", limit: 3 });
+    assert.equal(page.todos.length, 3);
+    assert.equal(page.next_cursor, undefined);
+  });
+
+  it("rejects a cursor used with a different filter, sort or time zone", async () => {
+    const { next_cursor: cursor } = await store.listTodos(USER, USER, { limit: 2 });
+    assert.ok(cursor);
+    const changed: ListTodosOptions[] = [
+      { filter: "active" },
+      { sort: "priority" },
+      { priority: ["high"] },
+      { timeZone: "Europe/Berlin" },
+    ];
+    for (const options of changed) {
+      await assert.rejects(
+        store.listTodos(USER, USER, { ...options, limit: 2, cursor }),
+        InvalidCursorError,
+        JSON.stringify(options)
+      );
+    }
+  });
+
+  it("rejects a cursor from another list", async () => {
+    const list = await store.createList(USER, "Work");
+    const { next_cursor: cursor } = await store.listTodos(USER, USER, { limit: 2 });
+    await assert.rejects(store.listTodos(USER, list.id, { limit: 2, cursor }), InvalidCursorError);
+  });
+
+  it("rejects a malformed cursor", async () => {
+    for (const cursor of ["not a cursor", Buffer.from('{"f":"x"}').toString("base64url")]) {
+      await assert.rejects(store.listTodos(USER, USER, { limit: 2, cursor }), InvalidCursorError);
+    }
+  });
+});
+
+describe("TodoStore.toggleSubtask with completeParent", () => {
+  let store: TodoStore;
+  let todo: TodoItem;
+  let steps: string[];
+
+  async function toggle(index: number): Promise<ToggleResult> {
+    const result = await store.toggleSubtask(USER, USER, todo.id, steps[index], true);
+    assert.ok(result);
+    return result;
+  }
+
+  beforeEach(async () => {
+    store = new TodoStore(new InMemoryTodoRepository());
+    todo = await store.createTodo(USER, USER, "Move house", "", {
+      due_at: "2026-05-01T09:00:00.000Z",
+      recurrence: "FREQ=YEARLY",
+    });
+    const titles = ["Pack", "Clean", "Hand over keys"];
+    const withSteps = await store.addSubtasks(USER, USER, todo.id, titles);
+    steps = (withSteps?.subtasks ?? []).map((st) => st.id);
+  });
+
+  it("completes the todo once every step is done", async () => {
+    await toggle(0);
+    assert.equal((await toggle(1)).todo.completed, false);
+    const last = await toggle(2);
+    assert.equal(last.todo.completed, true);
+    // Through the toggle path, so the recurring todo moves on
+    assert.equal(last.next_occurrence?.due_at, "2027-05-01T09:00:00.000Z");
+  });
+
+  it("doesn't reopen the todo when a step is unchecked", async () => {
+    for (const i of [0, 1, 2]) await toggle(i);
+    assert.equal((await toggle(1)).todo.completed, true);
+  });
+
+  it("doesn't reopen a todo completed by hand when a step is checked", async () => {
+    await store.toggleTodo(USER, USER, todo.id);
+    const { todo: after, next_occurrence } = await toggle(0);
+    assert.equal(after.completed, true);
+    assert.equal(next_occurrence, undefined);
+  });
+});
+
+describe("TodoStore.searchTodos paging", () => {
+  let store: TodoStore;
+
+  beforeEach(async () => {
+    store = new TodoStore(new InMemoryTodoRepository());
+    for (let i = 0; i < 5; i++) await store.createTodo(USER, USER, `Call supplier ${i}`);
+    await store.createTodo(USER, USER, "Call back the plumber");
+  });
+
+  it("pages through every hit once", async () => {
+    const { hits, total } = await store.searchTodos(USER, USER, "call", { limit: 10 });
+    const first = await store.searchTodos(USER, USER, "call", { limit: 4 });
+    const second = await store.searchTodos(USER, USER, "call", {
+      limit: 4,
+      cursor: first.next_cursor,
+    });
+    assert.equal(total, 6);
+    assert.equal(second.next_cursor, undefined);
+    assert.deepEqual(
+      [...first.hits, ...second.hits].map((h) => h.todo.id),
+      hits.map((h) => h.todo.id)
+    );
+  });
+
+  it("rejects a cursor used with a different query, filter or list", async () => {
+    const { next_cursor: cursor } = await store.searchTodos(USER, USER, "call", { limit: 2 });
+    assert.ok(cursor);
+    const list = await store.createList(USER, "Work");
+    const reuses: [string, string, { filter?: TodoFilter }][] = [
+      [USER, "call back", {}],
+      [USER, "call", { filter: "active" }],
+      [list.id, "call", {}],
+    ];
+    for (const [listId, query, options] of reuses) {
+      await assert.rejects(
+        store.searchTodos(USER, listId, query, { ...options, limit: 2, cursor }),
+        InvalidCursorError,
+        `${listId} ${query}`
+      );
+    }
+  });
+});
@@ -0,0 +1,202 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GraphTask, GraphTaskInput, GraphTasksClient } from "../src/graph/graph-tasks.js";
+import { GraphSyncResult, syncWithGraph } from "../src/graph/todo-sync.js";
+import { InMemoryTodoRepository } from "../src/store/memory-store.js";
+import { GraphListLink, TodoItem, TodoStore } from "../src/store/todo-store.js";
+
+const USER = "u1";
+const GRAPH_LIST = "graph-list";
+
+/** Microsoft To Do in memory: one task list, timestamps from the real clock. */
+class FakeGraph extends GraphTasksClient {
+  readonly tasks = new Map<string, GraphTask>();
+  private nextId = 1;
+
+  constructor() {
+    super("token", "http://graph.invalid");
+  }
+
+  async listTasks(): Promise<GraphTask[]> {
+    return [...this.tasks.values()].map((t) => ({ ...t }));
+  }
+
+  async createTask(_listId: string, input: GraphTaskInput): Promise<GraphTask> {
+    const now = new Date().toISOString();
+    const task: GraphTask = {
+      id: `task-${this.nextId++}`,
+      title: "",
+      status: "notStarted",
+      importance: "normal",
+      ...input,
+      createdDateTime: now,
+      lastModifiedDateTime: now,
+    };
+    this.tasks.set(task.id, task);
+    return { ...task };
+  }
+
+  async updateTask(_listId: string, taskId: string, changes: GraphTaskInput): Promise<GraphTask> {
+    return { ...this.edit(taskId, changes) };
+  }
+
+  async deleteTask(_listId: string, taskId: string): Promise<boolean> {
+    return this.tasks.delete(taskId);
+  }
+
+  /** Change a task as the To Do apps would. */
+  edit(taskId: string, changes: GraphTaskInput): GraphTask {
+    const task = this.tasks.get(taskId);
+    assert.ok(task, `no task ${taskId}`);
+    Object.assign(task, changes, { lastModifiedDateTime: new Date().toISOString() });
+    return task;
+  }
+}
+
+/** Let the clock move on, so the next write gets a later `updated_at`. */
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 5));
+}
+
+describe("syncWithGraph", () => {
+  let store: TodoStore;
+  let graph: FakeGraph;
+  let todo: TodoItem;
+  let taskId: string;
+
+  async function sync(): Promise<GraphSyncResult> {
+    const link = await store.getGraphLink(USER, USER);
+    assert.ok(link);
+    const result = await syncWithGraph(store, graph, USER, link);
+    assert.deepEqual(result.failures, []);
+    await tick();
+    return result;
+  }
+
+  async function link(): Promise<GraphListLink> {
+    const saved = await store.getGraphLink(USER, USER);
+    assert.ok(saved);
+    return saved;
+  }
+
+  /** The synced todo as it is now; null once it's trashed. */
+  async function current(): Promise<TodoItem | null> {
+    const { todos } = await store.listTodos(USER, USER, { filter: "all" });
+    return todos.find((t) => t.id === todo.id) ?? null;
+  }
+
+  // A todo synced to To Do once, so later syncs compare against that
+  beforeEach(async () => {
+    store = new TodoStore(new InMemoryTodoRepository());
+    graph = new FakeGraph();
+    todo = await store.createTodo(USER, USER, "Pay rent", "", { priority: "high" });
+    await store.saveGraphLink(USER, {
+      list_id: USER,
+      user_id: USER,
+      graph_list_id: GRAPH_LIST,
+      graph_list_name: "Tasks",
+      linked_at: new Date().toISOString(),
+      items: {},
+    });
+    const first = await sync();
+    assert.equal(first.pushed.created, 1);
+    taskId = (await link()).items[todo.id].graph_id;
+    assert.equal(graph.tasks.get(taskId)?.importance, "high");
+  });
+
+  it("does nothing when neither side changed", async () => {
+    const result = await sync();
+    assert.deepEqual(result.pushed, { created: 0, updated: 0, deleted: 0 });
+    assert.deepEqual(result.pulled, { created: 0, updated: 0, deleted: 0 });
+  });
+
+  it("pushes a change made only here", async () => {
+    await store.updateTodo(USER, USER, todo.id, { title: "Pay rent today" });
+    const result = await sync();
+    assert.equal(result.pushed.updated, 1);
+    assert.deepEqual(result.conflicts, []);
+    assert.equal(graph.tasks.get(taskId)?.title, "Pay rent today");
+  });
+
+  it("pulls a change made only in To Do", async () => {
+    graph.edit(taskId, { title: "Pay the rent", status: "completed" });
+    const result = await sync();
+    assert.equal(result.pulled.updated, 1);
+    const pulled = await current();
+    assert.equal(pulled?.title, "Pay the rent");
+    assert.equal(pulled?.completed, true);
+    // Importance didn't change, so the todo keeps its own priority
+    assert.equal(pulled?.priority, "high");
+  });
+
+  it("keeps To Do's version when it changed last", async () => {
+    await store.updateTodo(USER, USER, todo.id, { title: "Local title" });
+    await tick();
+    graph.edit(taskId, { title: "To Do title" });
+
+    const result = await sync();
+    assert.equal(result.conflicts.length, 1);
+    assert.equal(result.conflicts[0].winner, "graph");
+    assert.equal(result.pulled.updated, 1);
+    assert.equal((await current())?.title, "To Do title");
+  });
+
+  it("keeps this side's version when it changed last", async () => {
+    graph.edit(taskId, { title: "To Do title" });
+    await tick();
+    await store.updateTodo(USER, USER, todo.id, { title: "Local title" });
+
+    const result = await sync();
+    assert.equal(result.conflicts.length, 1);
+    assert.equal(result.conflicts[0].winner, "local");
+    assert.equal(result.pushed.updated, 1);
+    assert.equal(graph.tasks.get(taskId)?.title, "Local title");
+  });
+
+  it("deletes the todo when its task was deleted in To Do", async () => {
+    graph.tasks.delete(taskId);
+    const result = await sync();
+    assert.equal(result.pulled.deleted, 1);
+    assert.equal(await current(), null);
+    assert.equal((await link()).items[todo.id], undefined);
+  });
+
+  it("recreates the task when it was deleted in To Do but changed here since", async () => {
+    graph.tasks.delete(taskId);
+    await store.updateTodo(USER, USER, todo.id, { title: "Still needed" });
+
+    const result = await sync();
+    assert.equal(result.pushed.created, 1);
+    assert.equal(result.pulled.deleted, 0);
+    const newTaskId = (await link()).items[todo.id].graph_id;
+    assert.notEqual(newTaskId, taskId);
+    assert.equal(graph.tasks.get(newTaskId)?.title, "Still needed");
+  });
+
+  it("deletes the task when the todo was trashed here", async () => {
+    await store.deleteTodo(USER, USER, todo.id);
+    const result = await sync();
+    assert.equal(result.pushed.deleted, 1);
+    assert.equal(graph.tasks.size, 0);
+  });
+
+  it("restores a trashed todo whose task changed in To Do after it was trashed", async () => {
+    await store.deleteTodo(USER, USER, todo.id);
+    await tick();
+    graph.edit(taskId, { title: "Pay rent (again)" });
+
+    const result = await sync();
+    assert.equal(result.pulled.created, 1);
+    assert.equal(result.pushed.deleted, 0);
+    assert.equal((await current())?.title, "Pay rent (again)");
+  });
+
+  it("creates todos for new tasks, completed ones included", async () => {
+    await graph.createTask(GRAPH_LIST, { title: "Renew passport", status: "completed" });
+    const result = await sync();
+    assert.equal(result.pulled.created, 1);
+    const { todos } = await store.listTodos(USER, USER, { filter: "all" });
+    const created = todos.find((t) => t.title === "Renew passport");
+    assert.equal(created?.completed, true);
+  });
+});
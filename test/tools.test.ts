@@ -0,0 +1,91 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTodoRepository } from "../src/store/memory-store.js";
+import { TodoStore } from "../src/store/todo-store.js";
+import { USER, callTool, connect } from "./helpers.js";
+
+describe("decompose_todo", () => {
+  let store: TodoStore;
+  let todoId: string;
+
+  beforeEach(async () => {
+    store = new TodoStore(new InMemoryTodoRepository());
+    const todo = await store.createTodo(USER, USER, "Plan the trip", "Two weeks in Japan");
+    await store.addSubtask(USER, USER, todo.id, "Book flights");
+    todoId = todo.id;
+  });
+
+  async function decompose(
+    client: Client,
+    args: Record<string, unknown> = {}
+  ): Promise<{ steps: string[]; message?: string }> {
+    const result = await callTool(client, "decompose_todo", { todo_id: todoId, ...args });
+    assert.notEqual(result.isError, true);
+    return result.structuredContent as { steps: string[]; message?: string };
+  }
+
+  it("cleans up the suggested steps and leaves out ones the todo has", async () => {
+    let prompt = "";
+    const client = await connect(store, {
+      sample: (request) => {
+        const content = request.params.messages[0].content;
+        prompt = !Array.isArray(content) && content.type === "text" ? content.text : "";
+        return [
+          "1. Renew passports",
+          "- [ ] Book flights",
+          "* Reserve hotels",
+          "2) - Reserve hotels",
+          "",
+          "• Get a rail pass",
+          "x".repeat(201),
+        ].join("\n");
+      },
+    });
+
+    const { steps } = await decompose(client);
+    assert.deepEqual(steps, ["Renew passports", "Reserve hotels", "Get a rail pass"]);
+    assert.match(prompt, /Task: Plan the trip/);
+    assert.match(prompt, /Steps it already has:\n- Book flights/);
+  });
+
+  it("suggests at most max_steps", async () => {
+    const client = await connect(store, { sample: () => "One\nTwo\nThree\nFour" });
+    const { steps } = await decompose(client, { max_steps: 2 });
+    assert.deepEqual(steps, ["One", "Two"]);
+  });
+
+  it("returns no steps when the client can't sample", async () => {
+    const client = await connect(store);
+    const { steps, message } = await decompose(client);
+    assert.deepEqual(steps, []);
+    assert.match(message ?? "", /doesn't support MCP sampling/);
+  });
+
+  it("returns no steps when the model only repeats existing ones", async () => {
+    const client = await connect(store, { sample: () => "book flights\n" });
+    const { steps, message } = await decompose(client);
+    assert.deepEqual(steps, []);
+    assert.equal(message, "The client's model didn't suggest any new steps.");
+  });
+});
+
+describe("bulk_update_todos", () => {
+  it("needs exactly one of todo_ids and match", async () => {
+    const store = new TodoStore(new InMemoryTodoRepository());
+    const todo = await store.createTodo(USER, USER, "File taxes");
+    const client = await connect(store);
+    const cases: [Record<string, unknown>, string][] = [
+      [{}, "Pass todo_ids or match"],
+      [{ todo_ids: [todo.id], match: {} }, "Pass either todo_ids or match, not both"],
+    ];
+    for (const [selection, error] of cases) {
+      const result = await callTool(client, "bulk_update_todos", {
+        operation: "complete",
+        ...selection,
+      });
+      assert.equal(result.isError, true);
+      assert.match(JSON.stringify(result.content), new RegExp(error));
+    }
+  });
+});